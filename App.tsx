@@ -1,32 +1,54 @@
-import React, { useState, useRef, useMemo, useEffect } from 'react';
-import { Play, Pause, Download, Settings, RefreshCw, Terminal, Search, AlertCircle, CheckCircle, Info, Filter, FileText, Image as ImageIcon, Code, Anchor, Eye, Database, Globe, Layers, Key, LogOut, Unlock, X, ChevronRight, BarChart3, Activity, List, Cpu, BookOpen, KeyRound, Trash2 } from 'lucide-react';
+import React, { useState, useRef, useMemo, useEffect, useCallback } from 'react';
+import { Play, Pause, Download, Settings, RefreshCw, Terminal, Search, AlertCircle, CheckCircle, Info, Filter, FileText, Image as ImageIcon, Code, Anchor, Eye, Database, Globe, Layers, Key, LogOut, Unlock, X, ChevronRight, BarChart3, Activity, List, Cpu, BookOpen, Trash2, Map as MapIcon, Square, History, GitCompare, ShieldAlert, FileSearch, Accessibility, Network } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import StatsCards from './components/StatsCards';
 import NetworkGraph from './components/NetworkGraph';
 import BackendGuide from './components/BackendGuide';
 import InspectorPanel from './components/InspectorPanel';
-import { CrawlConfig, CrawlStats, CrawlStatus, LinkNode, LogEntry, ScanStage } from './types';
-import { fetchPageLinks, analyzeOrphans } from './services/gemini';
+import SessionHistory from './components/SessionHistory';
+import ScopeRulesEditor from './components/ScopeRulesEditor';
+import WorkerPool from './components/WorkerPool';
+import KeyPoolPanel from './components/KeyPoolPanel';
+import ExportDialog from './components/ExportDialog';
+import CrawlDiffPanel from './components/CrawlDiffPanel';
+import SecurityPanel from './components/SecurityPanel';
+import TechInventory from './components/TechInventory';
+import SeoPanel from './components/SeoPanel';
+import AccessibilityPanel from './components/AccessibilityPanel';
+import StructurePanel from './components/StructurePanel';
+import ResultsTable from './components/ResultsTable';
+import QueryBar from './components/QueryBar';
+import { CrawlConfig, CrawlSession, CrawlSessionSummary, CrawlStats, CrawlStatus, CrawlWorker, LinkNode, LogEntry, QueryPreset, ScanStage, SitemapReport } from './types';
+import { analyzeOrphans } from './services/gemini';
+import { EXTRACTOR_OPTIONS } from './services/linkExtractor';
+import { createExtractor } from './services/extractorRegistry';
+import { deleteQueryPreset, deleteSession, listQueryPresets, listSessions, loadSession, renameSession, saveQueryPreset, saveSession } from './services/sessionStore';
+import { normalizeUrl } from './services/urlNormalize';
+import { DEFAULT_CRAWL_CONFIG, withDefaults } from './services/crawlConfig';
+import { CrawlEngine } from './services/crawlEngine';
+import { createKeyRateLimiter, DEFAULT_KEY_LIMITS, KeyLimits, KeyUsage } from './services/keyRateLimiter';
+import { ImportedCrawl } from './services/crawlImport';
+import { diffCrawls, diffHighlights } from './services/crawlDiff';
+import { auditSeo, SeoCheckId } from './services/seoAudit';
+import { StructureReport } from './services/siteStructure';
+import { matchesQuery, parseNodeQuery } from './services/nodeQuery';
+
+// How often a running crawl is checkpointed to IndexedDB
+const CHECKPOINT_INTERVAL_MS = 3000;
 
 // Tab Types for Right Panel
-type RightPanelTab = 'logs' | 'charts' | 'analysis';
+type RightPanelTab = 'logs' | 'charts' | 'sitemap' | 'structure' | 'analysis' | 'diff' | 'security' | 'seo' | 'a11y';
 
 const App: React.FC = () => {
   // Configuration State
-  const [config, setConfig] = useState<CrawlConfig>({
-    url: 'https://bangladesh.gov.bd',
-    maxDepth: 3,
-    maxPages: 100,
-    delay: 5000, // Updated to 5000ms (5s) to ensure ~12 RPM (below the 15 RPM limit)
-    respectRobots: true,
-    renderJS: true,
-    includeAssets: true, 
-  });
+  const [config, setConfig] = useState<CrawlConfig>(DEFAULT_CRAWL_CONFIG);
 
   // API Key State
   const [apiKeys, setApiKeys] = useState<string[]>([]);
   const [isApiConnected, setIsApiConnected] = useState<boolean>(false);
-  const [activeKeyDisplayIndex, setActiveKeyDisplayIndex] = useState<number>(0);
+  const [keyLimits, setKeyLimits] = useState<KeyLimits>(DEFAULT_KEY_LIMITS);
+  const [keyUsage, setKeyUsage] = useState<KeyUsage[]>([]);
+  const [keyLimiter] = useState(() => createKeyRateLimiter(DEFAULT_KEY_LIMITS, setKeyUsage));
   const apiKeyInputRef = useRef<HTMLTextAreaElement>(null);
 
   // Runtime State
@@ -42,29 +64,50 @@ const App: React.FC = () => {
     assetsFound: 0,
     totalSizeKB: 0,
     startTime: 0,
-    currentUrl: '',
     depthReached: 0
   });
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [workers, setWorkers] = useState<CrawlWorker[]>([]);
   const [aiAnalysis, setAiAnalysis] = useState<string>('');
+  const [sitemapReport, setSitemapReport] = useState<SitemapReport | null>(null);
+  const [structureReport, setStructureReport] = useState<StructureReport | null>(null); // recomputed whenever the crawl stops moving
   const [filterType, setFilterType] = useState<string>('all');
-  const [searchTerm, setSearchTerm] = useState<string>('');
+  const [seoCheck, setSeoCheck] = useState<SeoCheckId | null>(null); // narrows the 'seo' filter to one check
+  const [query, setQuery] = useState<string>(''); // see services/nodeQuery for the syntax
+  const [queryPresets, setQueryPresets] = useState<QueryPreset[]>([]);
   
   // UI State
   const [activeTab, setActiveTab] = useState<RightPanelTab>('logs');
   const [showBackendModal, setShowBackendModal] = useState(false);
+  const [showSessionsModal, setShowSessionsModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [baseline, setBaseline] = useState<ImportedCrawl | null>(null);
+
+  // Session State
+  const [sessions, setSessions] = useState<CrawlSessionSummary[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const sessionMetaRef = useRef<{ name: string; createdAt: number; config: CrawlConfig } | null>(null);
+  const lastCheckpointRef = useRef<number>(0);
   const graphContainerRef = useRef<HTMLDivElement>(null);
   const [graphDimensions, setGraphDimensions] = useState({ width: 600, height: 400 });
 
   // Crawler Refs
-  const queueRef = useRef<LinkNode[]>([]);
-  const visitedRef = useRef<Set<string>>(new Set());
-  const nodesRef = useRef<LinkNode[]>([]);
-  const isRunningRef = useRef<boolean>(false);
+  const engineRef = useRef<CrawlEngine | null>(null);
+  const detachEngineRef = useRef<() => void>(() => {});
   const scrollRef = useRef<HTMLDivElement>(null);
   
   const apiKeysRef = useRef<string[]>([]); 
-  const currentKeyIndexRef = useRef<number>(0);
+  const currentKeyIndexRef = useRef<number>(0); // key that served the most recent request
+
+  // Providers that don't need the key pool can run without connecting it
+  const buildExtractor = (cfg: CrawlConfig) => createExtractor(cfg.extractor, {
+      keyPool: { getKeys: () => apiKeysRef.current, limiter: keyLimiter },
+      includeAssets: cfg.includeAssets
+  });
+  const selectedExtractor = useMemo(() => buildExtractor(config), [config.extractor, config.includeAssets]);
+  const canStart = isApiConnected || !selectedExtractor.capabilities.requiresApiKey;
+  const isCrawlActive = status === CrawlStatus.RUNNING || status === CrawlStatus.PAUSED;
+
 
   // Auto-scroll logs
   useEffect(() => {
@@ -73,6 +116,30 @@ const App: React.FC = () => {
     }
   }, [logs, activeTab]);
 
+  // Load session history once, and point out crawls a reload interrupted
+  useEffect(() => {
+      listSessions().then(list => {
+          setSessions(list);
+          const interrupted = list.filter(s => (s.status === CrawlStatus.RUNNING || s.status === CrawlStatus.PAUSED) && s.queuedPages > 0);
+          if (interrupted.length > 0) addLog(`${interrupted.length} interrupted session(s) can be resumed from Session History.`, 'warning');
+      }).catch(() => addLog("Session storage unavailable. Crawls will not be persisted.", 'warning'));
+      listQueryPresets().then(setQueryPresets).catch(() => {});
+  }, []);
+
+  // Checkpoint the active session: throttled while running, immediately on any other status change
+  useEffect(() => {
+      if (!activeSessionId || !sessionMetaRef.current) return;
+      const elapsed = Date.now() - lastCheckpointRef.current;
+      const wait = status === CrawlStatus.RUNNING ? Math.max(0, CHECKPOINT_INTERVAL_MS - elapsed) : 0;
+      const timer = setTimeout(() => {
+          lastCheckpointRef.current = Date.now();
+          saveSession(buildSession(activeSessionId))
+              .then(refreshSessions)
+              .catch(err => console.warn("Session checkpoint failed", err));
+      }, wait);
+      return () => clearTimeout(timer);
+  }, [activeSessionId, nodes, stats, logs, status, aiAnalysis, sitemapReport]);
+
   // Resize Observer for Graph
   useEffect(() => {
       if (!graphContainerRef.current) return;
@@ -88,15 +155,16 @@ const App: React.FC = () => {
       return () => resizeObserver.disconnect();
   }, []);
 
+  const pushLog = (entry: LogEntry) => setLogs(prev => [entry, ...prev].slice(0, 200));
+
   const addLog = (msg: string, type: 'info' | 'success' | 'error' | 'warning' | 'system' = 'info', details?: string) => {
-    const entry: LogEntry = {
+    pushLog({
       id: Math.random().toString(36).substr(2, 9),
       timestamp: new Date().toLocaleTimeString(),
       message: msg,
       type,
       details
-    };
-    setLogs(prev => [entry, ...prev].slice(0, 200));
+    });
   };
 
   // --- API Handlers ---
@@ -106,10 +174,11 @@ const App: React.FC = () => {
       const keys = input.split(/[\n,\|\s]+/).map(k => k.trim()).filter(k => k.length > 20); // Basic length check
       
       if (keys.length > 0) {
+          // A new pool starts with fresh buckets; usage can't be carried over by position
           setApiKeys(keys);
           apiKeysRef.current = keys;
           currentKeyIndexRef.current = 0;
-          setActiveKeyDisplayIndex(0);
+          keyLimiter.reset(keys.length);
           setIsApiConnected(true);
           addLog(`Securely connected ${keys.length} API Keys. Pool ready.`, 'success');
       } else {
@@ -133,191 +202,220 @@ const App: React.FC = () => {
       }
   };
 
+  // --- Session Handlers ---
+  const refreshSessions = () => listSessions().then(setSessions);
+
+  const buildSession = (id: string): CrawlSession => {
+      const meta = sessionMetaRef.current!;
+      return {
+          id, name: meta.name, createdAt: meta.createdAt, updatedAt: Date.now(),
+          status, config: meta.config,
+          ...engineRef.current!.snapshot(),
+          logs, stats, aiAnalysis, sitemapReport,
+          activeKeyIndex: currentKeyIndexRef.current
+      };
+  };
+
+  const handleOpenSession = async (id: string) => {
+      if (status === CrawlStatus.RUNNING) {
+          addLog("Pause or abort the running crawl before opening another session.", 'error');
+          return;
+      }
+      const session = await loadSession(id);
+      if (!session) {
+          addLog("Session not found in storage.", 'error');
+          refreshSessions();
+          return;
+      }
+      session.config = withDefaults(session.config);
+
+      // A page that was mid-scan when the tab died goes back to the front of the queue
+      const interrupted = session.nodes.filter(n => n.status === 'scanning');
+      interrupted.forEach(n => { n.status = 'pending'; });
+      const engine = new CrawlEngine(session.config, buildExtractor(session.config), {
+          restore: { ...session, queue: [...interrupted.map(n => n.url), ...session.queue] }
+      });
+      attachEngine(engine);
+      const queue = engine.queued();
+      const resumable = engine.status === CrawlStatus.PAUSED;
+
+      currentKeyIndexRef.current = session.activeKeyIndex;
+      setWorkers([]);
+
+      sessionMetaRef.current = { name: session.name, createdAt: session.createdAt, config: session.config };
+      lastCheckpointRef.current = Date.now();
+      setConfig(session.config);
+      setNodes([...engine.nodes()]);
+      setLogs(session.logs);
+      setStats(engine.stats);
+      setAiAnalysis(session.aiAnalysis);
+      setSitemapReport(session.sitemapReport);
+      setStructureReport(engine.analyzeStructure());
+      setSelectedNode(null);
+      setScanStage(resumable ? 'INIT' : 'FINALIZE');
+      setStatus(engine.status);
+      setActiveSessionId(session.id);
+      setShowSessionsModal(false);
+      addLog(`SESSION RESTORED: ${session.name}`, 'system', resumable ? `${queue.length} URLs queued. Press Resume to continue.` : `Status: ${session.status}`);
+  };
+
+  // Loads a saved session as the diff baseline, leaving the current crawl untouched
+  const handleCompareSession = async (id: string) => {
+      const session = await loadSession(id);
+      if (!session) {
+          addLog("Session not found in storage.", 'error');
+          return;
+      }
+      setBaseline({ name: session.name, nodes: session.nodes, config: session.config, stats: session.stats });
+  };
+
+  const handleRenameSession = async (id: string, name: string) => {
+      await renameSession(id, name);
+      if (id === activeSessionId && sessionMetaRef.current) sessionMetaRef.current.name = name;
+      refreshSessions();
+  };
+
+  const handleDeleteSession = async (id: string) => {
+      if (id === activeSessionId) return;
+      await deleteSession(id);
+      refreshSessions();
+  };
+
+  // --- Query Presets ---
+  const handleSavePreset = async (name: string) => {
+      // Saving under an existing name replaces that preset
+      const existing = queryPresets.find(p => p.name === name);
+      const preset: QueryPreset = { id: existing?.id ?? Math.random().toString(36).substr(2, 9), name, query, createdAt: existing?.createdAt ?? Date.now() };
+      await saveQueryPreset(preset);
+      setQueryPresets(await listQueryPresets());
+  };
+
+  const handleDeletePreset = async (id: string) => {
+      await deleteQueryPreset(id);
+      setQueryPresets(await listQueryPresets());
+  };
+
   // --- Crawler Logic ---
+  // The engine does the crawling; the UI mirrors its events into state
+  const attachEngine = (engine: CrawlEngine) => {
+      detachEngineRef.current();
+      engineRef.current = engine;
+      const syncNodes = () => setNodes([...engine.nodes()]);
+      const unsubscribers = [
+          engine.on('nodeDiscovered', syncNodes),
+          engine.on('nodeScanned', ({ usedKeyIndex }) => {
+              if (usedKeyIndex !== undefined) currentKeyIndexRef.current = usedKeyIndex;
+              syncNodes();
+          }),
+          engine.on('stageChanged', ({ stage }) => setScanStage(stage)),
+          engine.on('statusChanged', ({ status }) => {
+              setStatus(status);
+              if (status !== CrawlStatus.RUNNING) {
+                  syncNodes(); // picks up the PageRank scored on pause
+                  setStructureReport(engine.analyzeStructure());
+              }
+          }),
+          engine.on('workersChanged', ({ workers }) => setWorkers(workers)),
+          engine.on('statsUpdated', ({ stats }) => setStats(stats)),
+          engine.on('log', pushLog),
+          engine.on('finished', ({ status, sitemapReport }) => {
+              syncNodes();
+              if (sitemapReport) setSitemapReport(sitemapReport);
+              if (status === CrawlStatus.COMPLETED) runOrphanAnalysis(engine.nodes(), engine.analyzeStructure());
+          })
+      ];
+      detachEngineRef.current = () => unsubscribers.forEach(off => off());
+  };
+
   const startRecursiveCrawl = async () => {
     if (!config.url) return;
-    if (!isApiConnected) {
+    if (!canStart) {
         addLog("Cannot start: API Pool not configured.", 'error');
         return;
     }
     if (status === CrawlStatus.RUNNING) return;
+    if (!normalizeUrl(config.url, undefined, { trackingParams: config.trackingParams })) {
+        addLog(`Invalid target URL: ${config.url}`, 'error');
+        return;
+    }
+
+    const sessionId = Math.random().toString(36).substr(2, 9);
+    sessionMetaRef.current = { name: `${new URL(config.url).hostname} · ${new Date().toLocaleString()}`, createdAt: Date.now(), config };
+    lastCheckpointRef.current = 0;
+    setActiveSessionId(sessionId);
 
-    setStatus(CrawlStatus.RUNNING);
-    isRunningRef.current = true;
-    setScanStage('INIT');
     setNodes([]);
     setLogs([]);
     setAiAnalysis('');
+    setSitemapReport(null);
+    setStructureReport(null);
     setSelectedNode(null);
-    nodesRef.current = [];
-    visitedRef.current = new Set();
-    queueRef.current = [];
-
-    setStats({
-      totalLinks: 1, scannedPages: 0, queuedPages: 1, errors: 0,
-      assetsFound: 0, totalSizeKB: 0, startTime: Date.now(),
-      currentUrl: config.url, depthReached: 0
-    });
-
-    addLog(`INITIALIZING RECURSIVE ENGINE: ${config.url}`, 'system');
-    
-    const rootNode: LinkNode = {
-        id: config.url, url: config.url, depth: 0, type: 'internal',
-        status: 'pending', contentType: 'text/html', discoverySource: 'anchor',
-        title: 'Root', scanned: false
-    };
-
-    queueRef.current.push(rootNode);
-    nodesRef.current.push(rootNode);
-    visitedRef.current.add(config.url);
-    setNodes([...nodesRef.current]);
 
-    processQueue();
+    const engine = new CrawlEngine(config, selectedExtractor);
+    attachEngine(engine);
+    await engine.start();
   };
 
-  const processQueue = async () => {
-    if (!isRunningRef.current || queueRef.current.length === 0 || nodesRef.current.length >= config.maxPages) {
-        finishCrawl();
-        return;
-    }
-
-    const currentNode = queueRef.current.shift();
-    if (!currentNode) return;
-
-    setStats(prev => ({ ...prev, currentUrl: currentNode.url, queuedPages: queueRef.current.length }));
-    
-    if (currentNode.depth >= config.maxDepth) {
-        setTimeout(processQueue, 50);
-        return;
-    }
-
-    setScanStage('DOM_PARSE');
-    currentNode.status = 'scanning';
-    updateNodeState(currentNode);
-    addLog(`SCANNING: ${currentNode.url}`, 'info', `Keys: ${apiKeysRef.current.length} | Active: #${currentKeyIndexRef.current + 1}`);
-
-    try {
-        // Enforce the Rate Limit Delay (Default 5000ms)
-        await new Promise(r => setTimeout(r, config.delay)); 
-        
-        // Pass the entire key pool and current index to the service
-        // Use apiKeysRef.current to ensures we always use the freshest keys from UI
-        const { links: children, usedKeyIndex } = await fetchPageLinks(
-            apiKeysRef.current, 
-            currentKeyIndexRef.current, 
-            currentNode.url, 
-            config.url, 
-            currentNode.depth
-        );
-        
-        // Check if key rotation happened
-        if (usedKeyIndex !== currentKeyIndexRef.current) {
-            addLog(`QUOTA FAILOVER: Switched from Key #${currentKeyIndexRef.current + 1} to Key #${usedKeyIndex + 1}`, 'warning');
-            currentKeyIndexRef.current = usedKeyIndex;
-            setActiveKeyDisplayIndex(usedKeyIndex);
-        }
-
-        let newNodesAdded = 0;
-        for (const child of children) {
-            if (!visitedRef.current.has(child.url)) {
-                visitedRef.current.add(child.url);
-                nodesRef.current.push(child);
-                if (child.type === 'internal' && child.contentType === 'text/html') {
-                    queueRef.current.push(child);
-                }
-                newNodesAdded++;
-                if (child.status.startsWith('4')) addLog(`BROKEN LINK: ${child.url}`, 'error');
-            }
-        }
-
-        currentNode.status = '200';
-        currentNode.scanned = true;
-        updateNodeState(currentNode);
-
-        setNodes([...nodesRef.current]); 
-        setStats(prev => ({
-            ...prev,
-            totalLinks: nodesRef.current.length,
-            scannedPages: prev.scannedPages + 1,
-            queuedPages: queueRef.current.length,
-            errors: nodesRef.current.filter(n => n.status.startsWith('4')).length,
-            assetsFound: nodesRef.current.filter(n => n.type === 'resource').length,
-            depthReached: Math.max(prev.depthReached, currentNode.depth),
-            totalSizeKB: prev.totalSizeKB + children.reduce((acc, c) => acc + (c.size || 0), 0)
-        }));
-
-        if (newNodesAdded > 0) addLog(`EXTRACTED: ${newNodesAdded} links`, 'success');
-
-    } catch (err: any) {
-        const errorMsg = err.message || JSON.stringify(err);
-        const status = (err.status || err.code || "500").toString();
-        const currentKey = currentKeyIndexRef.current + 1;
-
-        addLog(`FAILED to scan ${currentNode.url}`, 'error', `Key #${currentKey} | Status: ${status} | ${errorMsg}`);
-        
-        if (status === '404' || errorMsg.includes('404')) {
-            currentNode.status = '404';
-        } else if (status === '403' || errorMsg.includes('403')) {
-            currentNode.status = '403';
-        } else {
-            currentNode.status = '500';
-        }
-        updateNodeState(currentNode);
-    }
-    setTimeout(processQueue, 100);
+  const runOrphanAnalysis = (crawled: LinkNode[], structure: StructureReport) => {
+      const keys = apiKeysRef.current;
+      if (keys.length === 0) return;
+      // The report counts against the same quotas as the crawl, so it queues for a key like any page
+      keyLimiter.acquire(keys.length)
+        .then(index => analyzeOrphans(keys[index], crawled, { seo: auditSeo(crawled), structure }))
+        .then(analysis => {
+          setAiAnalysis(analysis);
+          setActiveTab('analysis'); // Auto switch to analysis tab
+        })
+        .catch(err => addLog("AI report skipped.", 'warning', err.message));
   };
 
-  const finishCrawl = () => {
-      setStatus(CrawlStatus.COMPLETED);
-      setScanStage('FINALIZE');
-      isRunningRef.current = false;
-      addLog("RECURSIVE CRAWL COMPLETED.", 'success');
-      
-      const activeKey = apiKeysRef.current[currentKeyIndexRef.current];
-      if (activeKey) {
-          analyzeOrphans(activeKey, nodesRef.current).then(analysis => {
-            setAiAnalysis(analysis);
-            setActiveTab('analysis'); // Auto switch to analysis tab
-          });
+  const pauseCrawl = () => engineRef.current?.pause();
+
+  const resumeCrawl = () => {
+      const engine = engineRef.current;
+      if (!engine || status !== CrawlStatus.PAUSED) return;
+      if (selectedExtractor.capabilities.requiresApiKey && apiKeysRef.current.length === 0) {
+          addLog("Cannot resume: API Pool not configured.", 'error');
+          return;
       }
+      if (sessionMetaRef.current) sessionMetaRef.current.config = config;
+      engine.setConfig(config);
+      engine.setExtractor(selectedExtractor);
+      engine.resume();
   };
 
-  const stopCrawl = () => {
-      isRunningRef.current = false;
-      setStatus(CrawlStatus.IDLE);
-      addLog("CRAWL ABORTED BY USER.", 'warning');
-  }
+  const stopCrawl = () => engineRef.current?.stop();
 
-  const updateNodeState = (updatedNode: LinkNode) => {
-      const index = nodesRef.current.findIndex(n => n.id === updatedNode.id);
-      if (index !== -1) nodesRef.current[index] = { ...updatedNode };
-  };
+  // Edges live in the engine; `nodes` changes on every scan, so it stands in for "the graph moved"
+  const linksTo = useCallback((url: string) => engineRef.current?.linksTo(url) ?? [], []);
+  const selectedInlinks = useMemo(() => (selectedNode ? linksTo(selectedNode.url) : []), [selectedNode, nodes, linksTo]);
 
-  const handleExportCSV = () => {
-      const headers = ["URL", "Type", "Status", "Size", "Depth", "Parent"];
-      const rows = nodes.map(n => [n.url, n.type, n.status, n.size, n.depth, n.parentId]);
-      const csvContent = [headers.join(","), ...rows.map(row => row.join(","))].join("\n");
-      const blob = new Blob([csvContent], { type: "text/csv" });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = `deep_crawl_${new Date().toISOString().slice(0,10)}.csv`;
-      link.click();
-  };
+  const seoReport = useMemo(() => auditSeo(nodes), [nodes]);
+  const seoIssueUrls = useMemo(
+    () => new Set(seoReport.issues.filter(i => !seoCheck || i.check === seoCheck).map(i => i.url)),
+    [seoReport, seoCheck]
+  );
+
+  const nodeQuery = useMemo(() => parseNodeQuery(query), [query]);
 
   const filteredNodes = useMemo(() => {
     return nodes.filter(node => {
-        const matchesSearch = node.url.toLowerCase().includes(searchTerm.toLowerCase());
+        const matchesSearch = matchesQuery(node, nodeQuery);
         const matchesType = filterType === 'all' 
             ? true 
             : filterType === 'broken' ? (node.status.startsWith('4') || node.status.startsWith('5'))
             : filterType === 'assets' ? node.type === 'resource'
             : filterType === 'pages' ? node.type !== 'resource'
             : filterType === 'scanned' ? node.scanned
+            : filterType === 'redirects' ? node.type === 'internal' && (!!node.redirectChain || node.status.startsWith('3'))
+            : filterType === 'seo' ? seoIssueUrls.has(node.url)
             : true;
         return matchesSearch && matchesType;
     });
-  }, [nodes, searchTerm, filterType]);
+  }, [nodes, nodeQuery, filterType, seoIssueUrls]);
+
+  const crawlDiff = useMemo(() => (baseline ? diffCrawls(baseline.nodes, nodes) : null), [baseline, nodes]);
+  const highlights = useMemo(() => (crawlDiff ? diffHighlights(crawlDiff) : undefined), [crawlDiff]);
 
   const depthData = React.useMemo(() => {
     const counts: Record<number, number> = {};
@@ -387,10 +485,12 @@ const App: React.FC = () => {
                                  <div className="flex items-center text-emerald-400 text-[10px] font-mono"><div className="w-1.5 h-1.5 bg-emerald-500 rounded-full mr-2 animate-pulse"></div>Connected</div>
                                  <div className="text-slate-500 text-[9px] font-bold uppercase tracking-wide">Pool Size: {apiKeys.length}</div>
                              </div>
-                             <div className="text-[10px] text-slate-400 font-mono flex items-center border-t border-emerald-500/10 pt-1 mt-1">
-                                <KeyRound className="w-3 h-3 mr-1.5 text-slate-500" />
-                                <span>Active: Key #{activeKeyDisplayIndex + 1}</span>
-                             </div>
+                             <KeyPoolPanel
+                                keys={apiKeys}
+                                usage={keyUsage}
+                                limits={keyLimits}
+                                onLimitsChange={(limits) => { setKeyLimits(limits); keyLimiter.setLimits(limits); }}
+                             />
                         </div>
                         <button onClick={handleDisconnectApi} className="w-full bg-slate-800 hover:bg-rose-900/30 text-slate-400 hover:text-rose-400 text-[10px] font-bold py-1.5 rounded-md border border-slate-700 hover:border-rose-800 transition-all flex items-center justify-center uppercase tracking-wide"><LogOut className="w-3 h-3 mr-1" /> Terminate Pool</button>
                     </div>
@@ -403,15 +503,58 @@ const App: React.FC = () => {
                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Target Endpoint</label>
                    <div className="relative">
                        <Globe className="absolute left-2 top-2 w-3.5 h-3.5 text-slate-500" />
-                       <input type="text" value={config.url} onChange={(e) => setConfig({...config, url: e.target.value})} disabled={status === CrawlStatus.RUNNING} className="w-full bg-slate-800 border border-slate-700 rounded-md py-1.5 pl-7 pr-2 text-xs focus:ring-1 focus:ring-blue-500 outline-none text-white placeholder-slate-600 disabled:opacity-50 font-mono"/>
+                       <input type="text" value={config.url} onChange={(e) => setConfig({...config, url: e.target.value})} disabled={isCrawlActive} className="w-full bg-slate-800 border border-slate-700 rounded-md py-1.5 pl-7 pr-2 text-xs focus:ring-1 focus:ring-blue-500 outline-none text-white placeholder-slate-600 disabled:opacity-50 font-mono"/>
                    </div>
                </div>
 
+               <div className="space-y-1">
+                   <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Link Extractor</label>
+                   <select value={config.extractor} onChange={(e) => setConfig({...config, extractor: e.target.value as CrawlConfig['extractor']})} disabled={isCrawlActive} className="w-full bg-slate-800 border border-slate-700 rounded-md py-1.5 px-2 text-xs focus:ring-1 focus:ring-blue-500 outline-none text-white disabled:opacity-50">
+                       {EXTRACTOR_OPTIONS.map(opt => <option key={opt.id} value={opt.id}>{opt.label}</option>)}
+                   </select>
+                   <p className="text-[10px] text-slate-500 leading-snug">{EXTRACTOR_OPTIONS.find(opt => opt.id === config.extractor)?.description}</p>
+               </div>
+
+               <label className="flex items-center justify-between text-[10px] text-slate-400 cursor-pointer">
+                   <span>Respect robots.txt</span>
+                   <input type="checkbox" checked={config.respectRobots} onChange={(e) => setConfig({...config, respectRobots: e.target.checked})} disabled={isCrawlActive} className="accent-blue-500"/>
+               </label>
+               <label className="flex items-center justify-between text-[10px] text-slate-400 cursor-pointer">
+                   <span>Seed from sitemap.xml</span>
+                   <input type="checkbox" checked={config.discoverSitemaps} onChange={(e) => setConfig({...config, discoverSitemaps: e.target.checked})} disabled={isCrawlActive} className="accent-blue-500"/>
+               </label>
+
+               <ScopeRulesEditor
+                   rootUrl={config.url}
+                   scope={config.scope}
+                   rules={config.scopeRules}
+                   disabled={isCrawlActive}
+                   onChange={(scope, scopeRules) => setConfig({...config, scope, scopeRules})}
+               />
+
+               <div className="space-y-1">
+                   <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Strip Query Params</label>
+                   <input type="text" value={config.trackingParams.join(', ')} onChange={(e) => setConfig({...config, trackingParams: e.target.value.split(',').map(p => p.trim())})} disabled={isCrawlActive} placeholder="utm_*, gclid, fbclid" className="w-full bg-slate-800 border border-slate-700 rounded-md py-1.5 px-2 text-xs focus:ring-1 focus:ring-blue-500 outline-none text-white placeholder-slate-600 disabled:opacity-50 font-mono"/>
+                   <p className="text-[10px] text-slate-500 leading-snug">Dropped before URLs are compared. <span className="font-mono">*</span> matches a prefix.</p>
+               </div>
+
                <div className="space-y-3 pt-2">
                     <div>
                         <div className="flex justify-between text-[10px] text-slate-400 mb-1"><span>Scan Depth</span><span className="text-blue-400">{config.maxDepth}</span></div>
                         <input type="range" min="1" max="5" value={config.maxDepth} onChange={(e) => setConfig({...config, maxDepth: parseInt(e.target.value)})} disabled={status === CrawlStatus.RUNNING} className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"/>
                     </div>
+                    <div>
+                        <div className="flex justify-between text-[10px] text-slate-400 mb-1"><span>Per-Host Delay</span><span className="text-blue-400">{(config.delay / 1000).toFixed(1)}s</span></div>
+                        <input type="range" min="0" max="10000" step="500" value={config.delay} onChange={(e) => setConfig({...config, delay: parseInt(e.target.value)})} disabled={status === CrawlStatus.RUNNING} className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"/>
+                    </div>
+                    <div>
+                        <div className="flex justify-between text-[10px] text-slate-400 mb-1"><span>Workers</span><span className="text-blue-400">{config.concurrency}</span></div>
+                        <input type="range" min="1" max="16" value={config.concurrency} onChange={(e) => setConfig({...config, concurrency: parseInt(e.target.value)})} disabled={status === CrawlStatus.RUNNING} className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"/>
+                    </div>
+                    <div>
+                        <div className="flex justify-between text-[10px] text-slate-400 mb-1"><span>Per-Host Limit</span><span className="text-blue-400">{config.perHostConcurrency}</span></div>
+                        <input type="range" min="1" max="8" value={config.perHostConcurrency} onChange={(e) => setConfig({...config, perHostConcurrency: parseInt(e.target.value)})} disabled={status === CrawlStatus.RUNNING} className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"/>
+                    </div>
                     <div>
                         <div className="flex justify-between text-[10px] text-slate-400 mb-1"><span>Max Pages</span><span className="text-blue-400">{config.maxPages}</span></div>
                         <input type="range" min="50" max="500" step="50" value={config.maxPages} onChange={(e) => setConfig({...config, maxPages: parseInt(e.target.value)})} disabled={status === CrawlStatus.RUNNING} className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"/>
@@ -419,6 +562,10 @@ const App: React.FC = () => {
                </div>
             </div>
 
+            <button onClick={() => { refreshSessions(); setShowSessionsModal(true); }} className="w-full py-2 bg-slate-900 border border-slate-800 hover:bg-slate-800 text-slate-500 hover:text-white rounded-md text-xs transition-colors flex items-center justify-center">
+                <History className="w-3 h-3 mr-2" /> Session History ({sessions.length})
+            </button>
+
             <button onClick={() => setShowBackendModal(true)} className="w-full py-2 bg-slate-900 border border-slate-800 hover:bg-slate-800 text-slate-500 hover:text-white rounded-md text-xs transition-colors flex items-center justify-center">
                 <BookOpen className="w-3 h-3 mr-2" /> View Backend Logic
             </button>
@@ -426,12 +573,23 @@ const App: React.FC = () => {
 
         {/* Footer Actions */}
         <div className="p-4 border-t border-slate-800 bg-[#0b1121]">
-            {status === CrawlStatus.RUNNING ? (
-              <button className="w-full bg-rose-600 hover:bg-rose-700 text-white font-bold py-2.5 px-4 rounded-lg flex items-center justify-center transition-all shadow-lg shadow-rose-900/20 text-xs uppercase tracking-wide" onClick={stopCrawl}>
-                <Pause className="w-3.5 h-3.5 mr-2" /> Abort Sequence
-              </button>
+            {isCrawlActive ? (
+              <div className="flex space-x-2">
+                {status === CrawlStatus.RUNNING ? (
+                  <button className="flex-1 bg-amber-600 hover:bg-amber-500 text-white font-bold py-2.5 px-3 rounded-lg flex items-center justify-center transition-all shadow-lg shadow-amber-900/20 text-xs uppercase tracking-wide" onClick={pauseCrawl}>
+                    <Pause className="w-3.5 h-3.5 mr-2" /> Pause
+                  </button>
+                ) : (
+                  <button className="flex-1 bg-blue-600 hover:bg-blue-500 text-white font-bold py-2.5 px-3 rounded-lg flex items-center justify-center transition-all shadow-lg shadow-blue-900/20 text-xs uppercase tracking-wide" onClick={resumeCrawl}>
+                    <Play className="w-3.5 h-3.5 mr-2 fill-current" /> Resume
+                  </button>
+                )}
+                <button className="flex-1 bg-rose-600 hover:bg-rose-700 text-white font-bold py-2.5 px-3 rounded-lg flex items-center justify-center transition-all shadow-lg shadow-rose-900/20 text-xs uppercase tracking-wide" onClick={stopCrawl}>
+                  <Square className="w-3.5 h-3.5 mr-2 fill-current" /> Abort
+                </button>
+              </div>
             ) : (
-              <button className={`w-full font-bold py-2.5 px-4 rounded-lg flex items-center justify-center transition-all shadow-lg text-xs uppercase tracking-wide ${isApiConnected ? 'bg-blue-600 hover:bg-blue-500 text-white shadow-blue-900/20' : 'bg-slate-800 text-slate-500 cursor-not-allowed border border-slate-700'}`} onClick={startRecursiveCrawl} disabled={!isApiConnected}>
+              <button className={`w-full font-bold py-2.5 px-4 rounded-lg flex items-center justify-center transition-all shadow-lg text-xs uppercase tracking-wide ${canStart ? 'bg-blue-600 hover:bg-blue-500 text-white shadow-blue-900/20' : 'bg-slate-800 text-slate-500 cursor-not-allowed border border-slate-700'}`} onClick={startRecursiveCrawl} disabled={!canStart}>
                 <Play className="w-3.5 h-3.5 mr-2 fill-current" /> Initialize Scan
               </button>
             )}
@@ -451,16 +609,20 @@ const App: React.FC = () => {
                 <div className="h-4 w-[1px] bg-slate-700"></div>
                 <div className="flex items-center space-x-2 text-[10px] font-mono text-slate-400">
                      <span>STATUS:</span>
-                     <span className={`${status === CrawlStatus.RUNNING ? 'text-emerald-400 animate-pulse' : 'text-slate-500'}`}>{status}</span>
+                     <span className={`${status === CrawlStatus.RUNNING ? 'text-emerald-400 animate-pulse' : status === CrawlStatus.PAUSED ? 'text-amber-400' : 'text-slate-500'}`}>{status}</span>
                 </div>
             </div>
             
             <div className="flex items-center space-x-3">
-                 <div className="relative">
-                    <Search className="absolute left-2.5 top-2 w-3.5 h-3.5 text-slate-500" />
-                    <input type="text" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} placeholder="Search node..." className="w-48 bg-slate-900 border border-slate-700 rounded-md py-1.5 pl-8 pr-2 text-xs focus:ring-1 focus:ring-blue-500 outline-none text-slate-300 placeholder-slate-600"/>
-                 </div>
-                 <button onClick={handleExportCSV} disabled={nodes.length === 0} className="p-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-md text-slate-400 hover:text-white transition-colors disabled:opacity-50" title="Export CSV">
+                 <QueryBar
+                     query={query}
+                     errors={nodeQuery.errors}
+                     onChange={setQuery}
+                     presets={queryPresets}
+                     onSavePreset={handleSavePreset}
+                     onDeletePreset={handleDeletePreset}
+                 />
+                 <button onClick={() => setShowExportModal(true)} disabled={nodes.length === 0} className="p-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-md text-slate-400 hover:text-white transition-colors disabled:opacity-50" title="Export">
                     <Download className="w-4 h-4" />
                  </button>
             </div>
@@ -472,6 +634,7 @@ const App: React.FC = () => {
              {/* ROW 1: Stats Cards */}
              <div className="flex-shrink-0">
                  <StatsCards stats={stats} status={status} />
+                 <WorkerPool workers={workers} />
              </div>
 
              {/* ROW 2: Split View (Graph + Tabs) */}
@@ -489,6 +652,9 @@ const App: React.FC = () => {
                             <NetworkGraph 
                                 data={filteredNodes} 
                                 onNodeSelect={setSelectedNode} 
+                                highlights={highlights}
+                                linksTo={linksTo}
+                                selectedUrl={selectedNode?.url}
                                 width={graphDimensions.width} 
                                 height={graphDimensions.height} 
                             />
@@ -506,9 +672,27 @@ const App: React.FC = () => {
                           <button onClick={() => setActiveTab('charts')} className={`flex-1 py-2 text-[10px] font-bold uppercase tracking-wider flex items-center justify-center transition-colors ${activeTab === 'charts' ? 'bg-slate-800 text-purple-400 border-b-2 border-purple-500' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-800/50'}`}>
                              <BarChart3 className="w-3 h-3 mr-1.5" /> Metrics
                           </button>
+                          <button onClick={() => setActiveTab('sitemap')} className={`flex-1 py-2 text-[10px] font-bold uppercase tracking-wider flex items-center justify-center transition-colors ${activeTab === 'sitemap' ? 'bg-slate-800 text-emerald-400 border-b-2 border-emerald-500' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-800/50'}`}>
+                             <MapIcon className="w-3 h-3 mr-1.5" /> Sitemap
+                          </button>
+                          <button onClick={() => setActiveTab('structure')} className={`flex-1 py-2 text-[10px] font-bold uppercase tracking-wider flex items-center justify-center transition-colors ${activeTab === 'structure' ? 'bg-slate-800 text-sky-400 border-b-2 border-sky-500' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-800/50'}`}>
+                             <Network className="w-3 h-3 mr-1.5" /> Links
+                          </button>
                           <button onClick={() => setActiveTab('analysis')} className={`flex-1 py-2 text-[10px] font-bold uppercase tracking-wider flex items-center justify-center transition-colors ${activeTab === 'analysis' ? 'bg-slate-800 text-indigo-400 border-b-2 border-indigo-500' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-800/50'}`}>
                              <Cpu className="w-3 h-3 mr-1.5" /> AI Report
                           </button>
+                          <button onClick={() => setActiveTab('diff')} className={`flex-1 py-2 text-[10px] font-bold uppercase tracking-wider flex items-center justify-center transition-colors ${activeTab === 'diff' ? 'bg-slate-800 text-cyan-400 border-b-2 border-cyan-500' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-800/50'}`}>
+                             <GitCompare className="w-3 h-3 mr-1.5" /> Diff
+                          </button>
+                          <button onClick={() => setActiveTab('security')} className={`flex-1 py-2 text-[10px] font-bold uppercase tracking-wider flex items-center justify-center transition-colors ${activeTab === 'security' ? 'bg-slate-800 text-rose-400 border-b-2 border-rose-500' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-800/50'}`}>
+                             <ShieldAlert className="w-3 h-3 mr-1.5" /> Security
+                          </button>
+                          <button onClick={() => setActiveTab('seo')} className={`flex-1 py-2 text-[10px] font-bold uppercase tracking-wider flex items-center justify-center transition-colors ${activeTab === 'seo' ? 'bg-slate-800 text-amber-400 border-b-2 border-amber-500' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-800/50'}`}>
+                             <FileSearch className="w-3 h-3 mr-1.5" /> SEO
+                          </button>
+                          <button onClick={() => setActiveTab('a11y')} className={`flex-1 py-2 text-[10px] font-bold uppercase tracking-wider flex items-center justify-center transition-colors ${activeTab === 'a11y' ? 'bg-slate-800 text-teal-400 border-b-2 border-teal-500' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-800/50'}`}>
+                             <Accessibility className="w-3 h-3 mr-1.5" /> A11y
+                          </button>
                       </div>
                       
                       {/* Tab Content */}
@@ -523,6 +707,7 @@ const App: React.FC = () => {
                                          <span className="text-slate-600 shrink-0">[{log.timestamp}]</span>
                                          <span className={`${log.type === 'error' ? 'text-rose-500' : log.type === 'success' ? 'text-emerald-400' : log.type === 'warning' ? 'text-amber-400' : log.type === 'system' ? 'text-blue-400' : 'text-slate-300'}`}>
                                             {log.type === 'error' && '✖ '} {log.message}
+                                            {log.details && <span className="block text-slate-600 whitespace-pre-wrap break-all">{log.details}</span>}
                                          </span>
                                      </div>
                                  ))}
@@ -544,9 +729,81 @@ const App: React.FC = () => {
                                         </BarChart>
                                       </ResponsiveContainer>
                                   </div>
+                                  <TechInventory nodes={nodes} />
                               </div>
                           )}
 
+                          {/* SITEMAP TAB */}
+                          {activeTab === 'sitemap' && (
+                              <div className="p-4 space-y-4">
+                                  {sitemapReport ? (
+                                      <>
+                                          <div className="grid grid-cols-3 gap-2 text-center">
+                                              <div className="bg-slate-800/60 rounded p-2"><div className="text-lg font-bold text-white">{sitemapReport.sitemapUrlCount}</div><div className="text-[9px] text-slate-500 uppercase">In Sitemap</div></div>
+                                              <div className="bg-slate-800/60 rounded p-2"><div className="text-lg font-bold text-amber-400">{sitemapReport.inSitemapNotLinked.length}</div><div className="text-[9px] text-slate-500 uppercase">Never Linked</div></div>
+                                              <div className="bg-slate-800/60 rounded p-2"><div className="text-lg font-bold text-rose-400">{sitemapReport.linkedNotInSitemap.length}</div><div className="text-[9px] text-slate-500 uppercase">Not In Sitemap</div></div>
+                                          </div>
+                                          {[
+                                              { title: 'In sitemap, never linked', urls: sitemapReport.inSitemapNotLinked, color: 'text-amber-300' },
+                                              { title: 'Linked, missing from sitemap', urls: sitemapReport.linkedNotInSitemap, color: 'text-rose-300' },
+                                          ].map(section => (
+                                              <div key={section.title}>
+                                                  <h4 className="text-[10px] text-slate-500 uppercase font-bold mb-1">{section.title}</h4>
+                                                  {section.urls.length === 0 ? (
+                                                      <p className="text-[10px] text-slate-600 italic">None.</p>
+                                                  ) : (
+                                                      <ul className="space-y-0.5 font-mono text-[10px]">
+                                                          {section.urls.slice(0, 100).map(url => <li key={url} className={`truncate ${section.color}`} title={url}>{url}</li>)}
+                                                          {section.urls.length > 100 && <li className="text-slate-600">+{section.urls.length - 100} more</li>}
+                                                      </ul>
+                                                  )}
+                                              </div>
+                                          ))}
+                                      </>
+                                  ) : (
+                                      <div className="h-full flex flex-col items-center justify-center text-slate-600 space-y-2 opacity-50 mt-10">
+                                          <MapIcon size={32} />
+                                          <p className="text-xs">Sitemap reconciliation generated after crawl completion.</p>
+                                      </div>
+                                  )}
+                              </div>
+                          )}
+
+                          {/* STRUCTURE TAB */}
+                          {activeTab === 'structure' && (
+                              <StructurePanel
+                                  report={structureReport}
+                                  onSelect={url => setSelectedNode(nodes.find(n => n.url === url) ?? null)}
+                              />
+                          )}
+
+                          {/* DIFF TAB */}
+                          {activeTab === 'diff' && (
+                              <CrawlDiffPanel
+                                  baseline={baseline}
+                                  diff={crawlDiff}
+                                  sessions={sessions.filter(s => s.id !== activeSessionId)}
+                                  onBaseline={setBaseline}
+                                  onLoadSession={handleCompareSession}
+                                  onSelect={setSelectedNode}
+                              />
+                          )}
+
+                          {/* SECURITY TAB */}
+                          {activeTab === 'security' && <SecurityPanel nodes={nodes} onSelect={setSelectedNode} />}
+
+                          {/* SEO TAB */}
+                          {activeTab === 'seo' && (
+                              <SeoPanel
+                                  report={seoReport}
+                                  activeCheck={filterType === 'seo' ? seoCheck : null}
+                                  onFilter={check => { setSeoCheck(check); setFilterType(check ? 'seo' : 'all'); }}
+                              />
+                          )}
+
+                          {/* ACCESSIBILITY TAB */}
+                          {activeTab === 'a11y' && <AccessibilityPanel nodes={nodes} onSelect={setSelectedNode} />}
+
                           {/* ANALYSIS TAB */}
                           {activeTab === 'analysis' && (
                               <div className="p-4">
@@ -567,58 +824,13 @@ const App: React.FC = () => {
              </div>
 
              {/* ROW 3: Data Table (Fixed Height) */}
-             <div className="glass-panel rounded-lg flex flex-col overflow-hidden min-h-0">
-                  <div className="h-8 border-b border-slate-800 bg-slate-900/80 flex items-center justify-between px-3">
-                      <div className="flex items-center space-x-2">
-                           <List className="w-3.5 h-3.5 text-slate-400" />
-                           <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Discovered Assets</span>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                          {['all', 'pages', 'scanned', 'assets', 'broken'].map(t => (
-                              <button key={t} onClick={() => setFilterType(t)} className={`px-2 py-0.5 rounded text-[9px] font-bold uppercase ${filterType === t ? 'bg-blue-600 text-white' : 'text-slate-500 hover:bg-slate-800'}`}>
-                                  {t}
-                              </button>
-                          ))}
-                      </div>
-                  </div>
-                  
-                  <div className="flex-1 overflow-auto custom-scrollbar bg-[#020617]">
-                      <table className="w-full text-left border-collapse">
-                          <thead className="bg-slate-900 text-slate-500 text-[10px] font-bold uppercase sticky top-0 z-10 shadow-sm">
-                              <tr>
-                                  <th className="px-4 py-2">Resource</th>
-                                  <th className="px-4 py-2">Type</th>
-                                  <th className="px-4 py-2">Status</th>
-                                  <th className="px-4 py-2">Size</th>
-                                  <th className="px-4 py-2">Source</th>
-                                  <th className="px-4 py-2 text-right">Action</th>
-                              </tr>
-                          </thead>
-                          <tbody className="divide-y divide-slate-800/50">
-                              {filteredNodes.length === 0 ? (
-                                  <tr><td colSpan={6} className="px-4 py-8 text-center text-slate-600 text-xs">No records found.</td></tr>
-                              ) : (
-                                  filteredNodes.slice().reverse().slice(0, 100).map((node, i) => (
-                                      <tr key={i} className={`hover:bg-slate-800/50 transition-colors group ${selectedNode === node ? 'bg-blue-900/20' : ''}`}>
-                                          <td className="px-4 py-1.5 max-w-xs truncate text-xs text-slate-300 font-mono" title={node.url}>{node.url}</td>
-                                          <td className="px-4 py-1.5 text-[10px] text-slate-500 uppercase">{node.type}</td>
-                                          <td className="px-4 py-1.5">
-                                              <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${node.status.startsWith('2') ? 'bg-emerald-500/10 text-emerald-400' : node.status.startsWith('4') ? 'bg-rose-500/10 text-rose-400' : 'bg-slate-700 text-slate-400'}`}>
-                                                  {node.status}
-                                              </span>
-                                          </td>
-                                          <td className="px-4 py-1.5 text-[10px] text-slate-500 font-mono">{node.size}KB</td>
-                                          <td className="px-4 py-1.5 text-[10px] text-slate-500">{node.discoverySource}</td>
-                                          <td className="px-4 py-1.5 text-right">
-                                              <button onClick={() => setSelectedNode(node)} className="text-[10px] text-blue-500 hover:text-blue-400 hover:underline">Inspect</button>
-                                          </td>
-                                      </tr>
-                                  ))
-                              )}
-                          </tbody>
-                      </table>
-                  </div>
-             </div>
+             <ResultsTable
+                 nodes={filteredNodes}
+                 selectedUrl={selectedNode?.url}
+                 onInspect={setSelectedNode}
+                 filterType={filterType}
+                 onFilterType={t => { setFilterType(t); setSeoCheck(null); }}
+             />
          </div>
 
          {/* C. Modals & Overlays */}
@@ -636,8 +848,51 @@ const App: React.FC = () => {
              </div>
          )}
 
+         {showSessionsModal && (
+             <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+                 <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-2xl max-h-[80vh] overflow-hidden flex flex-col shadow-2xl">
+                     <div className="flex justify-between items-center p-4 border-b border-slate-800">
+                         <h3 className="text-sm font-bold text-white uppercase tracking-wider flex items-center"><History className="w-4 h-4 mr-2 text-blue-500" /> Session History</h3>
+                         <button onClick={() => setShowSessionsModal(false)} className="text-slate-500 hover:text-white"><X size={18} /></button>
+                     </div>
+                     <div className="overflow-y-auto custom-scrollbar">
+                         <SessionHistory
+                             sessions={sessions}
+                             activeSessionId={activeSessionId}
+                             onOpen={handleOpenSession}
+                             onRename={handleRenameSession}
+                             onDelete={handleDeleteSession}
+                         />
+                     </div>
+                 </div>
+             </div>
+         )}
+
+         {showExportModal && (
+             <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+                 <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-lg max-h-[80vh] overflow-hidden flex flex-col shadow-2xl">
+                     <div className="flex justify-between items-center p-4 border-b border-slate-800">
+                         <h3 className="text-sm font-bold text-white uppercase tracking-wider flex items-center"><Download className="w-4 h-4 mr-2 text-blue-500" /> Export Crawl</h3>
+                         <button onClick={() => setShowExportModal(false)} className="text-slate-500 hover:text-white"><X size={18} /></button>
+                     </div>
+                     <div className="overflow-y-auto custom-scrollbar">
+                         <ExportDialog
+                             data={{ config, stats, nodes, edges: engineRef.current?.edges() ?? [], logs, sitemapReport, aiAnalysis }}
+                             filteredNodes={filteredNodes}
+                             onDone={() => setShowExportModal(false)}
+                         />
+                     </div>
+                 </div>
+             </div>
+         )}
+
          {/* Inspector Slide-over */}
-         <InspectorPanel node={selectedNode} onClose={() => setSelectedNode(null)} />
+         <InspectorPanel
+             node={selectedNode}
+             linkedFrom={selectedInlinks}
+             onNavigate={url => setSelectedNode(nodes.find(n => n.url === url) ?? null)}
+             onClose={() => setSelectedNode(null)}
+         />
       </main>
     </div>
   );
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import path from 'path';
+
+const CLI = path.resolve(__dirname, 'deeplink.ts');
+
+// Runs the CLI in a child process, the way CI would, and collects its exit code and output
+const runCli = (args: string[]) =>
+  new Promise<{ code: number; stdout: string; stderr: string }>(resolve => {
+    execFile(process.execPath, ['--import', 'tsx', CLI, ...args], { timeout: 60000 }, (error, stdout, stderr) => {
+      resolve({ code: error ? (typeof error.code === 'number' ? error.code : -1) : 0, stdout, stderr });
+    });
+  });
+
+const OFFLINE = ['crawl', 'https://x.test', '--extractor', 'fixture', '--delay', '0', '--out', '-', '--quiet'];
+
+describe('deeplink crawl', () => {
+  it('writes the report to stdout and exits 0', async () => {
+    const { code, stdout, stderr } = await runCli([...OFFLINE, '--format', 'csv', '--max-pages', '3']);
+    assert.equal(code, 0, stderr);
+    assert.match(stdout, /^url,title,type,status/);
+    assert.match(stderr, /3 pages scanned/);
+  });
+
+  for (const flag of ['--concurrency', '--per-host']) {
+    it(`rejects ${flag} 0 with a usage error`, async () => {
+      const { code, stdout, stderr } = await runCli([...OFFLINE, flag, '0']);
+      assert.equal(code, 2);
+      assert.equal(stdout, '');
+      assert.match(stderr, new RegExp(`^${flag} expects a number of at least 1, got "0"`));
+    });
+  }
+
+  it('rejects an unknown format', async () => {
+    const { code, stderr } = await runCli([...OFFLINE, '--format', 'xlsx']);
+    assert.equal(code, 2);
+    assert.match(stderr, /Unknown format "xlsx"/);
+  });
+});
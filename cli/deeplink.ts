@@ -0,0 +1,238 @@
+#!/usr/bin/env -S npx tsx
+import { readFile, writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { CrawlConfig, CrawlStatus, ExtractorId, LinkNode, LogEntry, ScopeRule, ScopeStrategy } from '../types';
+import { createDirectExtractor } from '../server/directExtractor';
+import { withDefaults } from '../services/crawlConfig';
+import { CrawlEngine } from '../services/crawlEngine';
+import { SCOPE_OPTIONS, validateRule } from '../services/crawlScope';
+import { createExtractor } from '../services/extractorRegistry';
+import { buildExport, CrawlExport, EXPORT_FORMATS, ExportFormat } from '../services/exporters';
+import { createKeyRateLimiter, DEFAULT_KEY_LIMITS } from '../services/keyRateLimiter';
+import { LinkExtractor } from '../services/linkExtractor';
+
+const USAGE = `Usage: deeplink crawl <url> [options]
+
+Crawl options (same fields as the app's CrawlConfig; flags override --config):
+  --config <file>         JSON file with CrawlConfig fields
+  --max-depth <n>         link depth to follow (default 3)
+  --max-pages <n>         stop after fetching this many pages (default 100)
+  --delay <ms>            minimum gap between requests to the same host (default 2000)
+  --concurrency <n>       parallel workers (default 4)
+  --per-host <n>          parallel requests per host (default 2)
+  --extractor <id>        http | fixture | gemini (default http)
+  --scope <strategy>      ${SCOPE_OPTIONS.map(o => o.id).join(' | ')}
+  --include <pattern>     include rule, glob or /regex/; repeatable, evaluated in order with --exclude
+  --exclude <pattern>     exclude rule, glob or /regex/; repeatable
+  --strip-params <list>   comma-separated query params to drop when deduplicating URLs
+  --no-robots             ignore robots.txt
+  --no-assets             skip images, scripts and stylesheets
+  --no-sitemaps           don't seed the crawl from sitemaps
+  --allow-private         let the http extractor fetch private, loopback and link-local addresses
+  --api-key <key>         Gemini key, repeatable (or GEMINI_API_KEYS / GEMINI_API_KEY)
+
+Report options:
+  --format <format>       ${EXPORT_FORMATS.map(f => f.id).join(' | ')} (default json)
+  --out <file>            report path, "-" for stdout (default deeplink-report.<ext>)
+  --max-broken <n>        exit with status 1 when more than n nodes answer 4xx/5xx
+  --quiet                 only print the summary`;
+
+class UsageError extends Error {}
+
+interface CliOptions {
+  config: CrawlConfig;
+  format: ExportFormat;
+  out: string;
+  maxBroken: number;
+  quiet: boolean;
+  apiKeys: string[];
+  allowPrivateHosts: boolean;
+}
+
+const toNumber = (flag: string, value: string | undefined, min: number = 0): number | undefined => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < min) {
+    throw new UsageError(`--${flag} expects ${min === 0 ? 'a non-negative number' : `a number of at least ${min}`}, got "${value}"`);
+  }
+  return n;
+};
+
+type NumericFlag = 'max-depth' | 'max-pages' | 'delay' | 'concurrency' | 'per-host';
+
+// Numeric flags, their lowest accepted value and the CrawlConfig field each one sets.
+// Worker limits start at 1: with 0 the engine could never send a request.
+const NUMERIC_FLAGS: Record<NumericFlag, { min: number; set: (config: CrawlConfig, n: number) => void }> = {
+  'max-depth': { min: 0, set: (config, n) => { config.maxDepth = n; } },
+  'max-pages': { min: 0, set: (config, n) => { config.maxPages = n; } },
+  delay: { min: 0, set: (config, n) => { config.delay = n; } },
+  concurrency: { min: 1, set: (config, n) => { config.concurrency = n; } },
+  'per-host': { min: 1, set: (config, n) => { config.perHostConcurrency = n; } }
+};
+
+const toRule = (action: ScopeRule['action'], pattern: string, index: number): ScopeRule => {
+  const regex = pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/');
+  const rule: ScopeRule = { id: `cli-${index}`, action, kind: regex ? 'regex' : 'glob', pattern: regex ? pattern.slice(1, -1) : pattern };
+  const error = validateRule(rule);
+  if (error) throw new UsageError(`--${action} ${pattern}: ${error}`);
+  return rule;
+};
+
+const parseCli = async (argv: string[]): Promise<CliOptions | null> => {
+  const { values, positionals, tokens } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    tokens: true,
+    options: {
+      config: { type: 'string' },
+      'max-depth': { type: 'string' },
+      'max-pages': { type: 'string' },
+      delay: { type: 'string' },
+      concurrency: { type: 'string' },
+      'per-host': { type: 'string' },
+      extractor: { type: 'string' },
+      scope: { type: 'string' },
+      include: { type: 'string', multiple: true },
+      exclude: { type: 'string', multiple: true },
+      'strip-params': { type: 'string' },
+      'no-robots': { type: 'boolean' },
+      'no-assets': { type: 'boolean' },
+      'no-sitemaps': { type: 'boolean' },
+      'allow-private': { type: 'boolean' },
+      'api-key': { type: 'string', multiple: true },
+      format: { type: 'string' },
+      out: { type: 'string' },
+      'max-broken': { type: 'string' },
+      quiet: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) return null;
+  const [command, url] = positionals;
+  if (command !== 'crawl') throw new UsageError(command ? `Unknown command "${command}"` : 'Missing command');
+
+  const fromFile: Partial<CrawlConfig> = values.config ? JSON.parse(await readFile(values.config, 'utf8')) : {};
+  // The browser default (Gemini) needs a key pool; headless runs fetch directly unless told otherwise
+  const config = withDefaults({ extractor: 'http', ...fromFile });
+  if (url) config.url = url;
+  if (!url && !fromFile.url) throw new UsageError('Missing <url>');
+
+  for (const [flag, { min, set }] of Object.entries(NUMERIC_FLAGS) as [NumericFlag, (typeof NUMERIC_FLAGS)[NumericFlag]][]) {
+    const n = toNumber(flag, values[flag], min);
+    if (n !== undefined) set(config, n);
+  }
+  // A --config file can carry them too
+  if (!(config.concurrency >= 1) || !(config.perHostConcurrency >= 1)) {
+    throw new UsageError(`concurrency and perHostConcurrency must be at least 1, got ${config.concurrency} and ${config.perHostConcurrency}`);
+  }
+  if (values.extractor) {
+    if (!['http', 'fixture', 'gemini'].includes(values.extractor)) throw new UsageError(`Unknown extractor "${values.extractor}"`);
+    config.extractor = values.extractor as ExtractorId;
+  }
+  if (values.scope) {
+    if (!SCOPE_OPTIONS.some(o => o.id === values.scope)) throw new UsageError(`Unknown scope "${values.scope}"`);
+    config.scope = values.scope as ScopeStrategy;
+  }
+  // Rules keep the order they were given in, includes and excludes interleaved
+  const rules: ScopeRule[] = [];
+  for (const token of tokens) {
+    if (token.kind !== 'option' || (token.name !== 'include' && token.name !== 'exclude') || token.value === undefined) continue;
+    rules.push(toRule(token.name, token.value, rules.length));
+  }
+  if (rules.length > 0) config.scopeRules = rules;
+  if (values['strip-params'] !== undefined) config.trackingParams = values['strip-params'].split(',').map(p => p.trim()).filter(Boolean);
+  if (values['no-robots']) config.respectRobots = false;
+  if (values['no-assets']) config.includeAssets = false;
+  if (values['no-sitemaps']) config.discoverSitemaps = false;
+
+  const format = (values.format || 'json') as ExportFormat;
+  const formatInfo = EXPORT_FORMATS.find(f => f.id === format);
+  if (!formatInfo) throw new UsageError(`Unknown format "${values.format}"`);
+
+  const envKeys = (process.env.GEMINI_API_KEYS || process.env.GEMINI_API_KEY || '').split(/[\s,]+/).filter(Boolean);
+  const apiKeys = values['api-key']?.length ? values['api-key'] : envKeys;
+  if (config.extractor === 'gemini' && apiKeys.length === 0) throw new UsageError('The gemini extractor needs --api-key or GEMINI_API_KEYS');
+
+  return {
+    config,
+    format,
+    out: values.out || `deeplink-report.${formatInfo.extension}`,
+    maxBroken: toNumber('max-broken', values['max-broken']) ?? Infinity,
+    quiet: !!values.quiet,
+    apiKeys,
+    allowPrivateHosts: !!values['allow-private']
+  };
+};
+
+const isBroken = (node: LinkNode) => node.status.startsWith('4') || node.status.startsWith('5');
+
+// Progress worth a line on stderr; per-page chatter stays in the report's log
+const PROGRESS = /^(ROBOTS|SITEMAPS|BROKEN|FAILED|BLOCKED|REDIRECT|LONG REDIRECT|CRAWL|INITIALIZING|RECURSIVE)/;
+
+// Same engine as the browser, with the HTTP provider running in-process instead of through the proxy
+const runCrawl = ({ config, apiKeys, quiet, allowPrivateHosts }: CliOptions): Promise<CrawlExport> => {
+  const extractor: LinkExtractor = config.extractor === 'http'
+    ? createDirectExtractor({ includeAssets: config.includeAssets, allowPrivateHosts })
+    : createExtractor(config.extractor, {
+        keyPool: { getKeys: () => apiKeys, limiter: createKeyRateLimiter(DEFAULT_KEY_LIMITS) },
+        includeAssets: config.includeAssets
+      });
+  const engine = new CrawlEngine(config, extractor);
+  const logs: LogEntry[] = [];
+
+  engine.on('log', entry => {
+    logs.unshift(entry);
+    if (!quiet && (entry.type !== 'info' || PROGRESS.test(entry.message))) process.stderr.write(`${entry.message}\n`);
+  });
+  engine.on('nodeScanned', ({ node }) => {
+    if (!quiet) process.stderr.write(`[${engine.stats.scannedPages}] ${node.status} ${node.url} (${engine.stats.queuedPages} queued)\n`);
+  });
+
+  return new Promise((resolve, reject) => {
+    engine.on('finished', ({ status, nodes, sitemapReport }) => {
+      if (status === CrawlStatus.FAILED) return reject(new Error(logs.find(l => l.type === 'error')?.message ?? 'Crawl stalled'));
+      resolve({ config, stats: { ...engine.stats, totalLinks: nodes.length }, nodes, edges: engine.edges(), logs, sitemapReport, aiAnalysis: '' });
+    });
+    engine.start().then(() => {
+      // An unusable seed URL never gets going
+      if (engine.status === CrawlStatus.IDLE) reject(new UsageError(`Invalid target URL: ${config.url}`));
+    }, reject);
+  });
+};
+
+const main = async () => {
+  let options: CliOptions | null;
+  try {
+    options = await parseCli(process.argv.slice(2));
+  } catch (e: any) {
+    process.stderr.write(`${e.message}\n\n${USAGE}\n`);
+    return 2;
+  }
+  if (!options) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  const report = await runCrawl(options);
+  const content = buildExport(options.format, report);
+  if (options.out === '-') process.stdout.write(content);
+  else await writeFile(options.out, content);
+
+  const broken = report.nodes.filter(isBroken);
+  const seconds = ((Date.now() - report.stats.startTime) / 1000).toFixed(1);
+  process.stderr.write(`\n${report.stats.totalLinks} nodes, ${report.stats.scannedPages} pages scanned, ${broken.length} broken in ${seconds}s` +
+    (options.out === '-' ? '\n' : ` → ${options.out}\n`));
+
+  if (broken.length > options.maxBroken) {
+    process.stderr.write(`FAIL: ${broken.length} broken links exceed the threshold of ${options.maxBroken}\n`);
+    broken.slice(0, 20).forEach(n => process.stderr.write(`  ${n.status} ${n.url}${n.parentId ? ` (from ${n.parentId})` : ''}\n`));
+    return 1;
+  }
+  return 0;
+};
+
+main().then(code => process.exit(code), e => {
+  process.stderr.write(`${e instanceof UsageError ? '' : 'Crawl failed: '}${e.message}\n`);
+  process.exit(2);
+});
@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from 'react';
+import { Accessibility } from 'lucide-react';
+import { AccessibilityRule, LinkNode } from '../types';
+import { IMPACT_COLORS, scoreColor, summarizeAccessibility } from '../services/accessibilityAudit';
+
+interface AccessibilityPanelProps {
+  nodes: LinkNode[];
+  onSelect: (node: LinkNode) => void;
+}
+
+const MAX_PAGES = 50;
+
+const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({ nodes, onSelect }) => {
+  const summary = useMemo(() => summarizeAccessibility(nodes), [nodes]);
+  const [expanded, setExpanded] = useState<AccessibilityRule | null>(null);
+
+  if (summary.averageScore === null) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-slate-600 space-y-2 opacity-50 mt-10">
+        <Accessibility size={32} />
+        <p className="text-xs text-center">No HTML pages audited yet. Accessibility checks need a provider that fetches real pages (HTTP).</p>
+      </div>
+    );
+  }
+
+  const pageRow = (page: LinkNode) => (
+    <li key={page.url}>
+      <button onClick={() => onSelect(page)} className="w-full flex items-center justify-between text-[10px] font-mono text-left group">
+        <span className="truncate text-slate-500 group-hover:text-blue-400" title={page.url}>{page.url}</span>
+        <span className="flex-shrink-0 ml-2 font-bold" style={{ color: scoreColor(page.accessibility!.score) }}>{page.accessibility!.score}</span>
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="p-3 space-y-3">
+      <div className="grid grid-cols-2 gap-2 text-center">
+        <div className="bg-slate-800/60 rounded p-2">
+          <div className="text-lg font-bold" style={{ color: scoreColor(summary.averageScore) }}>{summary.averageScore}</div>
+          <div className="text-[9px] text-slate-500 uppercase">Average Score</div>
+        </div>
+        <div className="bg-slate-800/60 rounded p-2">
+          <div className="text-lg font-bold text-white">{summary.pagesAudited}</div>
+          <div className="text-[9px] text-slate-500 uppercase">Pages Audited</div>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-[10px] text-slate-500 uppercase font-bold mb-1">Rules</h4>
+        <ul className="space-y-1">
+          {summary.rules.map(rule => {
+            const open = expanded === rule.rule;
+            return (
+              <li key={rule.rule} className="bg-slate-900/60 rounded border border-slate-800">
+                <button
+                  onClick={() => setExpanded(open ? null : rule.rule)}
+                  disabled={rule.pages.length === 0}
+                  className="w-full flex items-center justify-between px-2 py-1.5 text-[10px] text-left disabled:cursor-default"
+                  title={`WCAG ${rule.wcag}`}
+                >
+                  <span className="flex items-center min-w-0">
+                    <span className="w-1.5 h-1.5 rounded-full mr-2 flex-shrink-0" style={{ backgroundColor: rule.pages.length > 0 ? IMPACT_COLORS[rule.impact] : '#10b981' }} />
+                    <span className="text-slate-300 truncate">{rule.label}</span>
+                    <span className="ml-1.5 text-[9px] text-slate-600 uppercase">{rule.impact}</span>
+                  </span>
+                  <span className="font-mono flex-shrink-0 ml-2 text-slate-400">
+                    {rule.pages.length > 0 ? `${rule.pages.length} page${rule.pages.length === 1 ? '' : 's'} · ${rule.occurrences}` : 'OK'}
+                  </span>
+                </button>
+                {open && (
+                  <ul className="px-2 pb-2 space-y-0.5">
+                    {rule.pages.slice(0, MAX_PAGES).map(pageRow)}
+                    {rule.pages.length > MAX_PAGES && <li className="text-[10px] text-slate-600">+{rule.pages.length - MAX_PAGES} more</li>}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      {summary.worstPages.length > 0 && (
+        <div>
+          <h4 className="text-[10px] text-slate-500 uppercase font-bold mb-1">Lowest Scores</h4>
+          <ul className="space-y-0.5">{summary.worstPages.map(pageRow)}</ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccessibilityPanel;
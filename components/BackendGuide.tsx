@@ -1,5 +1,17 @@
 import React from 'react';
 
+const proxySnippet = `
+# Started automatically with \`npm start\` (Vite plugin in server/crawlProxy.ts)
+GET /api/crawl?url=https://example.gov.bd/about&root=https://example.gov.bd&depth=1&assets=1
+
+# -> { page: { status, size, responseTime, headers, title }, links: LinkNode[] }
+#    links come from <a>, <img>, <script>, <link>, <form> and <meta> tags,
+#    each with discoverySource set from the tag that produced it.
+
+# Offline fixture site for testing without internet access:
+npm run fixture-site   # serves fixtures/site on http://localhost:4000
+`;
+
 const codeSnippet = `
 import { PlaywrightCrawler, Dataset } from 'crawlee';
 
@@ -59,8 +71,17 @@ const BackendGuide: React.FC = () => {
     <div className="mt-8 bg-slate-900 border border-slate-700 rounded-lg p-6">
       <h2 className="text-xl font-bold text-white mb-4">Backend Implementation Guide</h2>
       <p className="text-slate-400 mb-4">
-        Since actual web crawling requires server-side capabilities (to bypass CORS and manage headless browsers), 
-        here is the expert-level Node.js code you would use to build the production backend for this app.
+        Real crawling needs server-side capabilities to bypass CORS. The <span className="font-mono text-slate-300">HTTP (Live Fetch)</span> extractor
+        talks to a Node-side crawl proxy that runs alongside Vite, downloads each page and parses it into LinkNodes.
+      </p>
+      <div className="relative mb-6">
+        <pre className="bg-black p-4 rounded-md overflow-x-auto text-sm text-emerald-400 font-mono">
+          {proxySnippet}
+        </pre>
+      </div>
+      <p className="text-slate-400 mb-4">
+        The proxy does not execute JavaScript. For SPA-heavy targets, here is the expert-level Node.js code you would use
+        to build a headless-browser backend for this app.
       </p>
       <div className="relative">
         <pre className="bg-black p-4 rounded-md overflow-x-auto text-sm text-emerald-400 font-mono">
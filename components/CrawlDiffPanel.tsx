@@ -0,0 +1,112 @@
+import React, { useRef, useState } from 'react';
+import { GitCompare, Upload, X } from 'lucide-react';
+import { CrawlSessionSummary, LinkNode } from '../types';
+import { CrawlDiff, DIFF_KINDS, DiffKind } from '../services/crawlDiff';
+import { ImportedCrawl, parseCrawlImport } from '../services/crawlImport';
+
+interface CrawlDiffPanelProps {
+  baseline: ImportedCrawl | null;
+  diff: CrawlDiff | null;
+  sessions: CrawlSessionSummary[];
+  onBaseline: (baseline: ImportedCrawl | null) => void;
+  onLoadSession: (id: string) => void;
+  onSelect: (node: LinkNode) => void;
+}
+
+const MAX_ROWS = 200;
+
+const change = (before?: number | string, after?: number | string, unit = '') =>
+  before === after || (before === undefined && after === undefined) ? null : `${before ?? '–'}${unit} → ${after ?? '–'}${unit}`;
+
+const CrawlDiffPanel: React.FC<CrawlDiffPanelProps> = ({ baseline, diff, sessions, onBaseline, onLoadSession, onSelect }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [kindFilter, setKindFilter] = useState<DiffKind | null>(null);
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    try {
+      onBaseline(parseCrawlImport(await file.text(), file.name));
+      setError(null);
+    } catch (e: any) {
+      setError(`Could not import ${file.name}: ${e.message}`);
+    }
+    if (fileRef.current) fileRef.current.value = '';
+  };
+
+  const entries = diff ? diff.entries.filter(e => !kindFilter || e.kinds.includes(kindFilter)) : [];
+
+  return (
+    <div className="p-3 space-y-3">
+      <div className="flex items-center space-x-2">
+        <button onClick={() => fileRef.current?.click()} className="flex items-center px-2 py-1 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded text-[10px] text-slate-300">
+          <Upload className="w-3 h-3 mr-1" /> Import JSON / CSV
+        </button>
+        <input ref={fileRef} type="file" accept=".json,.jsonl,.csv" className="hidden" onChange={e => handleFile(e.target.files?.[0])} />
+        <select value="" onChange={e => e.target.value && onLoadSession(e.target.value)} className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-1 py-1 text-[10px] text-slate-400 outline-none">
+          <option value="">…or a saved session</option>
+          {sessions.map(s => <option key={s.id} value={s.id}>{s.name} ({s.totalLinks})</option>)}
+        </select>
+      </div>
+      {error && <p className="text-[10px] text-rose-400">{error}</p>}
+
+      {!baseline || !diff ? (
+        <div className="flex flex-col items-center justify-center text-slate-600 space-y-2 opacity-50 mt-6">
+          <GitCompare size={32} />
+          <p className="text-xs text-center">Import an earlier crawl to compare it with the current one.</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center justify-between text-[10px]">
+            <span className="text-slate-400 truncate">Baseline: <span className="text-slate-200 font-mono">{baseline.name}</span> ({baseline.nodes.length} nodes)</span>
+            <button onClick={() => onBaseline(null)} className="text-slate-500 hover:text-white" title="Clear comparison"><X size={12} /></button>
+          </div>
+
+          <div className="flex flex-wrap gap-1">
+            {DIFF_KINDS.map(kind => (
+              <button
+                key={kind.id}
+                onClick={() => setKindFilter(kindFilter === kind.id ? null : kind.id)}
+                className={`px-1.5 py-0.5 rounded border text-[9px] font-bold uppercase ${kindFilter === kind.id ? 'border-slate-400 bg-slate-800' : 'border-slate-800 hover:bg-slate-800/50'}`}
+                style={{ color: kind.color }}
+              >
+                {kind.label} {diff.counts[kind.id]}
+              </button>
+            ))}
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="text-[10px] text-slate-600 italic">No differences.</p>
+          ) : (
+            <table className="w-full text-[10px]">
+              <tbody className="divide-y divide-slate-800/60">
+                {entries.slice(0, MAX_ROWS).map(entry => (
+                  <tr key={entry.url} onClick={() => entry.after && onSelect(entry.after)} className={entry.after ? 'cursor-pointer hover:bg-slate-800/40' : ''}>
+                    <td className="py-1 pr-2 align-top">
+                      <div className="font-mono text-slate-300 truncate max-w-[220px]" title={entry.url}>{entry.url}</div>
+                      <div className="text-slate-500 font-mono">
+                        {[
+                          change(entry.before?.status, entry.after?.status),
+                          entry.kinds.includes('size') && change(entry.before?.size, entry.after?.size, 'KB'),
+                          entry.kinds.includes('slower') && change(entry.before?.responseTime, entry.after?.responseTime, 'ms')
+                        ].filter(Boolean).join(' · ')}
+                      </div>
+                    </td>
+                    <td className="py-1 text-right align-top whitespace-nowrap">
+                      {entry.kinds.map(kind => (
+                        <span key={kind} className="ml-1 text-[9px] font-bold uppercase" style={{ color: DIFF_KINDS.find(k => k.id === kind)!.color }}>{kind}</span>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {entries.length > MAX_ROWS && <p className="text-[10px] text-slate-600">+{entries.length - MAX_ROWS} more</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CrawlDiffPanel;
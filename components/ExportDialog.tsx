@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { LinkNode } from '../types';
+import { buildExport, CrawlExport, EXPORT_FORMATS, ExportFormat, isSitemapCandidate } from '../services/exporters';
+
+interface ExportDialogProps {
+  data: CrawlExport;          // the whole crawl
+  filteredNodes: LinkNode[];  // what the results table currently shows
+  onDone: () => void;
+}
+
+const saveFile = (content: string, mime: string, filename: string) => {
+  const blob = new Blob([content], { type: `${mime};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ data, filteredNodes, onDone }) => {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [onlyFiltered, setOnlyFiltered] = useState(false);
+
+  const nodes = onlyFiltered ? filteredNodes : data.nodes;
+  const selected = EXPORT_FORMATS.find(f => f.id === format)!;
+  const count = format === 'sitemap' ? nodes.filter(isSitemapCandidate).length : nodes.length;
+
+  const handleExport = () => {
+    const content = buildExport(format, { ...data, nodes });
+    const name = format === 'sitemap' ? 'sitemap' : `deep_crawl_${new Date().toISOString().slice(0, 10)}`;
+    saveFile(content, selected.mime, `${name}.${selected.extension}`);
+    onDone();
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="space-y-1">
+        {EXPORT_FORMATS.map(option => (
+          <label key={option.id} className={`flex items-start p-2 rounded border cursor-pointer transition-colors ${format === option.id ? 'bg-blue-900/20 border-blue-500/50' : 'border-transparent hover:bg-slate-800/40'}`}>
+            <input type="radio" name="export-format" checked={format === option.id} onChange={() => setFormat(option.id)} className="mt-0.5 mr-3 accent-blue-500" />
+            <div>
+              <div className="text-xs font-bold text-slate-200">{option.label}</div>
+              <div className="text-[10px] text-slate-500">{option.description}</div>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      <label className="flex items-center text-xs text-slate-400 cursor-pointer">
+        <input type="checkbox" checked={onlyFiltered} onChange={e => setOnlyFiltered(e.target.checked)} className="mr-2 accent-blue-500" />
+        Only rows matching the current table filter ({filteredNodes.length} of {data.nodes.length})
+      </label>
+
+      <div className="flex items-center justify-between pt-2 border-t border-slate-800">
+        <span className="text-[10px] text-slate-500 font-mono">{count} {format === 'sitemap' ? 'URLs' : 'nodes'}</span>
+        <button onClick={handleExport} disabled={count === 0} className="flex items-center px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-xs font-bold rounded-md transition-colors disabled:opacity-50">
+          <Download className="w-3.5 h-3.5 mr-1.5" /> Export {selected.label}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
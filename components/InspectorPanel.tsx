@@ -1,12 +1,18 @@
 import React, { useState } from 'react';
-import { LinkNode } from '../types';
-import { X, Globe, FileText, Image, Code, Server, Shield, Eye, ChevronDown, ChevronRight, Anchor, Database } from 'lucide-react';
+import { LinkEdge, LinkNode } from '../types';
+import { auditSecurity, SECURITY_SEVERITIES, SecuritySeverity } from '../services/securityAudit';
+import { ACCESSIBILITY_RULES, IMPACT_COLORS, scoreColor } from '../services/accessibilityAudit';
+import { X, Globe, FileText, Image, Code, Server, Shield, Eye, ChevronDown, ChevronRight, Anchor, Database, Accessibility, Link2 } from 'lucide-react';
 
 interface InspectorPanelProps {
   node: LinkNode | null;
+  linkedFrom: LinkEdge[]; // every link occurrence pointing at the node
+  onNavigate: (url: string) => void;
   onClose: () => void;
 }
 
+const MAX_LINKING_PAGES = 50;
+
 const CheckIcon = () => (
     <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
 );
@@ -15,7 +21,9 @@ const AlertIcon = () => (
     <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
 );
 
-const InspectorPanel: React.FC<InspectorPanelProps> = ({ node, onClose }) => {
+const severityColor = (severity: SecuritySeverity) => SECURITY_SEVERITIES.find(s => s.id === severity)!.color;
+
+const InspectorPanel: React.FC<InspectorPanelProps> = ({ node, linkedFrom, onNavigate, onClose }) => {
   const [headersOpen, setHeadersOpen] = useState(false);
 
   if (!node) return null;
@@ -37,11 +45,18 @@ const InspectorPanel: React.FC<InspectorPanelProps> = ({ node, onClose }) => {
           case 'link_tag': return { label: 'Link Tag <link>', icon: <FileText size={12} className="mr-1"/>, color: 'text-indigo-400' };
           case 'api_call': return { label: 'JavaScript API Call (fetch)', icon: <Database size={12} className="mr-1"/>, color: 'text-emerald-400' };
           case 'meta_tag': return { label: 'Metadata <meta>', icon: <Eye size={12} className="mr-1"/>, color: 'text-purple-400' };
+          case 'redirect': return { label: 'Redirect Target (Location)', icon: <ChevronRight size={12} className="mr-1"/>, color: 'text-amber-400' };
           default: return { label: 'DOM Extraction', icon: <Globe size={12} className="mr-1"/>, color: 'text-slate-400' };
       }
   };
 
   const sourceInfo = getSourceLabel(node.discoverySource);
+  // One entry per linking page, with each way it links here
+  const linkingPages = [...linkedFrom.reduce((pages, edge) => pages.set(edge.source, [...(pages.get(edge.source) || []), edge]), new Map<string, LinkEdge[]>())];
+  const headers = Object.entries(node.headers || {}).sort(([a], [b]) => a.localeCompare(b));
+  const findings = auditSecurity(node);
+  // Headers behind a failing check are highlighted in the raw list
+  const flaggedHeaders = new Set(findings.filter(f => f.header && f.severity !== 'pass' && f.severity !== 'info' && node.headers?.[f.header]).map(f => f.header!));
 
   return (
     <div className="fixed inset-y-0 right-0 w-96 bg-slate-900 border-l border-slate-700 shadow-2xl transform transition-transform duration-300 ease-in-out z-50 flex flex-col">
@@ -65,6 +80,17 @@ const InspectorPanel: React.FC<InspectorPanelProps> = ({ node, onClose }) => {
            <div className="bg-black/50 p-3 rounded border border-slate-700 break-all font-mono text-xs text-emerald-400 shadow-inner">
              {node.url}
            </div>
+           {node.canonical && node.canonical !== node.url && (
+             <div className="text-[10px] text-slate-500 mt-1 break-all">Canonical: <span className="font-mono text-slate-300">{node.canonical}</span></div>
+           )}
+           {node.aliases && node.aliases.length > 0 && (
+             <div className="mt-2">
+               <div className="text-[10px] text-slate-500 mb-1">Merged duplicates ({node.aliases.length})</div>
+               <ul className="space-y-0.5">
+                 {node.aliases.map(alias => <li key={alias} className="font-mono text-[10px] text-slate-400 break-all">{alias}</li>)}
+               </ul>
+             </div>
+           )}
         </div>
 
         {/* Discovery Vector - New Forensic Feature */}
@@ -79,6 +105,44 @@ const InspectorPanel: React.FC<InspectorPanelProps> = ({ node, onClose }) => {
             </div>
         </div>
 
+        {/* Inbound Links */}
+        <div>
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center">
+                <Link2 size={12} className="mr-1" /> Links
+            </h4>
+            <div className="grid grid-cols-3 gap-2 text-center mb-2">
+                <div className="bg-slate-800 rounded p-2"><div className="text-sm font-bold text-sky-400">{linkedFrom.length}</div><div className="text-[9px] text-slate-500 uppercase">Inlinks</div></div>
+                <div className="bg-slate-800 rounded p-2"><div className="text-sm font-bold text-sky-400">{node.outlinks ?? 0}</div><div className="text-[9px] text-slate-500 uppercase">Outlinks</div></div>
+                <div className="bg-slate-800 rounded p-2" title="Internal PageRank, relative to the strongest page (100). Scored when the crawl pauses or finishes.">
+                    <div className="text-sm font-bold text-sky-400">{node.pageRank ?? '—'}</div><div className="text-[9px] text-slate-500 uppercase">PageRank</div>
+                </div>
+            </div>
+            {linkingPages.length === 0 ? (
+                <p className="text-[10px] text-slate-600 italic">No crawled page links here.</p>
+            ) : (
+                <>
+                    <div className="text-[10px] text-slate-500 mb-1">Linked from {linkingPages.length} page{linkingPages.length === 1 ? '' : 's'}</div>
+                    <ul className="space-y-1.5">
+                        {linkingPages.slice(0, MAX_LINKING_PAGES).map(([source, edges]) => (
+                            <li key={source} className="text-xs">
+                                <button onClick={() => onNavigate(source)} className="font-mono text-[10px] text-slate-300 hover:text-sky-400 break-all text-left">{source}</button>
+                                {edges.map((edge, i) => (
+                                    <div key={i} className="ml-2 flex items-center text-[10px] text-slate-500 min-w-0">
+                                        <span className={`flex-shrink-0 ${getSourceLabel(edge.discoverySource).color}`}>{getSourceLabel(edge.discoverySource).icon}</span>
+                                        <span className="truncate" title={edge.text}>{edge.text || <span className="italic text-slate-600">no text</span>}</span>
+                                        {edge.rel.map(rel => (
+                                            <span key={rel} className={`ml-1 px-1 rounded flex-shrink-0 ${rel === 'nofollow' ? 'bg-amber-500/20 text-amber-300' : 'bg-slate-800 text-slate-400'}`}>{rel}</span>
+                                        ))}
+                                    </div>
+                                ))}
+                            </li>
+                        ))}
+                        {linkingPages.length > MAX_LINKING_PAGES && <li className="text-[10px] text-slate-600">+{linkingPages.length - MAX_LINKING_PAGES} more</li>}
+                    </ul>
+                </>
+            )}
+        </div>
+
         {/* Status Grid */}
         <div className="grid grid-cols-2 gap-3">
            <div className="bg-slate-800 p-3 rounded border border-slate-700">
@@ -107,6 +171,69 @@ const InspectorPanel: React.FC<InspectorPanelProps> = ({ node, onClose }) => {
            </div>
         </div>
 
+        {node.errorReason && (
+          <div className={`p-3 rounded border text-xs ${node.status === 'blocked' ? 'bg-violet-500/10 border-violet-500/30 text-violet-300' : 'bg-rose-500/10 border-rose-500/30 text-rose-300'}`}>
+            {node.errorReason}
+          </div>
+        )}
+
+        {/* Redirect Chain */}
+        {node.redirectChain && node.redirectChain.length > 1 && (
+          <div>
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center justify-between">
+              <span>Redirect Chain</span>
+              {node.redirectIssue && (
+                <span className="px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-300 text-[10px] normal-case tracking-normal">
+                  {node.redirectIssue === 'loop' ? 'Redirect loop' : 'Long chain'}
+                </span>
+              )}
+            </h4>
+            <ol className="space-y-1">
+              {node.redirectChain.map((hop, i) => (
+                <li key={i} className="flex items-start text-xs">
+                  <span className={`w-9 flex-shrink-0 font-mono font-bold ${hop.status === 0 || (hop.status >= 300 && hop.status < 400) ? 'text-amber-400' : hop.status < 300 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                    {hop.status === 0 ? '↺' : hop.status}
+                  </span>
+                  <span className="font-mono text-[10px] text-slate-300 break-all">{hop.url}</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {node.outOfScope && (
+          <div className="p-3 rounded border text-xs bg-slate-800/50 border-slate-700 text-slate-400">
+            Out of scope, not crawled: {node.outOfScope}
+          </div>
+        )}
+
+        {/* Accessibility */}
+        {node.accessibility && (
+          <div>
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center justify-between">
+              <span className="flex items-center"><Accessibility size={12} className="mr-1" /> Accessibility</span>
+              <span className="text-sm normal-case tracking-normal" style={{ color: scoreColor(node.accessibility.score) }}>{node.accessibility.score}/100</span>
+            </h4>
+            {node.accessibility.issues.length === 0 ? (
+              <div className="flex items-center text-emerald-400 text-xs"><CheckIcon /> <span className="ml-2">All markup checks passed</span></div>
+            ) : (
+              <ul className="space-y-1.5">
+                {node.accessibility.issues.map((issue, i) => (
+                  <li key={i} className="text-xs">
+                    <div className="flex items-center">
+                      <span className="w-1.5 h-1.5 rounded-full mr-2 flex-shrink-0" style={{ backgroundColor: IMPACT_COLORS[issue.impact] }} />
+                      <span className="text-slate-300">{ACCESSIBILITY_RULES.find(r => r.id === issue.rule)?.label}</span>
+                      {issue.detail && <span className="ml-1 text-slate-500 truncate">{issue.detail}</span>}
+                    </div>
+                    <div className="ml-3.5 font-mono text-[10px] text-slate-500 break-all">{issue.element}</div>
+                  </li>
+                ))}
+                {node.accessibility.truncated && <li className="text-[10px] text-slate-600">Further occurrences omitted.</li>}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Detected Tech */}
         {node.detectedTech && node.detectedTech.length > 0 && (
           <div>
@@ -121,36 +248,35 @@ const InspectorPanel: React.FC<InspectorPanelProps> = ({ node, onClose }) => {
           </div>
         )}
 
-        {/* Headers Simulation */}
+        {/* Response Headers */}
         <div>
             <button 
                 onClick={() => setHeadersOpen(!headersOpen)} 
                 className="w-full flex items-center justify-between group outline-none"
             >
                 <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center group-hover:text-slate-300 transition-colors">
-                    <Server size={12} className="mr-1" /> Response Headers
+                    <Server size={12} className="mr-1" /> Response Headers {headers.length > 0 && <span className="ml-1 text-slate-600">({headers.length})</span>}
                 </h4>
                 {headersOpen ? <ChevronDown size={14} className="text-slate-500" /> : <ChevronRight size={14} className="text-slate-500" />}
             </button>
             
             {headersOpen && (
                 <div className="mt-2 bg-slate-950/50 rounded-md border border-slate-800 p-3 font-mono text-[10px] leading-relaxed animate-in fade-in slide-in-from-top-1 duration-200">
-                    <div className="grid grid-cols-[min-content_1fr] gap-x-3 gap-y-1">
-                        <span className="text-slate-500 text-right whitespace-nowrap">server:</span>
-                        <span className="text-emerald-400/90">nginx/1.18.0</span>
-
-                        <span className="text-slate-500 text-right whitespace-nowrap">content-type:</span>
-                        <span className="text-blue-300/90 break-all">{node.contentType}</span>
-
-                        <span className="text-slate-500 text-right whitespace-nowrap">cache-control:</span>
-                        <span className="text-slate-300/90">max-age=3600</span>
-
-                        <span className="text-rose-500/80 text-right whitespace-nowrap">x-powered-by:</span>
-                        <span className="text-rose-400/90 font-semibold">PHP/7.4 (Risk)</span>
-                        
-                        <span className="text-slate-500 text-right whitespace-nowrap">connection:</span>
-                        <span className="text-slate-300/90">keep-alive</span>
-                    </div>
+                    {headers.length === 0 ? (
+                        <span className="text-slate-600 italic">No headers recorded by this provider.</span>
+                    ) : (
+                        <div className="grid grid-cols-[min-content_1fr] gap-x-3 gap-y-1">
+                            {headers.map(([name, value]) => {
+                                const flagged = flaggedHeaders.has(name);
+                                return (
+                                    <React.Fragment key={name}>
+                                        <span className={`text-right whitespace-nowrap ${flagged ? 'text-rose-500/80' : 'text-slate-500'}`}>{name}:</span>
+                                        <span className={`break-all whitespace-pre-wrap ${flagged ? 'text-rose-400/90 font-semibold' : 'text-slate-300/90'}`}>{value}</span>
+                                    </React.Fragment>
+                                );
+                            })}
+                        </div>
+                    )}
                 </div>
             )}
         </div>
@@ -160,20 +286,23 @@ const InspectorPanel: React.FC<InspectorPanelProps> = ({ node, onClose }) => {
             <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center">
                 <Shield size={12} className="mr-1" /> Security Audit
             </h4>
-            <div className="space-y-2">
-                {node.url.startsWith('https') ? (
-                    <div className="flex items-center text-emerald-400 text-xs">
-                        <CheckIcon /> <span className="ml-2">SSL/TLS Encrypted (Valid)</span>
-                    </div>
-                ) : (
-                    <div className="flex items-center text-rose-400 text-xs">
-                        <AlertIcon /> <span className="ml-2">Insecure Protocol (HTTP)</span>
-                    </div>
-                )}
-                <div className="flex items-center text-amber-400 text-xs">
-                    <AlertIcon /> <span className="ml-2">Missing Content-Security-Policy</span>
+            {findings.length === 0 ? (
+                <p className="text-[10px] text-slate-600 italic">Needs response headers; crawl with the HTTP provider to audit this node.</p>
+            ) : (
+                <div className="space-y-1.5">
+                    {findings.map((finding, i) => (
+                        <div key={i} className="flex items-start text-xs" title={finding.detail}>
+                            <span className="mt-0.5 flex-shrink-0" style={{ color: severityColor(finding.severity) }}>
+                                {finding.severity === 'pass' ? <CheckIcon /> : <AlertIcon />}
+                            </span>
+                            <span className="ml-2 text-slate-300 break-words min-w-0">{finding.message}</span>
+                            {finding.severity !== 'pass' && (
+                                <span className="ml-auto pl-2 text-[9px] uppercase font-bold flex-shrink-0" style={{ color: severityColor(finding.severity) }}>{finding.severity}</span>
+                            )}
+                        </div>
+                    ))}
                 </div>
-            </div>
+            )}
          </div>
 
       </div>
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { KeyLimits, KeyState, keyState, KeyUsage } from '../services/keyRateLimiter';
+
+interface KeyPoolPanelProps {
+  keys: string[];
+  usage: KeyUsage[];
+  limits: KeyLimits;
+  onLimitsChange: (limits: KeyLimits) => void;
+}
+
+const STATE_STYLES: Record<KeyState, { dot: string; text: string; label: string }> = {
+  ready: { dot: 'bg-emerald-500', text: 'text-emerald-400', label: 'ready' },
+  throttled: { dot: 'bg-blue-500', text: 'text-blue-400', label: 'pacing' },
+  cooldown: { dot: 'bg-amber-500', text: 'text-amber-400', label: 'cooldown' },
+  exhausted: { dot: 'bg-rose-500', text: 'text-rose-400', label: 'daily limit' }
+};
+
+const maskKey = (key: string) => `••••${key.slice(-4)}`;
+
+const KeyPoolPanel: React.FC<KeyPoolPanelProps> = ({ keys, usage, limits, onLimitsChange }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick while any key is cooling down so the countdown stays live
+  const cooling = usage.some(u => u.cooldownUntil > now);
+  useEffect(() => {
+    if (!cooling) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [cooling]);
+  useEffect(() => setNow(Date.now()), [usage]);
+
+  return (
+    <div className="space-y-1.5 border-t border-emerald-500/10 pt-1 mt-1">
+      {keys.map((key, i) => {
+        const u = usage[i];
+        const state = u ? keyState(u, limits, now) : 'ready';
+        const style = STATE_STYLES[state];
+        return (
+          <div key={i} className="text-[10px] font-mono">
+            <div className="flex items-center justify-between">
+              <span className="flex items-center text-slate-300">
+                <span className={`w-1.5 h-1.5 rounded-full mr-1.5 ${style.dot}`}></span>
+                #{i + 1} <span className="text-slate-600 ml-1">{maskKey(key)}</span>
+              </span>
+              <span className={style.text}>
+                {state === 'cooldown' && u ? `${Math.ceil((u.cooldownUntil - now) / 1000)}s` : style.label}
+              </span>
+            </div>
+            <div className="flex justify-between text-[9px] text-slate-500 pl-3">
+              <span>{u?.requestsToday ?? 0}/{limits.rpd} today</span>
+              <span>{u?.requests ?? 0} total</span>
+              <span className={u && u.rateLimited > 0 ? 'text-amber-500' : ''}>429×{u?.rateLimited ?? 0}</span>
+            </div>
+          </div>
+        );
+      })}
+      <div className="flex items-center space-x-2 pt-1 text-[9px] text-slate-500 uppercase tracking-wide">
+        <label className="flex items-center">
+          RPM
+          <input type="number" min={1} value={limits.rpm} onChange={(e) => onLimitsChange({ ...limits, rpm: Math.max(1, parseInt(e.target.value) || 1) })} className="ml-1 w-12 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-white outline-none" />
+        </label>
+        <label className="flex items-center">
+          RPD
+          <input type="number" min={1} value={limits.rpd} onChange={(e) => onLimitsChange({ ...limits, rpd: Math.max(1, parseInt(e.target.value) || 1) })} className="ml-1 w-16 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-white outline-none" />
+        </label>
+        <span className="normal-case">per key</span>
+      </div>
+    </div>
+  );
+};
+
+export default KeyPoolPanel;
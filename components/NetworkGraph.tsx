@@ -1,143 +1,561 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { LinkNode } from '../types';
+import { LinkEdge, LinkNode } from '../types';
+import { DIFF_KINDS, DiffKind } from '../services/crawlDiff';
+import {
+  DirectoryGroup, GRAPH_COLOR_BY, GRAPH_LAYOUTS, GraphColorBy, GraphLayout, Point,
+  collapseTree, directoryAncestors, graphPalette, layoutDirectories, layoutTree
+} from '../services/graphLayout';
+import type { LayoutNodeInput, LayoutRequest, LayoutResponse } from './forceLayout.worker';
 
 interface NetworkGraphProps {
   data: LinkNode[];
   onNodeSelect: (node: LinkNode) => void;
+  highlights?: Map<string, DiffKind>; // URLs changed since a baseline crawl, drawn with a coloured ring
+  linksTo?: (url: string) => LinkEdge[]; // every inbound link; the tree only shows the first discoverer
+  selectedUrl?: string;
   width?: number;
   height?: number;
 }
 
-const NetworkGraph: React.FC<NetworkGraphProps> = ({ data, onNodeSelect, width = 600, height = 400 }) => {
-  const svgRef = useRef<SVGSVGElement>(null);
+// Where a node is drawn; survives data updates so the layout never jumps
+interface GraphNode {
+  url: string;
+  node: LinkNode;
+  x: number;
+  y: number;
+  simX: number; // last force-layout position, kept while another layout is shown
+  simY: number;
+  dragging?: boolean; // positions from the layout worker lag behind the pointer, so they're ignored meanwhile
+}
 
-  useEffect(() => {
-    if (!data || data.length === 0 || !svgRef.current) return;
-
-    const svg = d3.select(svgRef.current);
-    svg.selectAll("*").remove();
-
-    // Transform data
-    const nodes = data.map(d => ({ id: d.url, ...d }));
-    const links: { source: string; target: string }[] = [];
-    
-    // Create links
-    data.forEach(node => {
-      if (node.parentId && data.find(d => d.url === node.parentId)) {
-        links.push({ source: node.parentId, target: node.url });
-      }
+interface GraphLink {
+  source: GraphNode;
+  target: GraphNode;
+}
+
+// Recomputing a tree or directory layout takes a while at 10k nodes; during a crawl it runs at most this often
+const STATIC_LAYOUT_INTERVAL_MS = 1000;
+
+const nodeRadius = (d: LinkNode) => {
+  if (d.depth === 0) return 12; // Root
+  if (d.type === 'resource') return 4; // Tiny assets
+  return 6; // Standard pages
+};
+
+const HINTS: Record<GraphLayout, string> = {
+  force: 'Scroll to zoom • Drag to arrange • Click to inspect • Double-click to fold',
+  tree: 'Scroll to zoom • Click to inspect • Double-click to fold',
+  radial: 'Scroll to zoom • Click to inspect • Double-click to fold',
+  directory: 'Scroll to zoom • Click a page to inspect • Click a directory to fold'
+};
+
+/**
+ * Map of the crawl, drawn on a canvas so it stays interactive at 10k+ nodes.
+ * The force layout runs in a worker for as long as the component lives: new pages join it next to
+ * their parent and everything already placed keeps its position. Tree, radial and directory layouts
+ * are computed here from the discovery tree or the URL paths. Clicks and hovers are hit-tested
+ * against a quadtree of the drawn positions.
+ */
+const NetworkGraph: React.FC<NetworkGraphProps> = ({ data, onNodeSelect, highlights, linksTo, selectedUrl, width = 600, height = 400 }) => {
+  const [layout, setLayout] = useState<GraphLayout>('force');
+  const [colorBy, setColorBy] = useState<GraphColorBy>('status');
+  // Page URLs fold their discovery subtree, directory keys fold the directory
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const palette = useMemo(() => graphPalette(data, colorBy), [data, colorBy]);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const graphNodes = useRef(new Map<string, GraphNode>());
+  const graphLinks = useRef<GraphLink[]>([]);
+  const groups = useRef<DirectoryGroup[]>([]);
+  const hidden = useRef(new Set<string>()); // folded away in the current layout
+  const hiddenBelow = useRef(new Map<string, number>()); // folded pages -> how many they hide
+  const simulated = useRef(new Set<string>()); // URLs the worker currently lays out
+  const layoutOrder = useRef<(GraphNode | undefined)[]>([]); // worker's node order, for reading its position buffers
+  const quadtreeRef = useRef<any>(null); // built on the first hit-test after the positions change
+  const transformRef = useRef<any>(d3.zoomIdentity);
+  const zoomRef = useRef<any>(null);
+  const pinRef = useRef<{ url: string; x: number; y: number } | null>(null); // screen point the selection keeps across a layout switch
+  const fitRef = useRef(false); // frame everything after a layout switch with nothing selected
+  const arrangeTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const drawRef = useRef<() => void>(() => {});
+
+  // Long-lived canvas handlers read the latest props and state through this
+  const propsRef = useRef({ data, onNodeSelect, highlights, linksTo, selectedUrl, layout, collapsed, palette });
+  propsRef.current = { data, onNodeSelect, highlights, linksTo, selectedUrl, layout, collapsed, palette };
+
+  // Coalesces ticks, zooms and prop changes into one paint per frame
+  const requestDraw = () => {
+    if (frameRef.current !== null) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      drawRef.current();
     });
+  };
 
-    // Force Simulation
-    const simulation = d3.forceSimulation(nodes as any)
-      .force("link", d3.forceLink(links).id((d: any) => d.id).distance((d: any) => {
-         // Resources stick closer to parents
-         return d.target.type === 'resource' ? 30 : 80;
-      }))
-      .force("charge", d3.forceManyBody().strength(-120))
-      .force("center", d3.forceCenter(width / 2, height / 2))
-      .force("collide", d3.forceCollide(8));
-
-    // Zoom behavior
-    const zoom = d3.zoom()
-        .scaleExtent([0.1, 4])
-        .on("zoom", (event) => {
-            container.attr("transform", event.transform);
-        });
-
-    svg.call(zoom as any);
-    const container = svg.append("g");
-
-    // Links
-    const link = container.append("g")
-      .attr("stroke", "#475569")
-      .attr("stroke-opacity", 0.4)
-      .selectAll("line")
-      .data(links)
-      .join("line")
-      .attr("stroke-width", 1);
-
-    // Nodes
-    const node = container.append("g")
-      .attr("stroke", "#0f172a") // Dark border for nodes
-      .attr("stroke-width", 1.5)
-      .selectAll("circle")
-      .data(nodes)
-      .join("circle")
-      .attr("r", (d: any) => {
-          if (d.depth === 0) return 12; // Root
-          if (d.type === 'resource') return 4; // Tiny assets
-          return 6; // Standard pages
-      })
-      .attr("fill", (d: any) => {
-        if (d.status.startsWith('4') || d.status.startsWith('5')) return '#ef4444'; // Error (Red)
-        if (d.status.startsWith('3')) return '#f59e0b'; // Redirect (Amber)
-        if (d.type === 'resource') {
-            if (d.contentType?.includes('image')) return '#ec4899'; // Images (Pink)
-            if (d.contentType?.includes('javascript')) return '#eab308'; // JS (Yellow)
-            if (d.contentType?.includes('css')) return '#6366f1'; // CSS (Indigo)
-            return '#64748b'; // Other resources
+  drawRef.current = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    const dpr = window.devicePixelRatio || 1;
+    const transform = transformRef.current;
+    const { highlights, linksTo, selectedUrl, palette } = propsRef.current;
+
+    context.save();
+    context.setTransform(dpr, 0, 0, dpr, 0, 0);
+    context.clearRect(0, 0, width, height);
+    context.translate(transform.x, transform.y);
+    context.scale(transform.k, transform.k);
+
+    // Visible area in graph coordinates, with a margin for radii; everything outside is skipped
+    const [minX, minY] = transform.invert([-20, -20]);
+    const [maxX, maxY] = transform.invert([width + 20, height + 20]);
+    const visible = (n: GraphNode) => n.x >= minX && n.x <= maxX && n.y >= minY && n.y <= maxY && !hidden.current.has(n.url);
+    // Text keeps the same size on screen at any zoom
+    const label = (text: string, x: number, y: number, size: number) => {
+      context.font = `${size / transform.k}px ui-monospace, monospace`;
+      context.fillText(text, x, y);
+    };
+
+    // Directory circles, outer ones first so nested directories darken on top
+    context.textAlign = 'center';
+    context.lineWidth = 1 / transform.k;
+    for (const group of groups.current) {
+      if (group.x + group.r < minX || group.x - group.r > maxX || group.y + group.r < minY || group.y - group.r > maxY) continue;
+      context.beginPath();
+      context.arc(group.x, group.y, group.r, 0, 2 * Math.PI);
+      context.fillStyle = group.collapsed ? '#1e293b' : 'rgba(30, 41, 59, 0.3)';
+      context.fill();
+      context.strokeStyle = group.collapsed ? '#64748b' : 'rgba(100, 116, 139, 0.5)';
+      context.stroke();
+      if (group.r * transform.k < 24) continue; // too small to label
+      context.fillStyle = '#94a3b8';
+      if (group.collapsed) {
+        label(group.label, group.x, group.y, 10);
+        label(`${group.pages} pages`, group.x, group.y + 12 / transform.k, 9);
+      } else {
+        label(group.label, group.x, group.y - group.r + 12 / transform.k, 10);
+      }
+    }
+
+    context.beginPath();
+    for (const { source, target } of graphLinks.current) {
+      if (!visible(source) && !visible(target)) continue;
+      context.moveTo(source.x, source.y);
+      context.lineTo(target.x, target.y);
+    }
+    context.strokeStyle = 'rgba(71, 85, 105, 0.4)';
+    context.lineWidth = 1 / transform.k;
+    context.stroke();
+
+    // Every page linking to the selected node, drawn over the discovery tree
+    const selected = selectedUrl && !hidden.current.has(selectedUrl) ? graphNodes.current.get(selectedUrl) : undefined;
+    if (selected && linksTo) {
+      context.beginPath();
+      for (const edge of linksTo(selected.url)) {
+        const source = graphNodes.current.get(edge.source);
+        if (!source || hidden.current.has(source.url)) continue;
+        context.moveTo(source.x, source.y);
+        context.lineTo(selected.x, selected.y);
+      }
+      context.strokeStyle = 'rgba(56, 189, 248, 0.7)';
+      context.lineWidth = 1.5 / transform.k;
+      context.stroke();
+    }
+
+    // One path per fill colour: a few fill calls instead of one per node
+    const byColor = new Map<string, GraphNode[]>();
+    for (const n of graphNodes.current.values()) {
+      if (!visible(n)) continue;
+      const color = palette.color(n.node);
+      if (!byColor.has(color)) byColor.set(color, []);
+      byColor.get(color)!.push(n);
+    }
+    context.strokeStyle = '#0f172a';
+    context.lineWidth = 1.5;
+    for (const [color, group] of byColor) {
+      context.beginPath();
+      for (const n of group) {
+        const r = nodeRadius(n.node);
+        context.moveTo(n.x + r, n.y);
+        context.arc(n.x, n.y, r, 0, 2 * Math.PI);
+      }
+      context.fillStyle = color;
+      context.fill();
+      if (transform.k > 0.4) context.stroke(); // Borders are sub-pixel when zoomed out
+    }
+
+    // Folded subtrees show how much they hide
+    if (transform.k > 0.3) {
+      context.textAlign = 'left';
+      context.fillStyle = '#94a3b8';
+      for (const [url, count] of hiddenBelow.current) {
+        const n = graphNodes.current.get(url);
+        if (n && visible(n)) label(`+${count}`, n.x + nodeRadius(n.node) + 3 / transform.k, n.y + 3 / transform.k, 10);
+      }
+    }
+
+    // Diff highlights replace the dark border with the change colour
+    if (highlights) {
+      context.lineWidth = 3;
+      for (const kind of DIFF_KINDS) {
+        context.beginPath();
+        for (const [url, k] of highlights) {
+          const n = graphNodes.current.get(url);
+          if (k !== kind.id || !n || !visible(n)) continue;
+          const r = nodeRadius(n.node);
+          context.moveTo(n.x + r, n.y);
+          context.arc(n.x, n.y, r, 0, 2 * Math.PI);
         }
-        if (d.depth === 0) return '#3b82f6'; // Root (Blue)
-        return '#10b981'; // Valid Page (Emerald)
-      })
-      .attr("cursor", "pointer")
-      .on("click", (event, d: any) => {
-          event.stopPropagation();
-          onNodeSelect(d);
-          
-          // Highlight effect
-          node.attr("stroke", "#0f172a").attr("stroke-width", 1.5);
-          d3.select(event.currentTarget).attr("stroke", "#fff").attr("stroke-width", 3);
-      })
-      .call((d3.drag() as any)
-        .on("start", dragstarted)
-        .on("drag", dragged)
-        .on("end", dragended));
-
-    // Tooltips
-    node.append("title")
-      .text((d: any) => `${d.url}\n[${d.contentType}]\nStatus: ${d.status}`);
-
-    simulation.on("tick", () => {
-      link
-        .attr("x1", (d: any) => d.source.x)
-        .attr("y1", (d: any) => d.source.y)
-        .attr("x2", (d: any) => d.target.x)
-        .attr("y2", (d: any) => d.target.y);
-
-      node
-        .attr("cx", (d: any) => d.x)
-        .attr("cy", (d: any) => d.y);
-    });
+        context.strokeStyle = kind.color;
+        context.stroke();
+      }
+    }
+
+    if (selected) {
+      context.beginPath();
+      context.arc(selected.x, selected.y, nodeRadius(selected.node), 0, 2 * Math.PI);
+      context.strokeStyle = '#fff';
+      context.lineWidth = 3;
+      context.stroke();
+    }
+    context.restore();
+  };
+
+  const post = (request: LayoutRequest) => workerRef.current?.postMessage(request);
+
+  const layoutInput = (n: GraphNode): LayoutNodeInput => ({
+    url: n.url, parentId: n.node.parentId, resource: n.node.type === 'resource', x: n.simX, y: n.simY
+  });
 
-    function dragstarted(event: any) {
-      if (!event.active) simulation.alphaTarget(0.3).restart();
-      event.subject.fx = event.subject.x;
-      event.subject.fy = event.subject.y;
+  // Node under a pointer position given in canvas pixels
+  const hitTest = (px: number, py: number): GraphNode | undefined => {
+    const transform = transformRef.current;
+    const [x, y] = transform.invert([px, py]);
+    if (!quadtreeRef.current) {
+      const shown = [...graphNodes.current.values()].filter(n => !hidden.current.has(n.url));
+      quadtreeRef.current = d3.quadtree(shown, (d: GraphNode) => d.x, (d: GraphNode) => d.y);
     }
+    return quadtreeRef.current.find(x, y, Math.max(12, 6 / transform.k)); // at least 6px on screen
+  };
 
-    function dragged(event: any) {
-      event.subject.fx = event.x;
-      event.subject.fy = event.y;
+  // Innermost directory under a pointer position; nested circles come after the ones around them
+  const groupAt = (px: number, py: number): DirectoryGroup | undefined => {
+    const [x, y] = transformRef.current.invert([px, py]);
+    return groups.current.filter(g => (g.x - x) ** 2 + (g.y - y) ** 2 <= g.r ** 2).pop();
+  };
+
+  const toggleCollapsed = (key: string) => setCollapsed(prev => {
+    const next = new Set(prev);
+    if (!next.delete(key)) next.add(key);
+    return next;
+  });
+
+  const applyTransform = (transform: any) => {
+    if (canvasRef.current && zoomRef.current) d3.select(canvasRef.current).call(zoomRef.current.transform, transform);
+  };
+
+  // Frames every visible node and directory
+  const fitToView = () => {
+    const points: (Point & { r: number })[] = [...groups.current];
+    graphNodes.current.forEach(n => { if (!hidden.current.has(n.url)) points.push({ x: n.x, y: n.y, r: nodeRadius(n.node) }); });
+    if (points.length === 0) return applyTransform(d3.zoomIdentity);
+    const [x0, x1] = [d3.min(points, (p: any) => p.x - p.r), d3.max(points, (p: any) => p.x + p.r)];
+    const [y0, y1] = [d3.min(points, (p: any) => p.y - p.r), d3.max(points, (p: any) => p.y + p.r)];
+    const k = Math.max(0.01, Math.min(2, 0.9 * Math.min(width / (x1 - x0 || 1), height / (y1 - y0 || 1))));
+    applyTransform(d3.zoomIdentity.translate(width / 2, height / 2).scale(k).translate(-(x0 + x1) / 2, -(y0 + y1) / 2));
+  };
+
+  // Places every node for the current layout and folds, and tells the worker what it should simulate
+  const arrange = () => {
+    if (arrangeTimer.current !== null) clearTimeout(arrangeTimer.current);
+    arrangeTimer.current = null;
+    const { data, layout, collapsed } = propsRef.current;
+    const current = graphNodes.current;
+
+    const urls = new Set(data.map(d => d.url));
+    [...current.keys()].forEach(url => { if (!urls.has(url)) current.delete(url); });
+    for (const d of data) {
+      const existing = current.get(d.url);
+      if (existing) {
+        existing.node = d;
+        continue;
+      }
+      // New pages start beside whoever linked them, so they drift in rather than fly across the screen
+      const parent = d.parentId ? current.get(d.parentId) : undefined;
+      const jitter = () => (Math.random() - 0.5) * 40;
+      const x = parent ? parent.simX + jitter() : width / 2 + jitter() * 4;
+      const y = parent ? parent.simY + jitter() : height / 2 + jitter() * 4;
+      current.set(d.url, { url: d.url, node: d, x, y, simX: x, simY: y });
+    }
+
+    // Folded subtrees leave the force simulation too, so what stays on screen spreads out
+    const tree = collapseTree(data, collapsed);
+    const wanted = data.filter(d => !tree.hidden.has(d.url)).map(d => d.url);
+    const added = wanted.filter(url => !simulated.current.has(url));
+    const removed = [...simulated.current].filter(url => !urls.has(url) || tree.hidden.has(url));
+    if (added.length > 0 || removed.length > 0) {
+      simulated.current = new Set(wanted);
+      post({ type: 'sync', added: added.map(url => layoutInput(current.get(url)!)), removed });
+    }
+
+    groups.current = [];
+    hiddenBelow.current = tree.hiddenBelow;
+    let positions: Map<string, Point> | null = null;
+    let links: [string, string][] = [];
+    if (layout === 'force') {
+      hidden.current = tree.hidden;
+      current.forEach(n => {
+        n.x = n.simX;
+        n.y = n.simY;
+        const parent = n.node.parentId ? current.get(n.node.parentId) : undefined;
+        if (parent && !hidden.current.has(n.url)) links.push([parent.url, n.url]);
+      });
+    } else if (layout === 'directory') {
+      const result = layoutDirectories(data, collapsed, nodeRadius);
+      positions = result.positions;
+      groups.current = result.groups;
+      hiddenBelow.current = new Map(); // directories count their own pages
+    } else {
+      const result = layoutTree(data, tree.hidden, layout === 'radial');
+      positions = result.positions;
+      links = result.links;
+    }
+    if (positions) {
+      hidden.current = new Set(data.filter(d => !positions!.has(d.url)).map(d => d.url));
+      positions.forEach((p, url) => {
+        const n = current.get(url)!;
+        n.x = p.x;
+        n.y = p.y;
+      });
     }
+    graphLinks.current = links.map(([source, target]) => ({ source: current.get(source)!, target: current.get(target)! }));
+    quadtreeRef.current = null;
 
-    function dragended(event: any) {
-      if (!event.active) simulation.alphaTarget(0);
-      event.subject.fx = null;
-      event.subject.fy = null;
+    // A layout switch keeps the selection where it was on screen
+    const pin = pinRef.current;
+    const pinned = pin ? current.get(pin.url) : undefined;
+    pinRef.current = null;
+    if (pin && pinned && !hidden.current.has(pinned.url)) {
+      const k = transformRef.current.k;
+      applyTransform(d3.zoomIdentity.translate(pin.x - pinned.x * k, pin.y - pinned.y * k).scale(k));
+    } else if (fitRef.current || pin) {
+      fitToView();
     }
+    fitRef.current = false;
+    requestDraw();
+  };
+
+  const switchLayout = (next: GraphLayout) => {
+    if (next === layout) return;
+    const selected = selectedUrl ? graphNodes.current.get(selectedUrl) : undefined;
+    if (selected) {
+      const shown = !hidden.current.has(selected.url);
+      const [x, y] = shown ? transformRef.current.apply([selected.x, selected.y]) : [width / 2, height / 2];
+      pinRef.current = { url: selected.url, x, y };
+      // Unfold whatever would hide the selection: its discovery ancestors and its directories
+      const ancestors = new Set(directoryAncestors(selected.url));
+      for (let url = selected.node.parentId; url && !ancestors.has(url); url = graphNodes.current.get(url)?.node.parentId) ancestors.add(url);
+      setCollapsed(prev => [...ancestors].some(key => prev.has(key)) ? new Set([...prev].filter(key => !ancestors.has(key))) : prev);
+    } else {
+      fitRef.current = true;
+    }
+    setLayout(next);
+  };
+
+  // Layout worker, zoom, drag and pointer handlers are set up once
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const worker = new Worker(new URL('./forceLayout.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    worker.onmessage = (event: MessageEvent<LayoutResponse>) => {
+      const { order, positions } = event.data;
+      if (order) layoutOrder.current = order.map(url => graphNodes.current.get(url));
+      const showing = propsRef.current.layout === 'force';
+      layoutOrder.current.forEach((n, i) => {
+        if (!n || n.dragging) return;
+        n.simX = positions[i * 2];
+        n.simY = positions[i * 2 + 1];
+        if (showing) {
+          n.x = n.simX;
+          n.y = n.simY;
+        }
+      });
+      if (!showing) return;
+      quadtreeRef.current = null;
+      requestDraw();
+    };
+    post({ type: 'center', width, height });
+    post({ type: 'run', running: propsRef.current.layout === 'force' });
+    // Remounted (StrictMode, hot reload): the new worker picks up where the old one left off
+    simulated.current = new Set();
+    arrange();
+
+    const selection = d3.select(canvas);
+
+    const drag = d3.drag()
+      .container(() => canvas)
+      .subject((event: any) => {
+        if (propsRef.current.layout !== 'force') return undefined; // the other layouts place every node themselves
+        const hit = hitTest(event.x, event.y);
+        if (!hit) return undefined;
+        const transform = transformRef.current;
+        return { node: hit, x: transform.applyX(hit.x), y: transform.applyY(hit.y) };
+      })
+      .on("start", (event: any) => {
+        event.subject.node.dragging = true;
+      })
+      .on("drag", (event: any) => {
+        const n: GraphNode = event.subject.node;
+        [n.x, n.y] = transformRef.current.invert([event.x, event.y]);
+        [n.simX, n.simY] = [n.x, n.y];
+        post({ type: 'drag', url: n.url, x: n.x, y: n.y });
+        quadtreeRef.current = null;
+        requestDraw();
+      })
+      .on("end", (event: any) => {
+        event.subject.node.dragging = false;
+        post({ type: 'release', url: event.subject.node.url });
+      });
+
+    const zoom = d3.zoom()
+      .scaleExtent([0.01, 4]) // a 10k-page tree is very wide
+      .on("zoom", (event: any) => {
+        transformRef.current = event.transform;
+        requestDraw();
+      });
+    zoomRef.current = zoom;
+
+    selection.call(drag).call(zoom).on("dblclick.zoom", null); // double-click folds instead
+
+    selection.on("click", (event: any) => {
+      const [px, py] = d3.pointer(event, canvas);
+      const hit = hitTest(px, py);
+      if (hit) return propsRef.current.onNodeSelect(hit.node);
+      const group = propsRef.current.layout === 'directory' ? groupAt(px, py) : undefined;
+      if (group) toggleCollapsed(group.key);
+    });
 
-  }, [data, width, height]);
+    selection.on("dblclick", (event: any) => {
+      if (propsRef.current.layout === 'directory') return;
+      const [px, py] = d3.pointer(event, canvas);
+      const hit = hitTest(px, py);
+      if (hit) toggleCollapsed(hit.url);
+    });
+
+    // Hover tooltip, written straight to the DOM so moving the mouse never re-renders React
+    selection.on("mousemove", (event: any) => {
+      const tooltip = tooltipRef.current;
+      if (!tooltip) return;
+      const [px, py] = d3.pointer(event, canvas);
+      const hit = hitTest(px, py);
+      const group = !hit && propsRef.current.layout === 'directory' ? groupAt(px, py) : undefined;
+      if (hit) {
+        const { highlights, linksTo } = propsRef.current;
+        const sources = [...new Set((linksTo?.(hit.url) || []).map(e => e.source))];
+        const linkedFrom = sources.length > 0
+          ? `\nLinked from ${sources.length} page${sources.length === 1 ? '' : 's'}:\n${sources.slice(0, 5).map(s => `  ${s}`).join('\n')}${sources.length > 5 ? `\n  +${sources.length - 5} more` : ''}`
+          : '';
+        const folded = hiddenBelow.current.get(hit.url);
+        tooltip.textContent = `${hit.url}\n[${hit.node.contentType}]\nStatus: ${hit.node.status}${highlights?.has(hit.url) ? `\nDiff: ${highlights.get(hit.url)}` : ''}${folded ? `\n${folded} pages folded, double-click to unfold` : ''}${linkedFrom}`;
+      } else if (group) {
+        tooltip.textContent = `${group.key.slice(group.key.indexOf(':') + 1)}\n${group.pages} page${group.pages === 1 ? '' : 's'}\nClick to ${group.collapsed ? 'unfold' : 'fold'}`;
+      } else {
+        tooltip.style.display = 'none';
+        canvas.style.cursor = 'move';
+        return;
+      }
+      tooltip.style.display = 'block';
+      tooltip.style.left = `${Math.min(px + 12, canvas.clientWidth - 260)}px`;
+      tooltip.style.top = `${py + 12}px`;
+      canvas.style.cursor = 'pointer';
+    });
+    selection.on("mouseleave", () => {
+      if (tooltipRef.current) tooltipRef.current.style.display = 'none';
+    });
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      selection.on(".zoom", null).on(".drag", null).on("click", null).on("dblclick", null).on("mousemove", null).on("mouseleave", null);
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+      if (arrangeTimer.current !== null) clearTimeout(arrangeTimer.current);
+      arrangeTimer.current = null;
+    };
+  }, []);
+
+  // The force layout takes every update as it comes; the others recompute at most once per interval
+  useEffect(() => {
+    if (layout === 'force') arrange();
+    else if (arrangeTimer.current === null) arrangeTimer.current = setTimeout(arrange, STATIC_LAYOUT_INTERVAL_MS);
+  }, [data]);
+
+  useEffect(() => {
+    post({ type: 'run', running: layout === 'force' });
+    arrange();
+  }, [layout, collapsed]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+    post({ type: 'center', width, height });
+    requestDraw();
+  }, [width, height]);
+
+  useEffect(requestDraw, [highlights, linksTo, selectedUrl, palette]);
 
   return (
-    <div className="bg-slate-900 rounded-lg shadow-2xl p-4 border border-slate-800 relative overflow-hidden group">
+    <div className="bg-slate-900 rounded-lg shadow-2xl relative overflow-hidden group">
         <div className="absolute top-4 left-4 z-10 pointer-events-none">
              <h3 className="text-slate-200 font-bold bg-slate-900/80 px-2 py-1 rounded backdrop-blur">Network Topology</h3>
-             <p className="text-xs text-slate-500 px-2">Scroll to zoom • Drag to arrange • Click to inspect</p>
+             <p className="text-xs text-slate-500 px-2">{HINTS[layout]}</p>
+        </div>
+        <div className="absolute top-4 right-4 z-10 flex items-center gap-1 text-[10px]">
+          <div className="flex rounded border border-slate-700 overflow-hidden">
+            {GRAPH_LAYOUTS.map(({ id, label, description }) => (
+              <button
+                key={id}
+                onClick={() => switchLayout(id)}
+                title={description}
+                className={`px-2 py-1 transition-colors ${layout === id ? 'bg-blue-900/60 text-white' : 'bg-slate-900/80 text-slate-400 hover:text-slate-200'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <select value={colorBy} onChange={e => setColorBy(e.target.value as GraphColorBy)} title="Colour nodes by" className="bg-slate-900/80 border border-slate-700 rounded px-1 py-1 text-slate-400 outline-none">
+            {GRAPH_COLOR_BY.map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+          </select>
+          {collapsed.size > 0 && (
+            <button onClick={() => setCollapsed(new Set())} className="px-2 py-1 rounded border border-slate-700 bg-slate-900/80 text-slate-400 hover:text-slate-200">
+              Unfold all
+            </button>
+          )}
+        </div>
+        <div className="absolute bottom-3 left-4 z-10 pointer-events-none flex flex-wrap gap-x-3 gap-y-1 max-w-[70%] bg-slate-900/70 rounded px-2 py-1 text-[10px] text-slate-400">
+          {palette.legend.map(({ label, color }) => (
+            <span key={label} className="flex items-center">
+              <span className="w-2 h-2 rounded-full mr-1" style={{ backgroundColor: color }} />
+              {label}
+            </span>
+          ))}
         </div>
-      <svg ref={svgRef} width={width} height={height} className="w-full h-auto bg-[#0b1121] rounded-md cursor-move" />
+      <div className="relative">
+        <canvas ref={canvasRef} style={{ width, height }} className="bg-[#0b1121] rounded-md cursor-move block" />
+        <div
+          ref={tooltipRef}
+          className="absolute z-20 pointer-events-none hidden max-w-[260px] whitespace-pre-wrap break-all bg-slate-950/90 border border-slate-700 rounded px-2 py-1 font-mono text-[10px] text-slate-300"
+        />
+      </div>
     </div>
   );
 };
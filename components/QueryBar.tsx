@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Bookmark, Search, Trash2 } from 'lucide-react';
+import { QueryPreset } from '../types';
+import { QUERY_FIELDS } from '../services/nodeQuery';
+
+interface QueryBarProps {
+  query: string;
+  errors: string[];
+  onChange: (query: string) => void;
+  presets: QueryPreset[];
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+}
+
+const QueryBar: React.FC<QueryBarProps> = ({ query, errors, onChange, presets, onSavePreset, onDeletePreset }) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const save = () => {
+    if (!name.trim() || !query.trim()) return;
+    onSavePreset(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="relative flex items-center">
+      <Search className="absolute left-2.5 top-2 w-3.5 h-3.5 text-slate-500" />
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="status:4xx depth:>2 -path:/tag/"
+        title={errors.length > 0 ? `Ignored:\n${errors.join('\n')}` : 'Filter the graph and table; open the bookmark menu for the syntax'}
+        className={`w-72 bg-slate-900 border rounded-l-md py-1.5 pl-8 pr-2 text-xs font-mono focus:ring-1 outline-none text-slate-300 placeholder-slate-600 ${errors.length > 0 ? 'border-amber-600 focus:ring-amber-500' : 'border-slate-700 focus:ring-blue-500'}`}
+      />
+      <button onClick={() => setOpen(!open)} title="Saved queries" className={`p-1.5 border border-l-0 border-slate-700 rounded-r-md transition-colors ${open ? 'bg-slate-700 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}>
+        <Bookmark className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-9 z-30 w-96 bg-slate-900 border border-slate-700 rounded-lg shadow-2xl p-3 space-y-3 text-[10px]">
+          {errors.length > 0 && (
+            <div className="text-amber-400 space-y-0.5 font-mono">
+              {errors.map(e => <div key={e}>{e}</div>)}
+            </div>
+          )}
+
+          <div>
+            <h4 className="font-bold text-slate-500 uppercase tracking-wider mb-1">Saved queries</h4>
+            {presets.length === 0 ? (
+              <p className="text-slate-600">None yet.</p>
+            ) : (
+              <div className="space-y-0.5 max-h-40 overflow-y-auto custom-scrollbar">
+                {presets.map(preset => (
+                  <div key={preset.id} className={`flex items-center group rounded px-1.5 py-1 ${preset.query === query ? 'bg-blue-900/30' : 'hover:bg-slate-800'}`}>
+                    <button onClick={() => { onChange(preset.query); setOpen(false); }} className="flex-1 min-w-0 text-left">
+                      <span className="text-slate-200">{preset.name}</span>
+                      <span className="ml-2 font-mono text-slate-500 truncate">{preset.query}</span>
+                    </button>
+                    <button onClick={() => onDeletePreset(preset.id)} title="Delete" className="ml-2 text-slate-600 hover:text-rose-400 opacity-0 group-hover:opacity-100">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex mt-2 gap-1">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && save()}
+                placeholder="Name for the current query"
+                className="flex-1 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-300 placeholder-slate-600 outline-none"
+              />
+              <button onClick={save} disabled={!name.trim() || !query.trim()} className="px-2 py-1 rounded bg-blue-600 hover:bg-blue-500 text-white font-bold disabled:opacity-40">
+                Save
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="font-bold text-slate-500 uppercase tracking-wider mb-1">Syntax</h4>
+            <table className="w-full">
+              <tbody>
+                {QUERY_FIELDS.map(({ syntax, description }) => (
+                  <tr key={syntax}>
+                    <td className="pr-2 py-0.5 font-mono text-slate-300 whitespace-nowrap">{syntax}</td>
+                    <td className="py-0.5 text-slate-500">{description}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-slate-600 mt-1">Terms are combined with AND; words without a field search the URL.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueryBar;
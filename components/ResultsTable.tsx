@@ -0,0 +1,140 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, List } from 'lucide-react';
+import { LinkNode } from '../types';
+import { SortDirection, SortKey, sortNodes } from '../services/nodeQuery';
+
+interface ResultsTableProps {
+  nodes: LinkNode[]; // already filtered, in discovery order
+  selectedUrl?: string;
+  onInspect: (node: LinkNode) => void;
+  filterType: string;
+  onFilterType: (type: string) => void;
+}
+
+const FILTER_TYPES = ['all', 'pages', 'scanned', 'assets', 'broken', 'redirects', 'seo'];
+
+// Rows have a fixed height (separators are shadows, not borders) so the visible slice follows from the scroll offset alone
+const ROW_HEIGHT = 28;
+const OVERSCAN = 10;
+
+const COLUMNS: { label: string; sort?: SortKey; align?: 'right' }[] = [
+  { label: 'Resource' },
+  { label: 'Type' },
+  { label: 'Status', sort: 'status' },
+  { label: 'Depth', sort: 'depth', align: 'right' },
+  { label: 'Size', sort: 'size', align: 'right' },
+  { label: 'Time', sort: 'responseTime', align: 'right' },
+  { label: 'Inlinks', sort: 'inlinks', align: 'right' },
+  { label: 'Source' },
+  { label: 'Action', align: 'right' }
+];
+
+const statusClass = (status: string) =>
+  status.startsWith('2') ? 'bg-emerald-500/10 text-emerald-400'
+  : status.startsWith('4') ? 'bg-rose-500/10 text-rose-400'
+  : status.startsWith('3') ? 'bg-amber-500/10 text-amber-400'
+  : status === 'blocked' ? 'bg-violet-500/10 text-violet-400'
+  : 'bg-slate-700 text-slate-400';
+
+/**
+ * Every discovered URL, newest first unless a column is sorted. Only the rows in view
+ * (plus a small overscan) are rendered, so scrolling stays smooth at tens of thousands of nodes.
+ */
+const ResultsTable: React.FC<ResultsTableProps> = ({ nodes, selectedUrl, onInspect, filterType, onFilterType }) => {
+  const [sort, setSort] = useState<{ key: SortKey; direction: SortDirection } | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!scrollRef.current) return;
+    const resizeObserver = new ResizeObserver(entries => {
+      for (let entry of entries) setViewportHeight(entry.contentRect.height);
+    });
+    resizeObserver.observe(scrollRef.current);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  const rows = useMemo(
+    () => (sort ? sortNodes(nodes, sort.key, sort.direction) : nodes.slice().reverse()),
+    [nodes, sort]
+  );
+
+  // Unsorted -> descending -> ascending -> unsorted
+  const toggleSort = (key: SortKey) => setSort(prev =>
+    prev?.key !== key ? { key, direction: 'desc' } : prev.direction === 'desc' ? { key, direction: 'asc' } : null
+  );
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  return (
+    <div className="glass-panel rounded-lg flex flex-col overflow-hidden min-h-0">
+      <div className="h-8 border-b border-slate-800 bg-slate-900/80 flex items-center justify-between px-3">
+        <div className="flex items-center space-x-2">
+          <List className="w-3.5 h-3.5 text-slate-400" />
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Discovered Assets</span>
+          <span className="text-[10px] font-mono text-slate-600">{rows.length}</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          {FILTER_TYPES.map(t => (
+            <button key={t} onClick={() => onFilterType(t)} className={`px-2 py-0.5 rounded text-[9px] font-bold uppercase ${filterType === t ? 'bg-blue-600 text-white' : 'text-slate-500 hover:bg-slate-800'}`}>
+              {t}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div ref={scrollRef} onScroll={e => setScrollTop(e.currentTarget.scrollTop)} className="flex-1 overflow-auto custom-scrollbar bg-[#020617]">
+        <table className="w-full text-left border-collapse">
+          <thead className="bg-slate-900 text-slate-500 text-[10px] font-bold uppercase sticky top-0 z-10 shadow-sm">
+            <tr>
+              {COLUMNS.map(({ label, sort: key, align }) => (
+                <th key={label} className={`px-4 py-2 ${align === 'right' ? 'text-right' : ''}`}>
+                  {key ? (
+                    <button onClick={() => toggleSort(key)} className={`inline-flex items-center uppercase hover:text-slate-300 ${sort?.key === key ? 'text-blue-400' : ''}`}>
+                      {label}
+                      {sort?.key === key && (sort.direction === 'desc' ? <ArrowDown className="w-3 h-3 ml-0.5" /> : <ArrowUp className="w-3 h-3 ml-0.5" />)}
+                    </button>
+                  ) : label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 ? (
+              <tr><td colSpan={COLUMNS.length} className="px-4 py-8 text-center text-slate-600 text-xs">No records found.</td></tr>
+            ) : (
+              <>
+                {first > 0 && <tr style={{ height: first * ROW_HEIGHT }} />}
+                {rows.slice(first, last).map(node => (
+                  <tr key={node.url} style={{ height: ROW_HEIGHT }} className={`shadow-[inset_0_1px_0_rgba(30,41,59,0.5)] hover:bg-slate-800/50 transition-colors group ${selectedUrl === node.url ? 'bg-blue-900/20' : ''}`}>
+                    <td className="px-4 max-w-xs truncate text-xs text-slate-300 font-mono" title={node.url}>{node.url}</td>
+                    <td className="px-4 text-[10px] text-slate-500 uppercase">{node.type}</td>
+                    <td className="px-4 whitespace-nowrap">
+                      <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${statusClass(node.status)}`}>
+                        {node.status}
+                      </span>
+                      {node.finalUrl && node.finalUrl !== node.url && <span className="ml-1 text-[9px] text-slate-500" title={`→ ${node.finalUrl}`}>→ {node.redirectIssue === 'loop' ? 'loop' : `${node.redirectChain!.length - 1} hop${node.redirectChain!.length > 2 ? 's' : ''}`}</span>}
+                    </td>
+                    <td className="px-4 text-right text-[10px] text-slate-500 font-mono">{node.depth}</td>
+                    <td className="px-4 text-right text-[10px] text-slate-500 font-mono whitespace-nowrap">{node.size !== undefined ? `${node.size}KB` : '—'}</td>
+                    <td className="px-4 text-right text-[10px] text-slate-500 font-mono whitespace-nowrap">{node.responseTime !== undefined ? `${node.responseTime}ms` : '—'}</td>
+                    <td className="px-4 text-right text-[10px] text-slate-500 font-mono">{node.inlinks ?? 0}</td>
+                    <td className="px-4 text-[10px] text-slate-500">{node.discoverySource}</td>
+                    <td className="px-4 text-right">
+                      <button onClick={() => onInspect(node)} className="text-[10px] text-blue-500 hover:text-blue-400 hover:underline">Inspect</button>
+                    </td>
+                  </tr>
+                ))}
+                {last < rows.length && <tr style={{ height: (rows.length - last) * ROW_HEIGHT }} />}
+              </>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ResultsTable;
@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from 'react';
+import { ScopeRule, ScopeStrategy } from '../types';
+import { evaluateScope, SCOPE_OPTIONS, validateRule } from '../services/crawlScope';
+import { normalizeUrl } from '../services/urlNormalize';
+import { Plus, Trash2, ArrowUp, ArrowDown, CheckCircle, XCircle } from 'lucide-react';
+
+interface ScopeRulesEditorProps {
+  rootUrl: string;
+  scope: ScopeStrategy;
+  rules: ScopeRule[];
+  disabled: boolean;
+  onChange: (scope: ScopeStrategy, rules: ScopeRule[]) => void;
+}
+
+const inputClass = "bg-slate-800 border border-slate-700 rounded-md py-1 px-1.5 text-[10px] focus:ring-1 focus:ring-blue-500 outline-none text-white disabled:opacity-50";
+
+const ScopeRulesEditor: React.FC<ScopeRulesEditorProps> = ({ rootUrl, scope, rules, disabled, onChange }) => {
+  const [testUrl, setTestUrl] = useState('');
+
+  const updateRule = (id: string, patch: Partial<ScopeRule>) => onChange(scope, rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+  const removeRule = (id: string) => onChange(scope, rules.filter(r => r.id !== id));
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    onChange(scope, next);
+  };
+  const addRule = () => onChange(scope, [...rules, { id: Math.random().toString(36).substr(2, 9), action: 'exclude', kind: 'glob', pattern: '' }]);
+
+  // Relative input is resolved against the target, the same way discovered links are
+  const verdict = useMemo(() => {
+    if (!testUrl.trim()) return null;
+    const url = normalizeUrl(testUrl, rootUrl);
+    return url ? { url, ...evaluateScope(url, rootUrl, scope, rules) } : { url: testUrl, inScope: false, reason: 'Invalid URL' };
+  }, [testUrl, rootUrl, scope, rules]);
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1">
+        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Crawl Scope</label>
+        <select value={scope} onChange={(e) => onChange(e.target.value as ScopeStrategy, rules)} disabled={disabled} className="w-full bg-slate-800 border border-slate-700 rounded-md py-1.5 px-2 text-xs focus:ring-1 focus:ring-blue-500 outline-none text-white disabled:opacity-50">
+          {SCOPE_OPTIONS.map(opt => <option key={opt.id} value={opt.id}>{opt.label}</option>)}
+        </select>
+        <p className="text-[10px] text-slate-500 leading-snug">{SCOPE_OPTIONS.find(opt => opt.id === scope)?.description}</p>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] text-slate-400">Rules <span className="text-slate-600">(first match wins)</span></span>
+          <button onClick={addRule} disabled={disabled} className="text-[10px] text-blue-400 hover:text-blue-300 flex items-center disabled:opacity-30"><Plus size={10} className="mr-0.5" /> Add</button>
+        </div>
+        {rules.map((rule, i) => {
+          const error = rule.pattern ? validateRule(rule) : null;
+          return (
+            <div key={rule.id} className="space-y-0.5">
+              <div className="flex items-center space-x-1">
+                <select value={rule.action} onChange={(e) => updateRule(rule.id, { action: e.target.value as ScopeRule['action'] })} disabled={disabled} className={`${inputClass} ${rule.action === 'include' ? 'text-emerald-400' : 'text-rose-400'}`}>
+                  <option value="include">+</option>
+                  <option value="exclude">−</option>
+                </select>
+                <select value={rule.kind} onChange={(e) => updateRule(rule.id, { kind: e.target.value as ScopeRule['kind'] })} disabled={disabled} className={inputClass}>
+                  <option value="glob">glob</option>
+                  <option value="regex">re</option>
+                </select>
+                <input value={rule.pattern} onChange={(e) => updateRule(rule.id, { pattern: e.target.value })} disabled={disabled} placeholder={rule.kind === 'glob' ? '/tag/**' : '\\?page=\\d+'} className={`${inputClass} flex-1 min-w-0 font-mono ${error ? 'border-rose-500' : ''}`} />
+                <button onClick={() => moveRule(i, -1)} disabled={disabled || i === 0} className="text-slate-500 hover:text-white disabled:opacity-20"><ArrowUp size={10} /></button>
+                <button onClick={() => moveRule(i, 1)} disabled={disabled || i === rules.length - 1} className="text-slate-500 hover:text-white disabled:opacity-20"><ArrowDown size={10} /></button>
+                <button onClick={() => removeRule(rule.id)} disabled={disabled} className="text-slate-500 hover:text-rose-400 disabled:opacity-20"><Trash2 size={10} /></button>
+              </div>
+              {error && <div className="text-[9px] text-rose-400 font-mono truncate" title={error}>{error}</div>}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-1">
+        <input value={testUrl} onChange={(e) => setTestUrl(e.target.value)} placeholder="Would this URL be crawled?" className={`${inputClass} w-full py-1.5 px-2 text-xs font-mono placeholder-slate-600`} />
+        {verdict && (
+          <div className={`flex items-start text-[10px] leading-snug ${verdict.inScope ? 'text-emerald-400' : 'text-rose-400'}`}>
+            {verdict.inScope ? <CheckCircle size={10} className="mr-1 mt-0.5 flex-shrink-0" /> : <XCircle size={10} className="mr-1 mt-0.5 flex-shrink-0" />}
+            <span>{verdict.inScope ? 'Crawled' : 'Recorded, not crawled'}: {verdict.reason}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScopeRulesEditor;
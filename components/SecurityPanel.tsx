@@ -0,0 +1,81 @@
+import React, { useMemo, useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { LinkNode } from '../types';
+import { SECURITY_SEVERITIES, SecurityCheckId, summarizeSecurity } from '../services/securityAudit';
+
+interface SecurityPanelProps {
+  nodes: LinkNode[];
+  onSelect: (node: LinkNode) => void;
+}
+
+const MAX_URLS = 50;
+
+const SecurityPanel: React.FC<SecurityPanelProps> = ({ nodes, onSelect }) => {
+  const summary = useMemo(() => summarizeSecurity(nodes), [nodes]);
+  const [expanded, setExpanded] = useState<SecurityCheckId | null>(null);
+  const byUrl = useMemo(() => new Map(nodes.map(n => [n.url, n])), [nodes]);
+
+  if (summary.audited === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-slate-600 space-y-2 opacity-50 mt-10">
+        <ShieldAlert size={32} />
+        <p className="text-xs text-center">No response headers yet. The security audit needs a provider that fetches real pages (HTTP).</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 space-y-3">
+      <div className="grid grid-cols-4 gap-2 text-center">
+        {SECURITY_SEVERITIES.filter(s => s.id !== 'pass').map(s => (
+          <div key={s.id} className="bg-slate-800/60 rounded p-2">
+            <div className="text-lg font-bold" style={{ color: s.color }}>{summary.counts[s.id]}</div>
+            <div className="text-[9px] text-slate-500 uppercase">{s.label}</div>
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-500">{summary.audited} responses audited, {summary.counts.pass} checks passed.</p>
+
+      <ul className="space-y-1">
+        {summary.checks.map(check => {
+          const color = SECURITY_SEVERITIES.find(s => s.id === check.worst)!.color;
+          const open = expanded === check.check;
+          return (
+            <li key={check.check} className="bg-slate-900/60 rounded border border-slate-800">
+              <button
+                onClick={() => setExpanded(open ? null : check.check)}
+                disabled={check.failing.length === 0}
+                className="w-full flex items-center justify-between px-2 py-1.5 text-[10px] text-left disabled:cursor-default"
+              >
+                <span className="flex items-center min-w-0">
+                  <span className="w-1.5 h-1.5 rounded-full mr-2 flex-shrink-0" style={{ backgroundColor: color }} />
+                  <span className="text-slate-300 truncate">{check.label}</span>
+                </span>
+                <span className="font-mono flex-shrink-0 ml-2" style={{ color }}>
+                  {check.failing.length > 0 ? `${check.failing.length} URL${check.failing.length === 1 ? '' : 's'}` : 'OK'}
+                </span>
+              </button>
+              {open && (
+                <div className="px-2 pb-2 space-y-1">
+                  {check.messages.map(message => <p key={message} className="text-[10px] text-slate-400">{message}</p>)}
+                  <ul className="space-y-0.5 font-mono text-[10px]">
+                    {check.failing.slice(0, MAX_URLS).map(url => (
+                      <li key={url}>
+                        <button onClick={() => byUrl.get(url) && onSelect(byUrl.get(url)!)} className="truncate max-w-full text-left text-slate-500 hover:text-blue-400" title={url}>
+                          {url}
+                        </button>
+                      </li>
+                    ))}
+                    {check.failing.length > MAX_URLS && <li className="text-slate-600">+{check.failing.length - MAX_URLS} more</li>}
+                  </ul>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default SecurityPanel;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { FileSearch } from 'lucide-react';
+import { SEO_SEVERITY_COLORS, SeoCheckId, SeoReport } from '../services/seoAudit';
+
+interface SeoPanelProps {
+  report: SeoReport;
+  activeCheck: SeoCheckId | null;
+  onFilter: (check: SeoCheckId | null) => void; // narrows the results table to the check's URLs
+}
+
+const SeoPanel: React.FC<SeoPanelProps> = ({ report, activeCheck, onFilter }) => {
+  if (report.pagesAudited === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-slate-600 space-y-2 opacity-50 mt-10">
+        <FileSearch size={32} />
+        <p className="text-xs text-center">No HTML pages audited yet. On-page checks need a provider that fetches real pages (HTTP).</p>
+      </div>
+    );
+  }
+
+  const counts = (['error', 'warning', 'notice'] as const).map(severity => ({
+    severity,
+    urls: new Set(report.checks.filter(c => c.severity === severity).flatMap(c => c.urls)).size
+  }));
+
+  return (
+    <div className="p-3 space-y-3">
+      <div className="grid grid-cols-3 gap-2 text-center">
+        {counts.map(({ severity, urls }) => (
+          <div key={severity} className="bg-slate-800/60 rounded p-2">
+            <div className="text-lg font-bold" style={{ color: SEO_SEVERITY_COLORS[severity] }}>{urls}</div>
+            <div className="text-[9px] text-slate-500 uppercase">{severity}s</div>
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-500">{report.pagesAudited} HTML pages audited, {report.issues.length} issues. Click an issue to filter the table.</p>
+
+      {report.checks.length === 0 ? (
+        <p className="text-[10px] text-emerald-400">No on-page issues found.</p>
+      ) : (
+        <ul className="space-y-1">
+          {report.checks.map(check => (
+            <li key={check.check}>
+              <button
+                onClick={() => onFilter(activeCheck === check.check ? null : check.check)}
+                className={`w-full flex items-center justify-between px-2 py-1.5 rounded border text-[10px] text-left transition-colors ${activeCheck === check.check ? 'bg-blue-900/30 border-blue-700' : 'bg-slate-900/60 border-slate-800 hover:border-slate-600'}`}
+              >
+                <span className="flex items-center min-w-0">
+                  <span className="w-1.5 h-1.5 rounded-full mr-2 flex-shrink-0" style={{ backgroundColor: SEO_SEVERITY_COLORS[check.severity] }} />
+                  <span className="text-slate-300 truncate">{check.label}</span>
+                </span>
+                <span className="font-mono text-slate-400 flex-shrink-0 ml-2">{check.urls.length}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SeoPanel;
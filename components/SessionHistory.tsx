@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { CrawlSessionSummary, CrawlStatus } from '../types';
+import { History, FolderOpen, Play, Pencil, Trash2, Check, X } from 'lucide-react';
+
+interface SessionHistoryProps {
+  sessions: CrawlSessionSummary[];
+  activeSessionId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+// A session that was still running or paused when it was last saved can be picked up again
+const isInterrupted = (session: CrawlSessionSummary) =>
+  (session.status === CrawlStatus.RUNNING || session.status === CrawlStatus.PAUSED) && session.queuedPages > 0;
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({ sessions, activeSessionId, onOpen, onRename, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  if (sessions.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center text-slate-600 space-y-2 opacity-50 py-12">
+        <History size={32} />
+        <p className="text-xs">No saved sessions yet. Every crawl is saved automatically.</p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-slate-800">
+      {sessions.map(session => (
+        <li key={session.id} className={`p-3 flex items-center justify-between ${session.id === activeSessionId ? 'bg-blue-900/20' : 'hover:bg-slate-800/40'}`}>
+          <div className="min-w-0 flex-1 mr-3">
+            {editingId === session.id ? (
+              <div className="flex items-center space-x-1">
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                  className="flex-1 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-white outline-none focus:ring-1 focus:ring-blue-500"
+                />
+                <button onClick={commitRename} className="p-1 text-emerald-400 hover:text-emerald-300"><Check size={14} /></button>
+                <button onClick={() => setEditingId(null)} className="p-1 text-slate-500 hover:text-white"><X size={14} /></button>
+              </div>
+            ) : (
+              <div className="text-xs font-bold text-slate-200 truncate" title={session.name}>{session.name}</div>
+            )}
+            <div className="text-[10px] text-slate-500 font-mono truncate">{session.url}</div>
+            <div className="text-[10px] text-slate-500 mt-0.5">
+              {new Date(session.updatedAt).toLocaleString()} · {session.totalLinks} nodes · {session.scannedPages} scanned ·{' '}
+              <span className={isInterrupted(session) ? 'text-amber-400' : session.status === CrawlStatus.COMPLETED ? 'text-emerald-400' : 'text-slate-400'}>
+                {isInterrupted(session) ? `Interrupted (${session.queuedPages} queued)` : session.status}
+              </span>
+            </div>
+          </div>
+          <div className="flex items-center space-x-1 flex-shrink-0">
+            <button onClick={() => onOpen(session.id)} className="p-1.5 rounded text-blue-400 hover:bg-slate-800" title={isInterrupted(session) ? 'Reopen (paused, ready to resume)' : 'Open'}>
+              {isInterrupted(session) ? <Play size={14} /> : <FolderOpen size={14} />}
+            </button>
+            <button onClick={() => { setEditingId(session.id); setDraftName(session.name); }} className="p-1.5 rounded text-slate-400 hover:bg-slate-800 hover:text-white" title="Rename">
+              <Pencil size={14} />
+            </button>
+            <button onClick={() => onDelete(session.id)} disabled={session.id === activeSessionId} className="p-1.5 rounded text-slate-400 hover:bg-slate-800 hover:text-rose-400 disabled:opacity-30" title={session.id === activeSessionId ? 'Cannot delete the open session' : 'Delete'}>
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default SessionHistory;
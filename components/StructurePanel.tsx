@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Network } from 'lucide-react';
+import { STRUCTURE_ISSUES, StructureIssue, StructureReport } from '../services/siteStructure';
+
+interface StructurePanelProps {
+  report: StructureReport | null; // null until the crawl pauses or finishes
+  onSelect: (url: string) => void;
+}
+
+const MAX_ROWS = 200;
+
+const StructurePanel: React.FC<StructurePanelProps> = ({ report, onSelect }) => {
+  const [issue, setIssue] = useState<StructureIssue | null>(null);
+
+  if (!report || report.pagesAnalyzed === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-slate-600 space-y-2 opacity-50 mt-10">
+        <Network size={32} />
+        <p className="text-xs text-center">Link structure is analysed once the crawl is paused or finished. Sessions saved before link recording have no graph.</p>
+      </div>
+    );
+  }
+
+  const rows = issue ? report.findings.filter(f => f.issue === issue) : report.findings;
+  const colorOf = (id: StructureIssue) => STRUCTURE_ISSUES.find(i => i.id === id)!.color;
+
+  return (
+    <div className="p-3 space-y-3">
+      <p className="text-[10px] text-slate-500">{report.pagesAnalyzed} pages and {report.edges} internal links analysed. Click a row to inspect the page.</p>
+
+      <div className="flex flex-wrap gap-1">
+        {STRUCTURE_ISSUES.map(({ id, label, description }) => (
+          <button
+            key={id}
+            onClick={() => setIssue(issue === id ? null : id)}
+            title={description}
+            className={`flex items-center px-2 py-1 rounded border text-[10px] transition-colors ${issue === id ? 'bg-blue-900/30 border-blue-700 text-white' : 'bg-slate-900/60 border-slate-800 text-slate-400 hover:border-slate-600'}`}
+          >
+            <span className="w-1.5 h-1.5 rounded-full mr-1.5" style={{ backgroundColor: colorOf(id) }} />
+            {label}
+            <span className="ml-1.5 font-mono text-slate-500">{report.counts[id]}</span>
+          </button>
+        ))}
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-[10px] text-emerald-400">{issue ? 'No pages with this issue.' : 'No structural issues found.'}</p>
+      ) : (
+        <table className="w-full text-[10px]">
+          <thead>
+            <tr className="text-slate-500 uppercase text-[9px] text-left">
+              <th className="font-bold pb-1">URL</th>
+              <th className="font-bold pb-1">Issue</th>
+              <th className="font-bold pb-1 text-right" title="Distinct pages linking here">In</th>
+              <th className="font-bold pb-1 text-right" title="Distinct internal pages linked from here">Out</th>
+              <th className="font-bold pb-1 text-right" title="Clicks from the start page">Clicks</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, MAX_ROWS).map(finding => (
+              <tr key={`${finding.issue} ${finding.url}`} onClick={() => onSelect(finding.url)} className="cursor-pointer hover:bg-slate-800/50 border-t border-slate-800/60">
+                <td className="py-1 pr-2 font-mono text-slate-300 truncate max-w-[160px]" title={`${finding.url} (${finding.status})`}>{finding.url}</td>
+                <td className="py-1 pr-2 whitespace-nowrap" style={{ color: colorOf(finding.issue) }}>{STRUCTURE_ISSUES.find(i => i.id === finding.issue)!.label}</td>
+                <td className="py-1 text-right font-mono text-slate-400">{finding.inlinks}</td>
+                <td className="py-1 text-right font-mono text-slate-400">{finding.outlinks}</td>
+                <td className="py-1 text-right font-mono text-slate-400">{finding.clickDepth ?? '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {rows.length > MAX_ROWS && <p className="text-[10px] text-slate-600">+{rows.length - MAX_ROWS} more</p>}
+    </div>
+  );
+};
+
+export default StructurePanel;
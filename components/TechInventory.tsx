@@ -0,0 +1,50 @@
+import React, { useMemo } from 'react';
+import { LinkNode } from '../types';
+import { buildTechInventory, TechCategory, TechInventoryEntry } from '../services/techFingerprint';
+
+interface TechInventoryProps {
+  nodes: LinkNode[];
+}
+
+const TechInventory: React.FC<TechInventoryProps> = ({ nodes }) => {
+  const inventory = useMemo(() => buildTechInventory(nodes), [nodes]);
+  const byCategory = useMemo(() => {
+    const groups = new Map<TechCategory, TechInventoryEntry[]>();
+    inventory.forEach(entry => groups.set(entry.category, [...(groups.get(entry.category) || []), entry]));
+    return [...groups.entries()];
+  }, [inventory]);
+
+  return (
+    <div>
+      <h4 className="text-[10px] text-slate-500 uppercase font-bold mb-2">Technology Inventory</h4>
+      {inventory.length === 0 ? (
+        <p className="text-[10px] text-slate-600 italic">Nothing fingerprinted yet. Detection needs real responses (HTTP provider).</p>
+      ) : (
+        <div className="space-y-2">
+          {byCategory.map(([category, entries]) => (
+            <div key={category}>
+              <div className="text-[9px] text-slate-600 uppercase mb-0.5">{category}</div>
+              <ul className="space-y-0.5">
+                {entries.map(entry => (
+                  <li key={entry.name} className="flex items-center justify-between text-[10px]">
+                    <span className="text-indigo-300 truncate" title={entry.versions.length > 0 ? `Versions: ${entry.versions.join(', ')}` : undefined}>
+                      {entry.name}
+                      {entry.versions.length > 0 && (
+                        <span className={`ml-1 font-mono ${entry.versions.length > 1 ? 'text-amber-400' : 'text-slate-500'}`}>
+                          {entry.versions.length > 1 ? `${entry.versions.length} versions` : entry.versions[0]}
+                        </span>
+                      )}
+                    </span>
+                    <span className="font-mono text-slate-500 flex-shrink-0 ml-2">{entry.urls.length} URL{entry.urls.length === 1 ? '' : 's'}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TechInventory;
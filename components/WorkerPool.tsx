@@ -0,0 +1,25 @@
+import React from 'react';
+import { CrawlWorker } from '../types';
+import { Loader2 } from 'lucide-react';
+
+interface WorkerPoolProps {
+  workers: CrawlWorker[];
+}
+
+const WorkerPool: React.FC<WorkerPoolProps> = ({ workers }) => {
+  if (workers.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 -mt-3 mb-1">
+      {workers.map(worker => (
+        <div key={worker.id} className={`flex items-center min-w-0 max-w-[320px] px-2 py-1 rounded border text-[10px] font-mono ${worker.url ? 'bg-blue-500/10 border-blue-500/30 text-blue-300' : 'bg-slate-900 border-slate-800 text-slate-600'}`}>
+          <span className="font-bold mr-1.5 flex-shrink-0">#{worker.id + 1}</span>
+          {worker.url && <Loader2 size={10} className="mr-1 animate-spin flex-shrink-0" />}
+          <span className="truncate" title={worker.url || undefined}>{worker.url || 'idle'}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default WorkerPool;
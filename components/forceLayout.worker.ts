@@ -0,0 +1,107 @@
+import * as d3 from 'd3';
+
+// Runs the force simulation off the main thread: at 10k nodes a single tick takes longer than a frame,
+// and panning, hovering and clicking must not wait for it.
+
+export interface LayoutNodeInput {
+  url: string;
+  parentId?: string;
+  resource: boolean;
+  x: number; // starting position, chosen by the page so both sides draw the node in the same place
+  y: number;
+}
+
+export type LayoutRequest =
+  | { type: 'sync'; added: LayoutNodeInput[]; removed: string[] }
+  | { type: 'center'; width: number; height: number }
+  | { type: 'drag'; url: string; x: number; y: number }
+  | { type: 'release'; url: string }
+  | { type: 'run'; running: boolean }; // paused while another layout is on screen; syncs still apply
+
+export type LayoutResponse =
+  // `order` is only sent when the node set changed; `positions` holds x, y pairs in that order
+  { type: 'tick'; order?: string[]; positions: Float32Array };
+
+interface SimNode extends LayoutNodeInput {
+  fx?: number | null;
+  fy?: number | null;
+}
+
+// Collision is the most expensive force after charge; past this size the charge alone keeps nodes apart
+const COLLIDE_LIMIT = 2000;
+
+const nodes = new Map<string, SimNode>();
+let orderChanged = false;
+let running = true;
+
+const simulation = d3.forceSimulation([])
+  .force("link", d3.forceLink([]).id((d: any) => d.url).distance((d: any) => {
+    // Resources stick closer to parents
+    return d.target.resource ? 30 : 80;
+  }))
+  .force("charge", d3.forceManyBody().strength(-120).theta(0.9))
+  .force("center", d3.forceCenter(300, 200));
+
+const report = () => {
+  const list: SimNode[] = simulation.nodes();
+  const positions = new Float32Array(list.length * 2);
+  list.forEach((n, i) => { positions[i * 2] = n.x; positions[i * 2 + 1] = n.y; });
+  const response: LayoutResponse = { type: 'tick', positions, ...(orderChanged ? { order: list.map(n => n.url) } : {}) };
+  orderChanged = false;
+  postMessage(response, { transfer: [positions.buffer] });
+};
+simulation.on("tick", report).stop(); // started by the first sync
+
+const sync = (added: LayoutNodeInput[], removed: string[]) => {
+  const wasEmpty = nodes.size === 0;
+  removed.forEach(url => nodes.delete(url));
+  added.forEach(input => nodes.set(input.url, { ...input }));
+
+  const links: { source: SimNode; target: SimNode }[] = [];
+  for (const n of nodes.values()) {
+    const parent = n.parentId ? nodes.get(n.parentId) : undefined;
+    if (parent) links.push({ source: parent, target: n });
+  }
+  simulation.nodes([...nodes.values()]);
+  simulation.force("link").links(links);
+  simulation.force("collide", nodes.size <= COLLIDE_LIMIT ? d3.forceCollide(8) : null);
+  orderChanged = true;
+  // A fresh graph settles from scratch; additions only nudge the layout that is already there
+  simulation.alpha(wasEmpty ? 1 : Math.max(simulation.alpha(), 0.1));
+  if (running) simulation.restart();
+};
+
+onmessage = (event: MessageEvent<LayoutRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'sync':
+      sync(request.added, request.removed);
+      break;
+    case 'center':
+      simulation.force("center", d3.forceCenter(request.width / 2, request.height / 2));
+      break;
+    case 'drag': {
+      const node = nodes.get(request.url);
+      if (!node) break;
+      node.fx = request.x;
+      node.fy = request.y;
+      simulation.alphaTarget(0.3).restart();
+      break;
+    }
+    case 'release': {
+      const node = nodes.get(request.url);
+      if (node) node.fx = node.fy = null;
+      simulation.alphaTarget(0);
+      break;
+    }
+    case 'run':
+      running = request.running;
+      if (!running) {
+        simulation.stop();
+        break;
+      }
+      report(); // the page draws the last positions straight away, even if the layout has settled
+      if (simulation.alpha() > simulation.alphaMin()) simulation.restart();
+      break;
+  }
+};
@@ -0,0 +1,112 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { crawlPage, fetchRaw } from './crawlProxy';
+import { createFixtureServer } from './fixtureServer';
+
+// The fixture site on a free port; it's loopback, so every call opts into private hosts
+const server = createFixtureServer();
+let origin = '';
+
+const crawl = (path: string, checkLinks = false) =>
+  crawlPage(`${origin}${path}`, { rootUrl: `${origin}/`, depth: 0, includeAssets: true, checkLinks, timeoutMs: 2000, allowPrivateHosts: true });
+
+before(() => new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => {
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  resolve();
+})));
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe('crawlPage', () => {
+  it('parses a page and measures it', async () => {
+    const { page, links, edges } = await crawl('/');
+    assert.equal(page.status, '200');
+    assert.equal(page.contentType, 'text/html');
+    assert.equal(page.redirectChain, undefined, 'no redirect fields for a direct answer');
+    const urls = links.map(l => l.url);
+    assert.ok(urls.includes(`${origin}/about`));
+    assert.ok(urls.includes(`${origin}/assets/app.js`));
+    assert.equal(links.find(l => l.url === `${origin}/about`)!.type, 'internal');
+    assert.ok(edges.length >= links.length - 1, 'every reference is an edge');
+  });
+
+  it('records every redirect hop with its status', async () => {
+    const { page } = await crawl('/archive/2024');
+    assert.deepEqual(page.redirectChain, [
+      { url: `${origin}/archive/2024`, status: 302 },
+      { url: `${origin}/archive/2024/`, status: 301 },
+      { url: `${origin}/news/archive`, status: 308 },
+      { url: `${origin}/news/`, status: 200 }
+    ]);
+    assert.equal(page.finalUrl, `${origin}/news/`);
+    assert.equal(page.status, '200');
+    assert.equal(page.redirectIssue, 'long-chain', 'three hops is more than a site should need');
+  });
+
+  it('stops at a redirect loop and closes the chain with a status 0 hop', async () => {
+    const { page, links } = await crawl('/loop-a');
+    assert.deepEqual(page.redirectChain, [
+      { url: `${origin}/loop-a`, status: 302 },
+      { url: `${origin}/loop-b`, status: 302 },
+      { url: `${origin}/loop-a`, status: 0 }
+    ]);
+    assert.equal(page.redirectIssue, 'loop');
+    assert.equal(page.status, '302');
+    assert.deepEqual(links, []);
+  });
+
+  it('HEAD-checks resources and non-HTML links when asked to', async () => {
+    const { links } = await crawl('/', true);
+    const byUrl = new Map(links.map(l => [l.url, l]));
+    assert.equal(byUrl.get(`${origin}/assets/app.js`)!.status, '200');
+    assert.equal(byUrl.get(`${origin}/reports/annual-2025.pdf`)!.status, '404');
+    // Internal pages are left for the crawler to fetch
+    assert.equal(byUrl.get(`${origin}/missing-page`)!.status, 'pending');
+  });
+
+  it('leaves statuses pending without link checks', async () => {
+    const { links } = await crawl('/');
+    assert.ok(links.every(l => l.status === 'pending'));
+  });
+
+  it('refuses private targets unless allowed', async () => {
+    await assert.rejects(
+      crawlPage(`${origin}/`, { rootUrl: `${origin}/`, depth: 0, includeAssets: true, checkLinks: false }),
+      { name: 'BlockedHostError' }
+    );
+  });
+});
+
+describe('fetchRaw', () => {
+  it('inflates gzipped bodies', async () => {
+    const raw = await fetchRaw(`${origin}/sitemap-pages.xml.gz`, 2000, true);
+    assert.equal(raw.status, 200);
+    assert.equal(raw.headers['content-type'], 'application/gzip');
+    assert.match(raw.body, /^<\?xml/);
+    assert.match(raw.body, /<urlset/);
+    assert.ok(raw.body.includes(`<loc>${origin}/about</loc>`), 'sitemap URLs point at the port actually served');
+  });
+
+  it('serves sitemap indexes for the requested host', async () => {
+    const raw = await fetchRaw(`${origin}/sitemap.xml`, 2000, true);
+    assert.ok(raw.body.includes(`<loc>${origin}/sitemap-news.xml</loc>`));
+    assert.ok(!raw.body.includes('localhost:4000'));
+  });
+
+  it('answers malformed percent-escapes with 400', async () => {
+    const raw = await fetchRaw(`${origin}/%E0%A4%A`, 2000, true);
+    assert.equal(raw.status, 400);
+  });
+
+  it('returns non-2xx answers instead of throwing', async () => {
+    const raw = await fetchRaw(`${origin}/nope.txt`, 2000, true);
+    assert.equal(raw.status, 404);
+  });
+
+  it('follows redirects to the final URL', async () => {
+    const raw = await fetchRaw(`${origin}/old-about`, 2000, true);
+    assert.equal(raw.status, 200);
+    assert.equal(raw.url, `${origin}/about`);
+  });
+});
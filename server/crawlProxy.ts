@@ -0,0 +1,319 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { gunzipSync } from 'zlib';
+import type { Plugin } from 'vite';
+import { LinkEdge, LinkNode, RedirectHop } from '../types';
+import { auditAccessibility } from '../services/accessibilityAudit';
+import { fromMimeType, guessContentType } from '../services/contentType';
+import { discoverLinks, getCanonical, getTitle, parseHtml } from '../services/htmlParser';
+import { RawResource } from '../services/linkExtractor';
+import { ROBOTS_AGENT } from '../services/robots';
+import { extractSeo } from '../services/seoAudit';
+import { detectTech } from '../services/techFingerprint';
+import { assertPublicTarget, BlockedHostError, isLoopbackClient } from './networkGuard';
+
+export const PROXY_PATH = '/api/crawl';
+export const RAW_PROXY_PATH = '/api/fetch';
+
+const USER_AGENT = `${ROBOTS_AGENT}/1.0 (+https://github.com/raw-fun/DeepLink-AI)`;
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const MAX_LINK_CHECKS = 40;
+const CHECK_CONCURRENCY = 6;
+const MAX_REDIRECTS = 10;      // give up following after this many hops
+const LONG_CHAIN_REDIRECTS = 2; // more redirects than this before reaching content gets flagged
+
+export interface CrawlPageOptions {
+  rootUrl: string;
+  depth: number;
+  includeAssets: boolean;
+  checkLinks: boolean;  // HEAD-check resources and external links so they get real statuses too
+  timeoutMs?: number;
+  allowPrivateHosts?: boolean; // fetch hosts resolving to private/loopback addresses (off by default, see networkGuard)
+}
+
+export interface CrawlPageResult {
+  page: Partial<LinkNode>;
+  links: LinkNode[];
+  edges: LinkEdge[]; // every occurrence, where `links` keeps only the first sighting of each URL
+}
+
+const toKB = (bytes: number) => Math.round(bytes / 102.4) / 10;
+
+const collectHeaders = (response: Response): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => { headers[key] = value; });
+  // Multiple Set-Cookie headers can't be comma-joined safely, keep them one per line
+  const cookies = response.headers.getSetCookie();
+  if (cookies.length > 0) headers['set-cookie'] = cookies.join('\n');
+  return headers;
+};
+
+const readBody = async (response: Response): Promise<{ buffer: Buffer; bytes: number }> => {
+  if (!response.body) return { buffer: Buffer.alloc(0), bytes: 0 };
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let bytes = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    if (bytes > MAX_BODY_BYTES) {
+      await reader.cancel();
+      break;
+    }
+    chunks.push(value);
+  }
+  return { buffer: Buffer.concat(chunks), bytes };
+};
+
+// Never follows redirects itself: each hop has to pass the private-address check
+const request = async (url: string, method: 'GET' | 'HEAD', timeoutMs: number, allowPrivateHosts: boolean) => {
+  await assertPublicTarget(url, allowPrivateHosts);
+  return fetch(url, {
+    method,
+    redirect: 'manual',
+    headers: { 'user-agent': USER_AGENT, accept: method === 'GET' ? 'text/html,application/xhtml+xml,*/*;q=0.8' : '*/*' },
+    signal: AbortSignal.timeout(timeoutMs)
+  });
+};
+
+interface RedirectedResponse {
+  response: Response;
+  chain: RedirectHop[]; // every URL requested, in order, ending with the one that answered
+  finalUrl: string;
+  issue?: LinkNode['redirectIssue'];
+}
+
+const isRedirect = (status: number) => status >= 300 && status < 400 && status !== 304;
+
+// Follows redirects by hand (redirect: 'manual') so every hop's status is recorded and loops are caught
+const requestFollowing = async (url: string, method: 'GET' | 'HEAD', timeoutMs: number, allowPrivateHosts: boolean): Promise<RedirectedResponse> => {
+  const chain: RedirectHop[] = [];
+  const seen = new Set<string>();
+  let current = url;
+  while (true) {
+    seen.add(current);
+    const response = await request(current, method, timeoutMs, allowPrivateHosts);
+    chain.push({ url: current, status: response.status });
+    const location = response.headers.get('location');
+    if (!isRedirect(response.status) || !location) {
+      const issue = chain.length - 1 > LONG_CHAIN_REDIRECTS ? 'long-chain' : undefined;
+      return { response, chain, finalUrl: current, issue };
+    }
+
+    let next: string;
+    try {
+      next = new URL(location, current).toString();
+    } catch {
+      return { response, chain, finalUrl: current };
+    }
+    if (seen.has(next)) {
+      chain.push({ url: next, status: 0 });
+      return { response, chain, finalUrl: next, issue: 'loop' };
+    }
+    if (chain.length > MAX_REDIRECTS) return { response, chain, finalUrl: current, issue: 'long-chain' };
+    await response.body?.cancel();
+    current = next;
+  }
+};
+
+// Redirect facts for a node; nothing at all when the URL answered directly
+const redirectFields = ({ chain, finalUrl, issue }: RedirectedResponse): Partial<LinkNode> =>
+  chain.length > 1 ? { redirectChain: chain, finalUrl, redirectIssue: issue } : {};
+
+// Resolves the real status/size/type of a link we won't crawl into
+const checkLink = async (node: LinkNode, timeoutMs: number, allowPrivateHosts: boolean): Promise<void> => {
+  const started = Date.now();
+  try {
+    let result = await requestFollowing(node.url, 'HEAD', timeoutMs, allowPrivateHosts);
+    // Plenty of servers reject HEAD; fall back to a GET and drop the body
+    if (result.response.status === 405 || result.response.status === 501) {
+      result = await requestFollowing(node.url, 'GET', timeoutMs, allowPrivateHosts);
+      await result.response.body?.cancel();
+    }
+    const { response } = result;
+    // The link points at the first hop, so a redirecting link keeps its 3xx
+    node.status = `${result.chain[0].status}`;
+    Object.assign(node, redirectFields(result));
+    node.responseTime = Date.now() - started;
+    node.headers = collectHeaders(response);
+    node.detectedTech = detectTech({ headers: node.headers });
+    const length = Number(response.headers.get('content-length'));
+    if (length > 0) node.size = toKB(length);
+    node.contentType = fromMimeType(response.headers.get('content-type'), node.url);
+  } catch (e: any) {
+    node.errorReason = e.name === 'TimeoutError' ? 'Timed out' : e.message;
+  }
+};
+
+const runLimited = async <T>(items: T[], limit: number, task: (item: T) => Promise<void>) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await task(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+};
+
+/**
+ * Downloads a single page, measures it and turns every URL reference on it into a pending LinkNode.
+ * Shared by the Vite middleware below and anything else running in Node.
+ */
+export const crawlPage = async (url: string, options: CrawlPageOptions): Promise<CrawlPageResult> => {
+  const timeoutMs = options.timeoutMs ?? 15000;
+  const allowPrivateHosts = options.allowPrivateHosts ?? false;
+  const started = Date.now();
+  const redirected = await requestFollowing(url, 'GET', timeoutMs, allowPrivateHosts);
+  const { response, finalUrl } = redirected;
+  const { buffer, bytes } = await readBody(response);
+  const text = buffer.toString('utf8');
+
+  // Everything except the redirect fields describes the final document
+  const page: Partial<LinkNode> = {
+    status: `${response.status}`,
+    contentType: fromMimeType(response.headers.get('content-type'), finalUrl),
+    size: toKB(bytes),
+    responseTime: Date.now() - started,
+    headers: collectHeaders(response),
+    ...redirectFields(redirected)
+  };
+
+  if (!response.ok || page.contentType !== 'text/html') {
+    page.detectedTech = detectTech({ headers: page.headers });
+    return { page, links: [], edges: [] };
+  }
+
+  const tags = parseHtml(text);
+  page.title = getTitle(tags);
+  page.canonical = getCanonical(tags, finalUrl);
+  page.detectedTech = detectTech({ headers: page.headers, tags, html: text });
+  page.seo = extractSeo(tags, finalUrl, page.headers);
+  page.accessibility = auditAccessibility(tags);
+
+  const rootHost = new URL(options.rootUrl).host;
+  const seen = new Set<string>([url, finalUrl]);
+  const links: LinkNode[] = [];
+  const edges: LinkEdge[] = [];
+
+  for (const link of discoverLinks(tags, finalUrl)) {
+    if (link.isResource && !options.includeAssets) continue;
+    if (link.url !== url && link.url !== finalUrl) {
+      edges.push({ source: finalUrl, target: link.url, text: link.text, rel: link.rel, discoverySource: link.source, position: link.position });
+    }
+    if (seen.has(link.url)) continue;
+    seen.add(link.url);
+    links.push({
+      id: link.url,
+      url: link.url,
+      title: link.text || link.url.split('/').filter(Boolean).pop() || link.url,
+      depth: options.depth + 1,
+      parentId: finalUrl,
+      status: 'pending',
+      type: link.isResource ? 'resource' : new URL(link.url).host === rootHost ? 'internal' : 'external',
+      contentType: guessContentType(link.url),
+      discoverySource: link.source,
+      detectedTech: [],
+      scanned: false
+    });
+  }
+
+  if (options.checkLinks) {
+    const toCheck = links.filter(l => l.type !== 'internal' || l.contentType !== 'text/html').slice(0, MAX_LINK_CHECKS);
+    await runLimited(toCheck, CHECK_CONCURRENCY, node => checkLink(node, timeoutMs, allowPrivateHosts));
+  }
+
+  return { page, links, edges };
+};
+
+/**
+ * Fetches a file verbatim (robots.txt, sitemaps). Non-2xx answers are returned, not thrown.
+ * Gzipped payloads (sitemap.xml.gz) are inflated here so callers always get text.
+ */
+export const fetchRaw = async (url: string, timeoutMs: number = 15000, allowPrivateHosts: boolean = false): Promise<RawResource> => {
+  const { response, finalUrl } = await requestFollowing(url, 'GET', timeoutMs, allowPrivateHosts);
+  const { buffer } = await readBody(response);
+  const isGzip = buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b;
+  let body: string;
+  try {
+    body = (isGzip ? gunzipSync(buffer) : buffer).toString('utf8');
+  } catch {
+    body = '';
+  }
+  return { url: finalUrl, status: response.status, headers: collectHeaders(response), body };
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('content-type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+// Upstream never answered (DNS, refused, timeout): that's a gateway problem, not a page status
+const sendUpstreamError = (res: ServerResponse, e: any) => {
+  if (e instanceof BlockedHostError) return sendJson(res, 403, { error: e.message });
+  sendJson(res, 502, { error: e.name === 'TimeoutError' ? 'Upstream timed out' : (e.cause?.code || e.message) });
+};
+
+const readTargetUrl = (req: IncomingMessage, res: ServerResponse): { url: string; params: URLSearchParams } | null => {
+  const params = new URL(req.url || '', 'http://localhost').searchParams;
+  const url = params.get('url');
+  if (!url || !/^https?:\/\//i.test(url)) {
+    sendJson(res, 400, { error: 'Query parameter "url" must be an absolute http(s) URL.' });
+    return null;
+  }
+  return { url, params };
+};
+
+export interface CrawlProxyOptions {
+  allowPrivateHosts?: boolean; // let the proxy reach private/loopback targets; the fixture site never needs it
+}
+
+export const handleCrawlRequest = async (req: IncomingMessage, res: ServerResponse, options: CrawlProxyOptions = {}) => {
+  const target = readTargetUrl(req, res);
+  if (!target) return;
+  const { url, params } = target;
+
+  try {
+    const result = await crawlPage(url, {
+      rootUrl: params.get('root') || url,
+      depth: Number(params.get('depth')) || 0,
+      includeAssets: params.get('assets') !== '0',
+      checkLinks: params.get('check') !== '0',
+      allowPrivateHosts: options.allowPrivateHosts
+    });
+    sendJson(res, 200, result);
+  } catch (e: any) {
+    sendUpstreamError(res, e);
+  }
+};
+
+export const handleRawRequest = async (req: IncomingMessage, res: ServerResponse, options: CrawlProxyOptions = {}) => {
+  const target = readTargetUrl(req, res);
+  if (!target) return;
+  try {
+    sendJson(res, 200, await fetchRaw(target.url, undefined, options.allowPrivateHosts));
+  } catch (e: any) {
+    sendUpstreamError(res, e);
+  }
+};
+
+// Nobody but the machine running the dev server gets to use it as a fetcher
+const localOnly = (handler: typeof handleCrawlRequest, options: CrawlProxyOptions) =>
+  (req: IncomingMessage, res: ServerResponse) => {
+    if (!isLoopbackClient(req)) return sendJson(res, 403, { error: 'The crawl proxy only answers local clients.' });
+    handler(req, res, options);
+  };
+
+/**
+ * Mounts the crawl proxy on the Vite dev and preview servers, so the browser can fetch
+ * arbitrary sites without running into CORS.
+ */
+export const crawlProxyPlugin = (options: CrawlProxyOptions = {}): Plugin => ({
+  name: 'deeplink-crawl-proxy',
+  configureServer(server) {
+    server.middlewares.use(PROXY_PATH, localOnly(handleCrawlRequest, options));
+    server.middlewares.use(RAW_PROXY_PATH, localOnly(handleRawRequest, options));
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(PROXY_PATH, localOnly(handleCrawlRequest, options));
+    server.middlewares.use(RAW_PROXY_PATH, localOnly(handleRawRequest, options));
+  }
+});
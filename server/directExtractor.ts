@@ -0,0 +1,39 @@
+import { ExtractorError, LinkExtractor } from '../services/linkExtractor';
+import { crawlPage, fetchRaw } from './crawlProxy';
+import { BlockedHostError } from './networkGuard';
+
+export interface DirectExtractorOptions {
+  includeAssets: boolean;
+  timeoutMs?: number;
+  allowPrivateHosts?: boolean;
+}
+
+const toError = (e: any) => {
+  // Asking again won't make a private address public
+  if (e instanceof BlockedHostError) return new ExtractorError(e.message, '403', false);
+  return new ExtractorError(e.name === 'TimeoutError' ? 'Upstream timed out' : (e.cause?.code || e.message), '500', true);
+};
+
+/**
+ * The HTTP provider without the proxy hop: runs the crawl proxy's page fetcher in-process.
+ * Only usable in Node (the CLI), where there is no CORS to work around.
+ */
+export const createDirectExtractor = (options: DirectExtractorOptions): LinkExtractor => ({
+  id: 'http',
+  label: 'HTTP (direct)',
+  capabilities: { requiresApiKey: false, realNetwork: true, deterministic: false, realStatus: true },
+  extract: async ({ url, rootUrl, depth }) => {
+    try {
+      return await crawlPage(url, { rootUrl, depth, includeAssets: options.includeAssets, checkLinks: true, timeoutMs: options.timeoutMs, allowPrivateHosts: options.allowPrivateHosts });
+    } catch (e: any) {
+      throw toError(e);
+    }
+  },
+  fetchRaw: async url => {
+    try {
+      return await fetchRaw(url, options.timeoutMs, options.allowPrivateHosts);
+    } catch (e: any) {
+      throw toError(e);
+    }
+  }
+});
@@ -0,0 +1,118 @@
+import { createServer, Server } from 'http';
+import { readFile, stat } from 'fs/promises';
+import path from 'path';
+import { gunzipSync, gzipSync } from 'zlib';
+
+/**
+ * Static server for the offline fixture site in fixtures/site.
+ * Point the HTTP extractor (or the crawl proxy directly) at http://localhost:4000 to exercise
+ * real fetching and parsing without internet access. Tests start their own instance with
+ * createFixtureServer() on a free port.
+ */
+const ROOT = path.resolve(__dirname, '../fixtures/site');
+const PORT = Number(process.env.FIXTURE_PORT) || 4000;
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css',
+  '.js': 'application/javascript',
+  '.json': 'application/json',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.txt': 'text/plain',
+  '.xml': 'application/xml',
+  '.pdf': 'application/pdf',
+  '.gz': 'application/gzip'
+};
+
+// Moved pages, a multi-hop chain and a loop, so redirect tracking has something to find
+const REDIRECTS: Record<string, { status: number; location: string }> = {
+  '/old-about': { status: 301, location: '/about' },
+  '/archive/2024': { status: 302, location: '/archive/2024/' },
+  '/archive/2024/': { status: 301, location: '/news/archive' },
+  '/news/archive': { status: 308, location: '/news/' },
+  '/loop-a': { status: 302, location: '/loop-b' },
+  '/loop-b': { status: 302, location: '/loop-a' }
+};
+
+// Uneven security headers, so the header audit finds both passes and problems
+const SECURITY_HEADERS: Record<string, Record<string, string>> = {
+  '/': {
+    'content-security-policy': "default-src 'self'; script-src 'self' 'unsafe-inline'; frame-ancestors 'none'",
+    'x-content-type-options': 'nosniff',
+    'referrer-policy': 'strict-origin-when-cross-origin',
+    'set-cookie': 'session=fixture; Path=/; HttpOnly; SameSite=Lax'
+  },
+  '/contact.html': {
+    'x-frame-options': 'SAMEORIGIN',
+    'set-cookie': 'csrf=fixture; Path=/contact'
+  }
+};
+
+// The sitemaps are written against the default port; they're rewritten to whatever host the request came in on
+const SITEMAP_ORIGIN = 'http://localhost:4000';
+
+const withRequestOrigin = (body: Buffer, file: string, host: string | undefined): Buffer => {
+  if (!file.endsWith('.xml') && !file.endsWith('.xml.gz')) return body;
+  const isGzip = file.endsWith('.gz');
+  const origin = host && /^[\w.-]+(:\d+)?$|^\[[\da-f:]+\](:\d+)?$/i.test(host) ? `http://${host}` : `http://localhost:${PORT}`;
+  const xml = (isGzip ? gunzipSync(body) : body).toString('utf8').split(SITEMAP_ORIGIN).join(origin);
+  return isGzip ? gzipSync(xml) : Buffer.from(xml);
+};
+
+// Maps /about, /about/ and /about.html onto the same file
+const resolveFile = async (pathname: string): Promise<string | null> => {
+  const clean = path.normalize(pathname).replace(/^(\.\.[\/\\])+/, '');
+  const candidates = [clean, `${clean}.html`, path.join(clean, 'index.html')];
+  for (const candidate of candidates) {
+    const file = path.join(ROOT, candidate);
+    if (!file.startsWith(ROOT)) return null;
+    try {
+      if ((await stat(file)).isFile()) return file;
+    } catch {
+      // try the next candidate
+    }
+  }
+  return null;
+};
+
+export const createFixtureServer = (): Server => createServer(async (req, res) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  const redirect = REDIRECTS[pathname];
+  if (redirect) {
+    res.writeHead(redirect.status, { location: redirect.location, 'server': 'fixture-site' });
+    res.end();
+    return;
+  }
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    res.writeHead(400, { 'content-type': 'text/html; charset=utf-8' });
+    res.end('<!doctype html><title>Bad Request</title><h1>400</h1>');
+    return;
+  }
+  const file = await resolveFile(decoded);
+
+  if (!file) {
+    res.writeHead(404, { 'content-type': 'text/html; charset=utf-8' });
+    res.end('<!doctype html><title>Not Found</title><h1>404</h1>');
+    return;
+  }
+
+  const body = withRequestOrigin(await readFile(file), file, req.headers.host);
+  res.writeHead(200, {
+    'content-type': MIME_TYPES[path.extname(file)] || 'application/octet-stream',
+    'content-length': body.length,
+    'server': 'fixture-site',
+    ...(file.endsWith('.html') ? { 'x-powered-by': 'PHP/7.4.33', ...SECURITY_HEADERS[pathname] } : {})
+  });
+  res.end(req.method === 'HEAD' ? undefined : body);
+});
+
+// `npm run fixture-site`; importing the module (tests) doesn't start anything
+if (require.main === module) {
+  createFixtureServer().listen(PORT, () => {
+    console.log(`Fixture site serving ${ROOT} on http://localhost:${PORT}`);
+  });
+}
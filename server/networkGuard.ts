@@ -0,0 +1,59 @@
+import type { IncomingMessage } from 'http';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+/**
+ * Keeps the crawl proxy from being used as a relay into the machine it runs on or its network:
+ * only local clients may call it, and targets that resolve to private, loopback or link-local
+ * addresses are refused unless explicitly allowed. The bundled fixture site is the one exception.
+ */
+
+// Same default as server/fixtureServer.ts
+const FIXTURE_PORT = Number(process.env.FIXTURE_PORT) || 4000;
+
+const PRIVATE_RANGES = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([net, prefix]) => PRIVATE_RANGES.addSubnet(net as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([net, prefix]) => PRIVATE_RANGES.addSubnet(net as string, prefix as number, 'ipv6'));
+
+export class BlockedHostError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockedHostError';
+  }
+}
+
+export const isPrivateAddress = (address: string): boolean => {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address it carries
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return PRIVATE_RANGES.check(mapped[1], 'ipv4');
+  const family = isIP(address);
+  if (family === 0) return true; // not an address at all: refuse rather than guess
+  return PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+const isFixtureSite = (url: URL) =>
+  (url.hostname === 'localhost' || url.hostname === '127.0.0.1') && Number(url.port) === FIXTURE_PORT;
+
+/**
+ * Resolves the target host and throws BlockedHostError when any of its addresses is private.
+ * Called before every request, redirect hops included.
+ */
+export const assertPublicTarget = async (rawUrl: string, allowPrivateHosts: boolean): Promise<void> => {
+  if (allowPrivateHosts) return;
+  const url = new URL(rawUrl);
+  if (isFixtureSite(url)) return;
+  const host = url.hostname.replace(/^\[|\]$/g, ''); // IPv6 literals come bracketed
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(a => a.address);
+  const blocked = addresses.find(isPrivateAddress);
+  if (blocked) throw new BlockedHostError(`Refusing to fetch ${url.host}: resolves to private address ${blocked}`);
+};
+
+export const isLoopbackClient = (req: IncomingMessage): boolean => {
+  const address = req.socket.remoteAddress || '';
+  return address === '::1' || /^(::ffff:)?127\./.test(address);
+};
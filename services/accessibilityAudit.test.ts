@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LinkNode } from '../types';
+import { parseHtml } from './htmlParser';
+import { auditAccessibility, summarizeAccessibility } from './accessibilityAudit';
+
+const audit = (body: string, lang = 'en') => auditAccessibility(parseHtml(`<html${lang ? ` lang="${lang}"` : ''}><body>${body}</body></html>`));
+const rules = (body: string, lang?: string) => audit(body, lang).issues.map(i => i.rule);
+
+describe('auditAccessibility', () => {
+  it('scores a clean page 100', () => {
+    const result = audit(`
+      <h1>Title</h1><h2>Section</h2>
+      <img src="/logo.png" alt="Site logo"><img src="/rule.png" alt="">
+      <a href="/contact">Contact the office</a><a href="/"><img src="/home.png" alt="Home"></a>
+      <label for="q">Search</label><input id="q" name="q">
+      <label>Email <input type="email" name="email"></label>
+      <input type="submit" value="Go"><input type="hidden" name="token">`);
+    assert.deepEqual(result.issues, []);
+    assert.equal(result.score, 100);
+  });
+
+  it('flags images without alt text unless they are hidden or labelled', () => {
+    const result = audit('<img src="/a.png"><img src="/b.png" aria-hidden="true"><img src="/c.png" aria-label="Chart"><img src="/d.png" role="presentation">');
+    assert.deepEqual(result.issues, [{ rule: 'img-alt', impact: 'critical', element: '<img src="/a.png">' }]);
+    assert.equal(result.score, Math.round(100 * 7 / 17), 'html-lang and img-alt apply, img-alt failed');
+  });
+
+  it('flags form fields without a label, even with a placeholder', () => {
+    const result = audit(`
+      <input name="q" placeholder="Search"><select name="district"></select><textarea id="msg"></textarea>
+      <label for="other">Other</label><input name="named" aria-label="Named"><input type="button" value="x">`);
+    assert.deepEqual(result.issues.map(i => i.element), ['<input name="q">', '<select name="district">', '<textarea id="msg">']);
+    assert.ok(result.issues.every(i => i.rule === 'form-label'));
+  });
+
+  it('flags a missing lang, empty and vague links, skipped headings and duplicate ids', () => {
+    assert.deepEqual(rules('<p>Text</p>', ''), ['html-lang']);
+    const result = audit('<a href="/a"></a><a href="/b">Read more…</a><h1 id="x">A</h1><h3 id="x">B</h3>');
+    assert.deepEqual(result.issues.map(i => [i.rule, i.detail]), [
+      ['link-name', undefined],
+      ['link-text', '"Read more…"'],
+      ['heading-order', 'h1 → h3'],
+      ['duplicate-id', 'id="x" used 2 times']
+    ]);
+  });
+
+  it('keeps at most ten issues per rule and says so', () => {
+    const result = audit('<img src="/x.png">'.repeat(12));
+    assert.equal(result.issues.length, 10);
+    assert.equal(result.truncated, true);
+  });
+});
+
+describe('summarizeAccessibility', () => {
+  it('averages scores and lists failing rules first', () => {
+    const node = (path: string, body: string): LinkNode => ({
+      id: `https://site.test${path}`, url: `https://site.test${path}`, title: path, depth: 1, status: '200',
+      type: 'internal', contentType: 'text/html', discoverySource: 'anchor', scanned: true, accessibility: audit(body)
+    });
+    const clean = node('/', '<p>Fine</p>');
+    const broken = node('/form', '<input name="q"><input name="r">');
+    const summary = summarizeAccessibility([clean, broken, { ...clean, id: 'x', url: 'x', accessibility: undefined }]);
+    assert.equal(summary.pagesAudited, 2);
+    assert.deepEqual(summary.worstPages, [broken]);
+    assert.equal(summary.rules[0].rule, 'form-label');
+    assert.equal(summary.rules[0].occurrences, 2);
+    assert.equal(summary.averageScore, Math.round((100 + broken.accessibility!.score) / 2));
+  });
+});
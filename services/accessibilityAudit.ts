@@ -0,0 +1,161 @@
+import { AccessibilityImpact, AccessibilityIssue, AccessibilityRule, LinkNode, PageAccessibility } from "../types";
+import { HtmlTag } from "./htmlParser";
+
+export const ACCESSIBILITY_RULES: { id: AccessibilityRule; label: string; impact: AccessibilityImpact; wcag: string }[] = [
+  { id: 'img-alt', label: 'Images without alt text', impact: 'critical', wcag: '1.1.1' },
+  { id: 'form-label', label: 'Form fields without a label', impact: 'critical', wcag: '1.3.1 / 4.1.2' },
+  { id: 'html-lang', label: 'No lang on <html>', impact: 'serious', wcag: '3.1.1' },
+  { id: 'link-name', label: 'Links without text', impact: 'serious', wcag: '2.4.4 / 4.1.2' },
+  { id: 'link-text', label: 'Non-descriptive link text', impact: 'moderate', wcag: '2.4.4' },
+  { id: 'heading-order', label: 'Skipped heading levels', impact: 'moderate', wcag: '1.3.1' },
+  { id: 'duplicate-id', label: 'Duplicate id attributes', impact: 'minor', wcag: '4.1.1' },
+];
+
+export const IMPACT_COLORS: Record<AccessibilityImpact, string> = {
+  critical: '#f43f5e', serious: '#f97316', moderate: '#f59e0b', minor: '#60a5fa'
+};
+
+// Same bands as Lighthouse: green from 90, amber from 50
+export const scoreColor = (score: number) => (score >= 90 ? '#34d399' : score >= 50 ? '#fbbf24' : '#fb7185');
+
+// Lighthouse-style weights: a page fails a rule once, however many elements break it
+const IMPACT_WEIGHTS: Record<AccessibilityImpact, number> = { critical: 10, serious: 7, moderate: 3, minor: 1 };
+
+// Kept per rule and page; a template bug repeats on every element and would bloat saved sessions
+const MAX_ISSUES_PER_RULE = 10;
+
+// Link text that says nothing once read out of context by a screen reader's links list
+const VAGUE_LINK_TEXT = new Set([
+  'click here', 'here', 'click', 'read more', 'more', 'learn more', 'more info', 'details', 'link', 'this', 'go', 'continue', 'download',
+  'এখানে', 'এখানে ক্লিক করুন', 'আরও', 'বিস্তারিত', // Bangla equivalents, common on .gov.bd sites
+]);
+
+const UNLABELLED_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image']);
+
+const snippet = (tag: HtmlTag) => {
+  const attrs = ['id', 'name', 'type', 'src', 'href', 'class']
+    .filter(a => tag.attrs[a] !== undefined)
+    .map(a => `${a}="${tag.attrs[a].length > 40 ? `${tag.attrs[a].slice(0, 40)}…` : tag.attrs[a]}"`);
+  return `<${[tag.name, ...attrs].join(' ')}>`;
+};
+
+const isHidden = (tag: HtmlTag) =>
+  tag.attrs['aria-hidden'] === 'true' || tag.attrs.hidden !== undefined || ['presentation', 'none'].includes(tag.attrs.role);
+
+/**
+ * Runs the WCAG-oriented checks on one parsed page. Markup only: no CSS, no scripts, so contrast and
+ * focus order are out of reach, but these are the failures government-site reviews flag most.
+ */
+export const auditAccessibility = (tags: HtmlTag[]): PageAccessibility => {
+  const issues: AccessibilityIssue[] = [];
+  const applicable = new Set<AccessibilityRule>(['html-lang']);
+  const failed = new Set<AccessibilityRule>();
+  const add = (rule: AccessibilityRule, tag: HtmlTag, detail?: string) => {
+    failed.add(rule);
+    issues.push({ rule, impact: ACCESSIBILITY_RULES.find(r => r.id === rule)!.impact, element: snippet(tag), ...(detail ? { detail } : {}) });
+  };
+
+  const html = tags.find(t => t.name === 'html');
+  if (!html?.attrs.lang?.trim()) add('html-lang', html ?? { name: 'html', attrs: {}, text: '', position: 0, ancestors: [] });
+
+  // <label for=...> names its field; a wrapping <label> does too
+  const labelled = new Set(tags.filter(t => t.name === 'label' && t.attrs.for).map(t => t.attrs.for));
+  const byPosition = new Map(tags.map(t => [t.position, t]));
+  // Alt text of images inside each link, keyed by the link's position: an image link is named by its alt
+  const imageAlts = new Map<number, string[]>();
+  tags.filter(t => t.name === 'img').forEach(img => img.ancestors.forEach(p => imageAlts.set(p, [...(imageAlts.get(p) || []), img.attrs.alt || ''])));
+
+  const ids = new Map<string, HtmlTag[]>();
+  let previousLevel = 0;
+
+  for (const tag of tags) {
+    if (tag.attrs.id) ids.set(tag.attrs.id, [...(ids.get(tag.attrs.id) || []), tag]);
+
+    switch (tag.name) {
+      case 'img':
+        applicable.add('img-alt');
+        // alt="" is fine: it marks the image as decorative
+        if (tag.attrs.alt === undefined && !tag.attrs['aria-label'] && !tag.attrs['aria-labelledby'] && !isHidden(tag)) add('img-alt', tag);
+        break;
+
+      case 'a': {
+        if (tag.attrs.href === undefined || isHidden(tag)) break;
+        applicable.add('link-name');
+        applicable.add('link-text');
+        const name = (tag.attrs['aria-label'] || tag.text || (imageAlts.get(tag.position) || []).join(' ') || tag.attrs.title || '').trim();
+        if (!name && !tag.attrs['aria-labelledby']) add('link-name', tag);
+        else if (VAGUE_LINK_TEXT.has(name.toLowerCase().replace(/[.…:»›→\s]+$/u, ''))) add('link-text', tag, `"${name}"`);
+        break;
+      }
+
+      case 'input':
+      case 'select':
+      case 'textarea': {
+        if (tag.name === 'input' && UNLABELLED_INPUT_TYPES.has((tag.attrs.type || 'text').toLowerCase())) break;
+        if (isHidden(tag)) break;
+        applicable.add('form-label');
+        const wrapped = tag.ancestors.some(p => byPosition.get(p)?.name === 'label');
+        // placeholder is deliberately not enough: it disappears as soon as the user types
+        const named = tag.attrs['aria-label'] || tag.attrs['aria-labelledby'] || tag.attrs.title || (tag.attrs.id && labelled.has(tag.attrs.id));
+        if (!wrapped && !named) add('form-label', tag);
+        break;
+      }
+
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+        applicable.add('heading-order');
+        const level = Number(tag.name[1]);
+        // Going deeper by more than one level skips one; jumping back up to any level is fine
+        if (previousLevel > 0 && level > previousLevel + 1) add('heading-order', tag, `h${previousLevel} → h${level}`);
+        previousLevel = level;
+        break;
+      }
+    }
+  }
+
+  if (ids.size > 0) applicable.add('duplicate-id');
+  for (const [id, withId] of ids) if (withId.length > 1) add('duplicate-id', withId[1], `id="${id}" used ${withId.length} times`);
+
+  const total = [...applicable].reduce((sum, rule) => sum + IMPACT_WEIGHTS[ACCESSIBILITY_RULES.find(r => r.id === rule)!.impact], 0);
+  const lost = [...failed].reduce((sum, rule) => sum + IMPACT_WEIGHTS[ACCESSIBILITY_RULES.find(r => r.id === rule)!.impact], 0);
+
+  const kept = ACCESSIBILITY_RULES.flatMap(r => issues.filter(i => i.rule === r.id).slice(0, MAX_ISSUES_PER_RULE));
+  return {
+    score: Math.round(100 * (total - lost) / total),
+    issues: kept,
+    ...(kept.length < issues.length ? { truncated: true } : {})
+  };
+};
+
+export interface AccessibilityRuleSummary {
+  rule: AccessibilityRule;
+  label: string;
+  impact: AccessibilityImpact;
+  wcag: string;
+  pages: LinkNode[]; // failing pages, worst score first
+  occurrences: number;
+}
+
+export interface AccessibilitySummary {
+  pagesAudited: number;
+  averageScore: number | null;
+  worstPages: LinkNode[];
+  rules: AccessibilityRuleSummary[]; // every rule, failing ones first
+}
+
+export const summarizeAccessibility = (nodes: LinkNode[]): AccessibilitySummary => {
+  const pages = nodes.filter(n => n.accessibility).sort((a, b) => a.accessibility!.score - b.accessibility!.score);
+  const rules = ACCESSIBILITY_RULES.map(({ id, label, impact, wcag }) => {
+    const failing = pages.filter(p => p.accessibility!.issues.some(i => i.rule === id));
+    return {
+      rule: id, label, impact, wcag, pages: failing,
+      occurrences: failing.reduce((sum, p) => sum + p.accessibility!.issues.filter(i => i.rule === id).length, 0)
+    };
+  }).sort((a, b) => (b.pages.length > 0 ? 1 : 0) - (a.pages.length > 0 ? 1 : 0));
+
+  return {
+    pagesAudited: pages.length,
+    averageScore: pages.length > 0 ? Math.round(pages.reduce((sum, p) => sum + p.accessibility!.score, 0) / pages.length) : null,
+    worstPages: pages.filter(p => p.accessibility!.score < 100).slice(0, 10),
+    rules
+  };
+};
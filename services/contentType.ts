@@ -0,0 +1,42 @@
+import { LinkNode } from "../types";
+
+// Helper to determine content type based on extension
+export const guessContentType = (url: string): LinkNode['contentType'] => {
+  const path = url.split(/[?#]/)[0];
+  if (path.match(/\.(jpg|jpeg|gif|webp)$/i)) return 'image/jpeg';
+  if (path.match(/\.png$/i)) return 'image/png';
+  if (path.match(/\.js$/i)) return 'application/javascript';
+  if (path.match(/\.css$/i)) return 'text/css';
+  if (path.match(/\.pdf$/i)) return 'application/pdf';
+  if (path.match(/\.json$/i)) return 'application/json';
+  return 'text/html';
+};
+
+// Maps a raw Content-Type header onto the narrower set the UI knows how to draw
+export const fromMimeType = (mime: string | null | undefined, url: string): LinkNode['contentType'] => {
+  if (!mime) return guessContentType(url);
+  const base = mime.split(';')[0].trim().toLowerCase();
+  switch (base) {
+    case 'text/html':
+    case 'application/xhtml+xml':
+      return 'text/html';
+    case 'application/json':
+    case 'application/ld+json':
+      return 'application/json';
+    case 'image/jpeg':
+    case 'image/gif':
+    case 'image/webp':
+      return 'image/jpeg';
+    case 'image/png':
+      return 'image/png';
+    case 'text/css':
+      return 'text/css';
+    case 'application/javascript':
+    case 'text/javascript':
+      return 'application/javascript';
+    case 'application/pdf':
+      return 'application/pdf';
+    default:
+      return 'other';
+  }
+};
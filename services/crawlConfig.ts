@@ -0,0 +1,23 @@
+import { CrawlConfig } from "../types";
+import { DEFAULT_TRACKING_PARAMS } from "./urlNormalize";
+
+// Starting point for the sidebar and the CLI; saved sessions and config files are laid over it
+export const DEFAULT_CRAWL_CONFIG: CrawlConfig = {
+  url: 'https://bangladesh.gov.bd',
+  maxDepth: 3,
+  maxPages: 100,
+  delay: 2000, // politeness gap per host; API quotas are paced separately by the key rate limiter
+  concurrency: 4,
+  perHostConcurrency: 2,
+  respectRobots: true,
+  renderJS: true,
+  includeAssets: true,
+  extractor: 'gemini',
+  discoverSitemaps: true,
+  trackingParams: DEFAULT_TRACKING_PARAMS,
+  scope: 'same-host',
+  scopeRules: [],
+};
+
+// Older sessions and hand-written config files lack newer settings; fill them from the defaults
+export const withDefaults = (config: Partial<CrawlConfig>): CrawlConfig => ({ ...DEFAULT_CRAWL_CONFIG, ...config });
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LinkNode } from '../types';
+import { diffCrawls } from './crawlDiff';
+import { parseCrawlImport } from './crawlImport';
+import { normalizeUrl } from './urlNormalize';
+
+// What a live crawl holds: every URL keyed by normalizeUrl
+const crawled = (url: string, overrides: Partial<LinkNode> = {}): LinkNode => {
+  const key = normalizeUrl(url)!;
+  return { id: key, url: key, title: key, depth: 1, status: '200', type: 'internal', contentType: 'text/html', scanned: true, ...overrides };
+};
+
+// The six-column CSV older versions exported, with URLs exactly as they were linked
+const LEGACY_CSV = [
+  'URL,Type,Status,Size,Depth,Parent',
+  'https://Site.test,internal,200,10,0,',
+  'https://site.test/about/,internal,200,10,1,https://site.test',
+  'https://site.test/list?b=2&a=1&utm_source=mail,internal,200,10,1,https://site.test',
+  'https://site.test:443/old#top,internal,404,1,1,https://site.test',
+  'https://site.test/about,internal,200,10,1,https://site.test'
+].join('\n');
+
+describe('diffCrawls', () => {
+  it('matches a raw-URL import against a normalized crawl', () => {
+    const baseline = parseCrawlImport(LEGACY_CSV, 'old.csv');
+    assert.deepEqual(baseline.nodes.map(n => n.url), [
+      'https://site.test/', 'https://site.test/about', 'https://site.test/list?a=1&b=2', 'https://site.test/old'
+    ], 'normalized, with the two /about rows folded together');
+    assert.equal(baseline.nodes[1].parentId, 'https://site.test/');
+
+    const current = [
+      crawled('https://site.test/', { depth: 0 }),
+      crawled('https://site.test/about'),
+      crawled('https://site.test/list?a=1&b=2'),
+      crawled('https://site.test/old', { status: '404' })
+    ];
+    const diff = diffCrawls(baseline.nodes, current);
+    assert.deepEqual(diff.entries, []);
+  });
+
+  it('reports added, removed, newly broken and status changes', () => {
+    const baseline = [crawled('https://site.test/a'), crawled('https://site.test/b'), crawled('https://site.test/c')];
+    const current = [crawled('https://site.test/a', { status: '500' }), crawled('https://site.test/b', { status: '301' }), crawled('https://site.test/d')];
+    const kinds = Object.fromEntries(diffCrawls(baseline, current).entries.map(e => [new URL(e.url).pathname, e.kinds]));
+    assert.deepEqual(kinds, { '/a': ['status', 'broken'], '/b': ['status'], '/c': ['removed'], '/d': ['added'] });
+  });
+});
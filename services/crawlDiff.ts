@@ -0,0 +1,93 @@
+import { LinkNode } from "../types";
+
+export type DiffKind = 'added' | 'removed' | 'status' | 'broken' | 'size' | 'slower';
+
+export interface DiffEntry {
+  url: string;
+  kinds: DiffKind[];
+  before?: LinkNode; // baseline crawl
+  after?: LinkNode;  // crawl being compared
+}
+
+export interface CrawlDiff {
+  entries: DiffEntry[];
+  counts: Record<DiffKind, number>;
+}
+
+export interface DiffThresholds {
+  sizeGrowth: number;     // fraction, 0.2 = 20% bigger
+  minSizeKB: number;      // ignore growth smaller than this in absolute terms
+  slowdown: number;       // fraction, 0.5 = 50% slower
+  minSlowdownMs: number;  // ignore slowdowns smaller than this in absolute terms
+}
+
+export const DEFAULT_DIFF_THRESHOLDS: DiffThresholds = { sizeGrowth: 0.2, minSizeKB: 5, slowdown: 0.5, minSlowdownMs: 200 };
+
+// Most severe first: it decides the highlight colour when a URL changed in several ways
+export const DIFF_KINDS: { id: DiffKind; label: string; color: string }[] = [
+  { id: 'broken', label: 'Newly broken', color: '#f43f5e' },
+  { id: 'removed', label: 'Removed', color: '#94a3b8' },
+  { id: 'status', label: 'Status changed', color: '#f59e0b' },
+  { id: 'added', label: 'Added', color: '#22d3ee' },
+  { id: 'size', label: 'Size regression', color: '#a855f7' },
+  { id: 'slower', label: 'Slower', color: '#3b82f6' }
+];
+
+const isBroken = (status: string) => status.startsWith('4') || status.startsWith('5');
+// Unfetched nodes have no status to compare yet
+const isResolved = (status: string) => /^\d+$/.test(status) || status === 'blocked';
+
+/**
+ * Compares two crawls URL by URL. Merged aliases count as their canonical node, so a URL that was
+ * deduplicated in one run but not the other isn't reported as added/removed.
+ */
+export const diffCrawls = (baseline: LinkNode[], current: LinkNode[], thresholds: DiffThresholds = DEFAULT_DIFF_THRESHOLDS): CrawlDiff => {
+  const index = (nodes: LinkNode[]) => {
+    const byUrl = new Map<string, LinkNode>();
+    for (const node of nodes) {
+      byUrl.set(node.url, node);
+      for (const alias of node.aliases || []) if (!byUrl.has(alias)) byUrl.set(alias, node);
+    }
+    return byUrl;
+  };
+  const before = index(baseline);
+  const after = index(current);
+  const entries: DiffEntry[] = [];
+
+  for (const node of current) {
+    const old = before.get(node.url);
+    const kinds: DiffKind[] = [];
+    if (!old) {
+      kinds.push('added');
+      if (isBroken(node.status)) kinds.push('broken');
+    } else {
+      if (isResolved(old.status) && isResolved(node.status) && old.status !== node.status) kinds.push('status');
+      if (isBroken(node.status) && !isBroken(old.status)) kinds.push('broken');
+      if (old.size && node.size && node.size - old.size >= thresholds.minSizeKB && node.size > old.size * (1 + thresholds.sizeGrowth)) kinds.push('size');
+      if (old.responseTime && node.responseTime && node.responseTime - old.responseTime >= thresholds.minSlowdownMs &&
+          node.responseTime > old.responseTime * (1 + thresholds.slowdown)) kinds.push('slower');
+    }
+    if (kinds.length > 0) entries.push({ url: node.url, kinds, before: old, after: node });
+  }
+
+  for (const node of baseline) {
+    if (!after.has(node.url)) entries.push({ url: node.url, kinds: ['removed'], before: node });
+  }
+
+  const counts = Object.fromEntries(DIFF_KINDS.map(k => [k.id, 0])) as Record<DiffKind, number>;
+  for (const entry of entries) for (const kind of entry.kinds) counts[kind]++;
+
+  const rank = (entry: DiffEntry) => Math.min(...entry.kinds.map(k => DIFF_KINDS.findIndex(d => d.id === k)));
+  entries.sort((a, b) => rank(a) - rank(b) || a.url.localeCompare(b.url));
+  return { entries, counts };
+};
+
+// URL -> the most severe change, for colouring graph nodes
+export const diffHighlights = (diff: CrawlDiff): Map<string, DiffKind> => {
+  const highlights = new Map<string, DiffKind>();
+  for (const entry of diff.entries) {
+    const kind = DIFF_KINDS.find(d => entry.kinds.includes(d.id));
+    if (kind) highlights.set(entry.url, kind.id);
+  }
+  return highlights;
+};
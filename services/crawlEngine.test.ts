@@ -0,0 +1,375 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CrawlStatus, LinkNode } from '../types';
+import { withDefaults } from './crawlConfig';
+import { CrawlEngine, CrawlEngineEvents } from './crawlEngine';
+import { ExtractorError, LinkExtractor, RawResource } from './linkExtractor';
+
+const ORIGIN = 'https://site.test';
+
+// A small in-memory site: page path -> linked paths. /private is disallowed by robots.txt.
+const SITE: Record<string, string[]> = {
+  '/': ['/a', '/b', '/private/secret'],
+  '/a': ['/a/1', '/a/2', '/b'],
+  '/b': ['/broken'],
+  '/a/1': ['/a/1/deep'],
+  '/a/2': [],
+  '/a/1/deep': [],
+  '/private/secret': []
+};
+
+interface FakeOptions {
+  files?: Record<string, string>;      // raw resources by path (robots.txt, sitemaps)
+  fail?: Record<string, ExtractorError>; // extract() throws for these paths
+  delayMs?: number;                      // artificial latency per page
+}
+
+const createFakeExtractor = (options: FakeOptions = {}) => {
+  const extracted: string[] = [];
+  const files = options.files ?? { '/robots.txt': 'User-agent: *\nDisallow: /private' };
+
+  const extractor: LinkExtractor = {
+    id: 'fixture',
+    label: 'Fake',
+    capabilities: { requiresApiKey: false, realNetwork: false, deterministic: true, realStatus: true },
+    extract: async ({ url, depth }) => {
+      const path = new URL(url).pathname;
+      extracted.push(path);
+      if (options.delayMs) await new Promise(resolve => setTimeout(resolve, options.delayMs));
+      if (options.fail?.[path]) throw options.fail[path];
+      const children = SITE[path];
+      if (!children) return { links: [], page: { status: '404' } };
+      const links: LinkNode[] = children.map(child => ({
+        id: `${ORIGIN}${child}`, url: `${ORIGIN}${child}`, title: child, depth: depth + 1,
+        status: child === '/broken' ? '404' : 'pending', type: 'internal', contentType: 'text/html',
+        discoverySource: 'anchor', scanned: false, size: 1
+      }));
+      return { links, page: { status: '200', title: path } };
+    },
+    fetchRaw: async (url): Promise<RawResource> => {
+      const body = files[new URL(url).pathname];
+      return { url, status: body === undefined ? 404 : 200, headers: {}, body: body ?? '' };
+    }
+  };
+  return { extractor, extracted };
+};
+
+const config = (overrides = {}) =>
+  withDefaults({ url: `${ORIGIN}/`, extractor: 'fixture', delay: 0, discoverSitemaps: false, maxDepth: 5, ...overrides });
+
+const finished = (engine: CrawlEngine) =>
+  new Promise<CrawlEngineEvents['finished']>(resolve => engine.on('finished', resolve));
+
+const byPath = (nodes: LinkNode[]) => new Map(nodes.map(n => [new URL(n.url).pathname, n]));
+
+describe('CrawlEngine', () => {
+  it('crawls the whole site and reports completion', async () => {
+    const { extractor, extracted } = createFakeExtractor();
+    const engine = new CrawlEngine(config(), extractor);
+    const discovered: string[] = [];
+    const scanned: string[] = [];
+    const statuses: CrawlStatus[] = [];
+    engine.on('nodeDiscovered', ({ node }) => discovered.push(node.url));
+    engine.on('nodeScanned', ({ node }) => scanned.push(node.url));
+    engine.on('statusChanged', ({ status }) => statuses.push(status));
+
+    const done = finished(engine);
+    await engine.start();
+    const result = await done;
+
+    assert.equal(result.status, CrawlStatus.COMPLETED);
+    assert.deepEqual(statuses, [CrawlStatus.RUNNING, CrawlStatus.COMPLETED]);
+    assert.deepEqual(extracted.sort(), ['/', '/a', '/a/1', '/a/1/deep', '/a/2', '/b', '/broken']);
+    assert.equal(new Set(discovered).size, discovered.length, 'each node is discovered once');
+    assert.equal(scanned.length, extracted.length);
+
+    const nodes = byPath(result.nodes);
+    assert.equal(nodes.get('/a')!.status, '200');
+    assert.equal(nodes.get('/b')!.parentId, `${ORIGIN}/`, 'first discovery wins');
+    assert.equal(nodes.get('/broken')!.status, '404');
+    assert.equal(engine.stats.scannedPages, extracted.length);
+    assert.equal(engine.stats.queuedPages, 0);
+    assert.equal(engine.stats.totalLinks, result.nodes.length);
+  });
+
+  it('keeps robots.txt-disallowed pages as blocked nodes without fetching them', async () => {
+    const { extractor, extracted } = createFakeExtractor();
+    const engine = new CrawlEngine(config(), extractor);
+    const done = finished(engine);
+    await engine.start();
+    const result = await done;
+
+    const secret = byPath(result.nodes).get('/private/secret')!;
+    assert.equal(secret.status, 'blocked');
+    assert.match(secret.errorReason!, /robots\.txt/);
+    assert.ok(!extracted.includes('/private/secret'));
+    assert.ok(byPath(result.nodes).has('/robots.txt'), 'robots.txt becomes a node');
+  });
+
+  it('fetches everything when robots.txt is ignored', async () => {
+    const { extractor, extracted } = createFakeExtractor();
+    const engine = new CrawlEngine(config({ respectRobots: false }), extractor);
+    const done = finished(engine);
+    await engine.start();
+    await done;
+    assert.ok(extracted.includes('/private/secret'));
+  });
+
+  it('respects maxDepth and maxPages', async () => {
+    const shallow = createFakeExtractor();
+    const engine = new CrawlEngine(config({ maxDepth: 1 }), shallow.extractor);
+    let done = finished(engine);
+    await engine.start();
+    await done;
+    assert.deepEqual(shallow.extracted, ['/']);
+
+    const capped = createFakeExtractor();
+    const small = new CrawlEngine(config({ maxPages: 4, concurrency: 1 }), capped.extractor);
+    done = finished(small);
+    await small.start();
+    const result = await done;
+    assert.equal(result.status, CrawlStatus.COMPLETED);
+    // The budget is pages fetched; whatever those pages linked to is still recorded
+    assert.equal(capped.extracted.length, 4);
+    assert.equal(small.stats.scannedPages, 4);
+    assert.ok(result.nodes.length > 4);
+  });
+
+  it('fails instead of stalling when no worker may fetch', async () => {
+    for (const limits of [{ concurrency: 0 }, { perHostConcurrency: 0 }]) {
+      const { extractor, extracted } = createFakeExtractor();
+      const engine = new CrawlEngine(config(limits), extractor);
+      const done = finished(engine);
+      await engine.start();
+      const result = await done;
+      assert.equal(result.status, CrawlStatus.FAILED);
+      assert.equal(extracted.length, 0);
+    }
+  });
+
+  it('records a redirect target once when several fetches land on it at the same time', async () => {
+    // /a and /b both redirect to /t while /t itself is being fetched; /c and /d redirect to the unlinked /u
+    const redirects: Record<string, string> = { '/a': '/t', '/b': '/t', '/c': '/u', '/d': '/u' };
+    const pages: Record<string, string[]> = { '/': ['/a', '/b', '/t', '/c', '/d'], '/t': ['/t/child'], '/u': ['/u/child'] };
+    const extractor: LinkExtractor = {
+      id: 'fixture',
+      label: 'Fake',
+      capabilities: { requiresApiKey: false, realNetwork: false, deterministic: true, realStatus: true },
+      extract: async ({ url, depth }) => {
+        const path = new URL(url).pathname;
+        await new Promise(resolve => setTimeout(resolve, 20));
+        const landed = redirects[path] ?? path;
+        const links: LinkNode[] = (pages[landed] ?? []).map(child => ({
+          id: `${ORIGIN}${child}`, url: `${ORIGIN}${child}`, title: child, depth: depth + 1, status: 'pending',
+          type: 'internal', contentType: 'text/html', discoverySource: 'anchor', scanned: false
+        }));
+        const redirect = redirects[path]
+          ? { redirectChain: [{ url, status: 301 }, { url: `${ORIGIN}${landed}`, status: 200 }], finalUrl: `${ORIGIN}${landed}` }
+          : {};
+        return { links, page: { status: '200', title: landed, ...redirect } };
+      },
+      fetchRaw: async (url): Promise<RawResource> => ({ url, status: 404, headers: {}, body: '' })
+    };
+    const engine = new CrawlEngine(config({ concurrency: 6, perHostConcurrency: 6 }), extractor);
+    const scanned: string[] = [];
+    engine.on('nodeScanned', ({ node }) => scanned.push(new URL(node.url).pathname));
+    const done = finished(engine);
+    await engine.start();
+    assert.equal((await done).status, CrawlStatus.COMPLETED);
+
+    assert.equal(scanned.filter(path => path === '/t').length, 1);
+    assert.equal(scanned.filter(path => path === '/u').length, 1);
+    assert.equal(engine.linksFrom(`${ORIGIN}/t`).length, 1);
+    assert.equal(engine.linksFrom(`${ORIGIN}/u`).length, 1);
+    const nodes = byPath(engine.nodes());
+    assert.equal(nodes.get('/t/child')!.inlinks, 1);
+    assert.equal(nodes.get('/u')!.status, '200');
+    for (const path of ['/a', '/b', '/c', '/d']) {
+      assert.equal(nodes.get(path)!.status, '301');
+      assert.equal(nodes.get(path)!.finalUrl, `${ORIGIN}${redirects[path]}`);
+    }
+  });
+
+  it('marks nodes whose extraction fails and carries on', async () => {
+    const { extractor } = createFakeExtractor({ fail: { '/a': new ExtractorError('Upstream timed out', '500', true) } });
+    const engine = new CrawlEngine(config(), extractor);
+    const errors: string[] = [];
+    engine.on('log', entry => { if (entry.type === 'error') errors.push(entry.message); });
+    const done = finished(engine);
+    await engine.start();
+    const result = await done;
+
+    const nodes = byPath(result.nodes);
+    assert.equal(nodes.get('/a')!.status, '500');
+    assert.equal(nodes.get('/a')!.errorReason, 'Upstream timed out');
+    assert.ok(!nodes.has('/a/1'), 'children of a failed page are never discovered');
+    assert.equal(nodes.get('/b')!.status, '200');
+    assert.ok(errors.includes(`FAILED to scan ${ORIGIN}/a`));
+  });
+
+  it('holds the queue while paused and finishes after resume', async () => {
+    const { extractor, extracted } = createFakeExtractor({ delayMs: 5 });
+    const engine = new CrawlEngine(config({ concurrency: 1 }), extractor);
+    let scans = 0;
+    engine.on('nodeScanned', () => { if (++scans === 1) engine.pause(); });
+    const done = finished(engine);
+    await engine.start();
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.equal(engine.status, CrawlStatus.PAUSED);
+    assert.equal(extracted.length, 1);
+    assert.ok(engine.queued().length > 0);
+    assert.ok(engine.snapshot().queue.length > 0);
+
+    engine.resume();
+    const result = await done;
+    assert.equal(result.status, CrawlStatus.COMPLETED);
+    assert.equal(extracted.length, 7);
+  });
+
+  it('fetches with the extractor swapped in while paused', async () => {
+    const first = createFakeExtractor({ delayMs: 5 });
+    const second = createFakeExtractor({ delayMs: 5 });
+    const engine = new CrawlEngine(config({ concurrency: 1 }), first.extractor);
+    let scans = 0;
+    engine.on('nodeScanned', () => { if (++scans === 1) engine.pause(); });
+    const done = finished(engine);
+    await engine.start();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.equal(engine.status, CrawlStatus.PAUSED);
+
+    engine.setExtractor(second.extractor);
+    engine.resume();
+    assert.equal((await done).status, CrawlStatus.COMPLETED);
+    assert.deepEqual(first.extracted, ['/']);
+    assert.equal(second.extracted.length, 6);
+    assert.ok(!second.extracted.includes('/private/secret'), 'robots.txt is read again through the new extractor');
+  });
+
+  it('emits finished with IDLE when stopped', async () => {
+    const { extractor } = createFakeExtractor({ delayMs: 5 });
+    const engine = new CrawlEngine(config({ concurrency: 1 }), extractor);
+    engine.on('nodeScanned', () => engine.stop());
+    const done = finished(engine);
+    await engine.start();
+    const result = await done;
+    assert.equal(result.status, CrawlStatus.IDLE);
+    assert.equal(engine.status, CrawlStatus.IDLE);
+  });
+
+  it('waits for in-flight pages before finishing a stopped crawl', async () => {
+    const { extractor } = createFakeExtractor({ delayMs: 20 });
+    const engine = new CrawlEngine(config({ concurrency: 3 }), extractor);
+    let finishedAt = -1;
+    const events: string[] = [];
+    engine.on('nodeScanned', ({ node }) => {
+      events.push(node.url);
+      // The root's children are all in flight once it has been scanned
+      if (node.url === `${ORIGIN}/`) setTimeout(() => engine.stop(), 5);
+    });
+    engine.on('finished', () => { finishedAt = events.length; });
+    const done = finished(engine);
+    await engine.start();
+    const result = await done;
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.equal(result.status, CrawlStatus.IDLE);
+    assert.equal(finishedAt, events.length, 'nothing is scanned after finished');
+    assert.ok(events.length > 1, 'the in-flight pages were kept');
+    assert.ok(result.nodes.every(n => n.status !== 'scanning'));
+  });
+
+  it('restores a saved crawl as paused and completes the remaining queue', async () => {
+    const first = createFakeExtractor({ delayMs: 5 });
+    const engine = new CrawlEngine(config({ concurrency: 1 }), first.extractor);
+    engine.on('nodeScanned', () => engine.pause());
+    await engine.start();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const snapshot = engine.snapshot();
+
+    const second = createFakeExtractor();
+    const restored = new CrawlEngine(config({ concurrency: 1 }), second.extractor, {
+      restore: { ...snapshot, stats: engine.stats, status: CrawlStatus.RUNNING }
+    });
+    assert.equal(restored.status, CrawlStatus.PAUSED);
+
+    const done = finished(restored);
+    restored.resume();
+    const result = await done;
+    assert.equal(result.status, CrawlStatus.COMPLETED);
+    assert.ok(!second.extracted.includes('/'), 'already scanned pages are not fetched again');
+    assert.equal(first.extracted.length + second.extracted.length, 7);
+  });
+
+  it('restores a crawl saved with an empty queue as completed, and can start again', async () => {
+    const first = createFakeExtractor();
+    const engine = new CrawlEngine(config(), first.extractor);
+    let done = finished(engine);
+    await engine.start();
+    await done;
+
+    const second = createFakeExtractor();
+    const restored = new CrawlEngine(config(), second.extractor, {
+      restore: { ...engine.snapshot(), stats: engine.stats, status: CrawlStatus.RUNNING }
+    });
+    assert.equal(restored.status, CrawlStatus.COMPLETED);
+
+    done = finished(restored);
+    await restored.start();
+    const result = await done;
+    assert.equal(result.status, CrawlStatus.COMPLETED);
+    assert.equal(second.extracted.length, 7);
+  });
+
+  it('seeds the queue from sitemaps and reports unlinked entries', async () => {
+    const { extractor, extracted } = createFakeExtractor({
+      files: {
+        '/robots.txt': `User-agent: *\nDisallow: /private\nSitemap: ${ORIGIN}/sitemap.xml`,
+        '/sitemap.xml': `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"><url><loc>${ORIGIN}/a</loc></url><url><loc>${ORIGIN}/hidden</loc></url></urlset>`
+      }
+    });
+    const engine = new CrawlEngine(config({ discoverSitemaps: true }), extractor);
+    const done = finished(engine);
+    await engine.start();
+    const result = await done;
+
+    assert.ok(extracted.includes('/hidden'), 'sitemap-only pages are crawled');
+    assert.equal(byPath(result.nodes).get('/hidden')!.discoverySource, 'sitemap');
+    assert.deepEqual(result.sitemapReport!.inSitemapNotLinked, [`${ORIGIN}/hidden`]);
+  });
+
+  it('records every link with inlink metrics and finds orphans and dead ends', async () => {
+    const { extractor } = createFakeExtractor({
+      files: {
+        '/robots.txt': `User-agent: *\nSitemap: ${ORIGIN}/sitemap.xml`,
+        '/sitemap.xml': `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"><url><loc>${ORIGIN}/hidden</loc></url></urlset>`
+      }
+    });
+    const engine = new CrawlEngine(config({ discoverSitemaps: true }), extractor);
+    const done = finished(engine);
+    await engine.start();
+    await done;
+
+    const linksToB = engine.linksTo(`${ORIGIN}/b`).map(e => e.source);
+    assert.deepEqual(linksToB.sort(), [`${ORIGIN}/`, `${ORIGIN}/a`]);
+    const nodes = byPath(engine.nodes());
+    assert.equal(nodes.get('/b')!.inlinks, 2);
+    assert.equal(nodes.get('/a')!.outlinks, 3);
+    assert.equal(Math.max(...engine.nodes().map(n => n.pageRank ?? 0)), 100);
+    assert.ok(nodes.get('/b')!.pageRank! > nodes.get('/a/2')!.pageRank!, 'a page linked twice outranks one linked once');
+
+    const report = engine.analyzeStructure();
+    const urls = (issue: string) => report.findings.filter(f => f.issue === issue).map(f => new URL(f.url).pathname).sort();
+    assert.deepEqual(urls('orphan'), ['/hidden']);
+    assert.deepEqual(urls('dead-end'), ['/a/1/deep', '/a/2', '/private/secret']);
+    assert.equal(report.findings.find(f => f.url === `${ORIGIN}/b`), undefined);
+  });
+
+  it('stays idle on an invalid seed URL', async () => {
+    const { extractor, extracted } = createFakeExtractor();
+    const engine = new CrawlEngine(config({ url: 'not a url' }), extractor);
+    await engine.start();
+    assert.equal(engine.status, CrawlStatus.IDLE);
+    assert.equal(extracted.length, 0);
+  });
+});
@@ -0,0 +1,504 @@
+import { CrawlConfig, CrawlStats, CrawlStatus, CrawlWorker, LinkEdge, LinkNode, LogEntry, ScanStage, SitemapReport } from "../types";
+import { createCrawlFrontier, CrawlFrontier, FrontierSnapshot } from "./crawlFrontier";
+import { guessContentType } from "./contentType";
+import { LinkExtractor, toExtractorError } from "./linkExtractor";
+import { createRobotsCache, getCrawlDelay, isAllowed, parseRobots, RobotsCache, RobotsEntry } from "./robots";
+import { collectSitemaps, reconcileSitemap, SitemapFile } from "./sitemap";
+import { analyzeStructure, StructureReport } from "./siteStructure";
+import { normalizeUrl } from "./urlNormalize";
+
+export interface CrawlEngineEvents {
+  nodeDiscovered: { node: LinkNode };
+  nodeScanned: { node: LinkNode; links: number; edges: LinkEdge[]; usedKeyIndex?: number };
+  stageChanged: { stage: ScanStage };
+  statusChanged: { status: CrawlStatus };
+  workersChanged: { workers: CrawlWorker[] };
+  log: LogEntry;
+  statsUpdated: { stats: CrawlStats };
+  finished: { status: CrawlStatus; nodes: LinkNode[]; sitemapReport: SitemapReport | null };
+}
+
+export type CrawlEngineEvent = keyof CrawlEngineEvents;
+type Listener<K extends CrawlEngineEvent> = (payload: CrawlEngineEvents[K]) => void;
+
+export interface CrawlEngineOptions {
+  // Resume an earlier crawl (a saved session) instead of starting from the seed URL
+  restore?: Partial<FrontierSnapshot> & { stats?: CrawlStats; status?: CrawlStatus };
+}
+
+const emptyStats = (startTime: number): CrawlStats => ({
+  totalLinks: 0, scannedPages: 0, queuedPages: 0, errors: 0, assetsFound: 0, totalSizeKB: 0, startTime, depthReached: 0
+});
+
+/**
+ * The crawler, independent of any UI: worker pool, per-host politeness, robots.txt, sitemap seeding,
+ * redirects and canonical merging. Drive it with start/pause/resume/stop and listen to its events;
+ * the React app and the CLI are both just subscribers.
+ */
+export class CrawlEngine {
+  private config: CrawlConfig;
+  private extractor: LinkExtractor;
+  private frontier: CrawlFrontier;
+  private robots: RobotsCache | null = null;
+  private listeners = new Map<CrawlEngineEvent, Set<Listener<any>>>();
+  private slots: (string | null)[] = []; // URL each worker is fetching, null when idle
+  private pumpTimer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private paused = false;
+  private stopping = false; // stopped with requests still in flight; finish() waits for them
+  private logCount = 0;
+  private currentStatus: CrawlStatus = CrawlStatus.IDLE;
+  private currentStats: CrawlStats;
+  private report: SitemapReport | null = null;
+
+  constructor(config: CrawlConfig, extractor: LinkExtractor, options: CrawlEngineOptions = {}) {
+    this.config = config;
+    this.extractor = extractor;
+    const { restore } = options;
+    this.frontier = this.createFrontier(restore);
+    this.currentStats = restore?.stats ? { ...restore.stats, queuedPages: this.frontier.queued().length } : emptyStats(0);
+    // A restored crawl with work left comes back paused, ready to resume; with nothing queued it was done
+    if (restore?.status === CrawlStatus.RUNNING || restore?.status === CrawlStatus.PAUSED) {
+      if (this.frontier.queued().length > 0) {
+        this.running = true;
+        this.paused = true;
+        this.currentStatus = CrawlStatus.PAUSED;
+      } else this.currentStatus = CrawlStatus.COMPLETED;
+    } else if (restore?.status) this.currentStatus = restore.status;
+  }
+
+  on<K extends CrawlEngineEvent>(event: K, listener: Listener<K>): () => void {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(listener);
+    return () => { this.listeners.get(event)?.delete(listener); };
+  }
+
+  get status(): CrawlStatus { return this.currentStatus; }
+  get stats(): CrawlStats { return this.currentStats; }
+  get sitemapReport(): SitemapReport | null { return this.report; }
+  nodes(): LinkNode[] { return this.frontier.nodes(); }
+  queued(): LinkNode[] { return this.frontier.queued(); }
+  edges(): LinkEdge[] { return this.frontier.edges(); }
+  linksTo(url: string): LinkEdge[] { return this.frontier.linksTo(url); }
+  linksFrom(url: string): LinkEdge[] { return this.frontier.linksFrom(url); }
+  snapshot(): FrontierSnapshot { return this.frontier.snapshot(); }
+
+  // Orphans, dead ends and click depth over everything crawled so far; meant for a paused or finished crawl
+  analyzeStructure(): StructureReport {
+    return analyzeStructure(this.frontier.nodes(), this.frontier.edges(), {
+      rootUrl: this.frontier.key(this.config.url) ?? this.config.url,
+      sitemapUrls: this.frontier.sitemapUrls
+    });
+  }
+
+  // Settings edited while paused apply to everything dispatched afterwards
+  setConfig(config: CrawlConfig) {
+    this.config = config;
+  }
+
+  // Same for provider options baked into the extractor (includeAssets...); in-flight pages keep the old one
+  setExtractor(extractor: LinkExtractor) {
+    if (extractor === this.extractor) return;
+    this.extractor = extractor;
+    // The robots cache fetches through the old provider; resume() builds a new one
+    this.robots = null;
+  }
+
+  async start(): Promise<void> {
+    if (this.currentStatus === CrawlStatus.RUNNING || this.stopping) return;
+    const rootUrl = normalizeUrl(this.config.url, undefined, { trackingParams: this.config.trackingParams });
+    if (!rootUrl) {
+      this.log(`Invalid target URL: ${this.config.url}`, 'error');
+      return;
+    }
+
+    this.frontier = this.createFrontier();
+    this.frontier.linkedUrls.add(rootUrl); // the seed is the entry point, it counts as linked
+    this.slots = [];
+    this.report = null;
+    this.running = true;
+    this.paused = false;
+    this.setStatus(CrawlStatus.RUNNING);
+    this.setStage('INIT');
+    this.updateStats({ ...emptyStats(Date.now()), totalLinks: 1, queuedPages: 1 });
+    this.emitWorkers();
+
+    this.log(`INITIALIZING RECURSIVE ENGINE: ${this.config.url}`, 'system', `Provider: ${this.extractor.label}`);
+    const fetchRaw = this.extractor.fetchRaw;
+    this.robots = this.config.respectRobots && fetchRaw ? createRobotsCache(url => fetchRaw(url), entry => this.handleRobotsFetched(entry)) : null;
+    if (this.config.respectRobots && !fetchRaw) {
+      this.log(`robots.txt unavailable with the ${this.extractor.label} provider. Crawling unrestricted.`, 'warning');
+    }
+
+    const rootNode: LinkNode = {
+      id: rootUrl, url: rootUrl, depth: 0, type: 'internal',
+      status: 'pending', contentType: 'text/html', discoverySource: 'anchor',
+      title: 'Root', scanned: false
+    };
+    this.addNode(rootNode);
+    if (await this.admitToQueue(rootNode)) this.frontier.enqueue(rootNode);
+    else this.frontier.update(rootNode);
+
+    if (this.config.discoverSitemaps) await this.discoverSitemaps();
+    if (!this.running) return; // stopped while seeding
+    this.pump();
+  }
+
+  pause() {
+    if (this.currentStatus !== CrawlStatus.RUNNING) return;
+    this.paused = true;
+    this.frontier.scoreLinks();
+    this.setStatus(CrawlStatus.PAUSED);
+    const inFlight = this.slots.filter(Boolean).length;
+    this.log(`CRAWL PAUSED. ${this.frontier.queued().length} URLs held in queue.`, 'warning', inFlight > 0 ? `${inFlight} in-flight request(s) will finish first` : undefined);
+  }
+
+  resume() {
+    if (this.currentStatus !== CrawlStatus.PAUSED) return;
+    this.paused = false;
+    this.running = true;
+    // Restored crawls come back without a robots cache; build it against the current config
+    const fetchRaw = this.extractor.fetchRaw;
+    if (!this.robots && this.config.respectRobots && fetchRaw) this.robots = createRobotsCache(url => fetchRaw(url), entry => this.handleRobotsFetched(entry));
+    this.setStatus(CrawlStatus.RUNNING);
+    this.log(`CRAWL RESUMED: ${this.frontier.queued().length} queued, ${this.frontier.visitedCount()} visited.`, 'system',
+      `Workers: ${this.config.concurrency} (${this.config.perHostConcurrency}/host) | Delay: ${this.config.delay}ms`);
+    // Workers still mid-request carry on; free slots are filled with the current config
+    this.pump();
+  }
+
+  stop() {
+    if (this.currentStatus !== CrawlStatus.RUNNING && this.currentStatus !== CrawlStatus.PAUSED) return;
+    this.paused = false;
+    this.running = false;
+    this.clearPumpTimer();
+    this.setStatus(CrawlStatus.IDLE);
+    const inFlight = this.slots.filter(Boolean).length;
+    this.log("CRAWL ABORTED BY USER.", 'warning', inFlight > 0 ? `Waiting for ${inFlight} in-flight request(s)` : undefined);
+    // Pages still being fetched land in the frontier first, so the finished crawl is a consistent snapshot
+    if (inFlight > 0) this.stopping = true;
+    else this.finish();
+  }
+
+  // --- internals ---
+
+  private emit<K extends CrawlEngineEvent>(event: K, payload: CrawlEngineEvents[K]) {
+    this.listeners.get(event)?.forEach(listener => listener(payload));
+  }
+
+  private log(message: string, type: LogEntry['type'] = 'info', details?: string) {
+    this.emit('log', { id: `${Date.now().toString(36)}-${this.logCount++}`, timestamp: new Date().toLocaleTimeString(), message, type, details });
+  }
+
+  private setStatus(status: CrawlStatus) {
+    this.currentStatus = status;
+    this.emit('statusChanged', { status });
+  }
+
+  private setStage(stage: ScanStage) {
+    this.emit('stageChanged', { stage });
+  }
+
+  private updateStats(stats: CrawlStats) {
+    this.currentStats = stats;
+    this.emit('statsUpdated', { stats });
+  }
+
+  private emitWorkers() {
+    this.emit('workersChanged', {
+      workers: Array.from({ length: Math.max(this.config.concurrency, this.slots.length) }, (_, id) => ({ id, url: this.slots[id] || null }))
+    });
+  }
+
+  private createFrontier(restore?: Partial<FrontierSnapshot>) {
+    return createCrawlFrontier({ getConfig: () => this.config, log: (message, type, details) => this.log(message, type, details) }, restore);
+  }
+
+  private addNode(node: LinkNode) {
+    this.frontier.add(node);
+    this.emit('nodeDiscovered', { node });
+  }
+
+  private clearPumpTimer() {
+    if (this.pumpTimer) {
+      clearTimeout(this.pumpTimer);
+      this.pumpTimer = null;
+    }
+  }
+
+  // Robots gate for the queue: disallowed URLs are kept as "blocked" nodes but never fetched
+  private async admitToQueue(node: LinkNode): Promise<boolean> {
+    if (!this.robots) return true;
+    this.setStage('ROBOTS');
+    const verdict = isAllowed((await this.robots.get(node.url)).robots, node.url);
+    if (verdict.allowed) return true;
+
+    node.status = 'blocked';
+    node.errorReason = `Blocked by robots.txt (${verdict.rule})`;
+    this.log(`BLOCKED BY ROBOTS: ${node.url}`, 'warning', verdict.rule);
+    return false;
+  }
+
+  // Crawl-delay from robots.txt wins over the configured delay for that host
+  private async getHostDelay(url: string): Promise<number> {
+    if (!this.robots) return this.config.delay;
+    const crawlDelay = getCrawlDelay((await this.robots.get(url)).robots);
+    return crawlDelay !== undefined ? crawlDelay * 1000 : this.config.delay;
+  }
+
+  // Finds sitemaps (robots.txt + /sitemap.xml), follows index files and seeds the queue with what they list
+  private async discoverSitemaps() {
+    const fetchRaw = this.extractor.fetchRaw;
+    if (!fetchRaw) {
+      this.log(`Sitemap discovery unavailable with the ${this.extractor.label} provider.`, 'warning');
+      return;
+    }
+
+    const origin = new URL(this.config.url).origin;
+    let robotsSitemaps: string[] = [];
+    if (this.robots) {
+      robotsSitemaps = (await this.robots.get(this.config.url)).robots.sitemaps;
+    } else {
+      // Not enforcing robots.txt, but its Sitemap lines are still the best hint we have
+      try {
+        const res = await fetchRaw(`${origin}/robots.txt`);
+        if (res.status >= 200 && res.status < 300) robotsSitemaps = parseRobots(res.body, `${origin}/robots.txt`).sitemaps;
+      } catch {
+        // no robots.txt, fall back to the conventional location only
+      }
+    }
+
+    const seeds = [...new Set([...robotsSitemaps, `${origin}/sitemap.xml`])];
+    const { files, entries } = await collectSitemaps(seeds, url => fetchRaw(url), { onFile: file => this.handleSitemapFile(file) });
+    const locs = entries.flatMap(entry => {
+      const loc = this.frontier.key(entry.loc);
+      return loc ? [{ ...entry, loc }] : [];
+    });
+    locs.forEach(entry => this.frontier.sitemapUrls.add(entry.loc));
+    this.log(`SITEMAPS: ${entries.length} URLs declared`, entries.length > 0 ? 'system' : 'warning',
+      `Files: ${files.filter(f => f.kind !== 'invalid').length}/${files.length} | Index files: ${files.filter(f => f.kind === 'index').length}`);
+
+    // Sitemap seeds share the page budget with discovered links, so keep room for the crawl itself
+    const budget = Math.floor(this.config.maxPages / 2);
+    const rootHost = new URL(this.config.url).host;
+    let seeded = 0;
+    for (const entry of locs) {
+      if (seeded >= budget) break;
+      if (this.frontier.has(entry.loc)) continue;
+      const node: LinkNode = {
+        id: entry.loc, url: entry.loc, title: entry.loc.split('/').filter(Boolean).pop() || entry.loc,
+        depth: 1, parentId: entry.sitemap, status: 'pending',
+        type: new URL(entry.loc).host === rootHost ? 'internal' : 'external',
+        contentType: guessContentType(entry.loc), discoverySource: 'sitemap', detectedTech: [], scanned: false
+      };
+      this.addNode(node);
+      seeded++;
+      if (this.frontier.isQueueable(node) && await this.admitToQueue(node)) this.frontier.enqueue(node);
+    }
+    if (locs.length > seeded) this.log(`SITEMAPS: ${locs.length - seeded} URLs not seeded (page budget)`, 'info');
+    this.updateStats({ ...this.currentStats, totalLinks: this.frontier.nodes().length, queuedPages: this.frontier.queued().length });
+  }
+
+  // Each fetched sitemap file becomes a node; robots.txt may already have registered it as pending
+  private handleSitemapFile(file: SitemapFile) {
+    const existing = this.frontier.get(file.url);
+    if (existing) {
+      existing.status = file.status ? `${file.status}` : '500';
+      existing.scanned = true;
+      this.frontier.update(existing);
+      return;
+    }
+    // A guessed /sitemap.xml that doesn't exist isn't worth a broken node
+    if (file.status !== 200 && !file.parent) {
+      this.log(`No sitemap at ${file.url} (${file.status || 'unreachable'})`, 'info');
+      return;
+    }
+    this.addNode({
+      id: file.url, url: file.url, title: file.kind === 'index' ? 'Sitemap Index' : 'Sitemap',
+      depth: 1, parentId: file.parent || this.config.url, status: file.status ? `${file.status}` : '500',
+      type: 'resource', contentType: 'other', discoverySource: 'sitemap', detectedTech: [], scanned: true,
+      errorReason: file.kind === 'invalid' && file.status === 200 ? 'Not a valid sitemap document' : undefined
+    });
+  }
+
+  // Adds the robots.txt file and every Sitemap it declares to the graph, once per host
+  private handleRobotsFetched(entry: RobotsEntry) {
+    const { robots, robotsUrl } = entry;
+    const delay = getCrawlDelay(robots);
+    this.log(`ROBOTS: ${robotsUrl} (${entry.status || 'unreachable'})`, entry.status >= 200 && entry.status < 500 ? 'system' : 'warning',
+      `Groups: ${robots.groups.length} | Crawl-delay: ${delay !== undefined ? `${delay}s` : 'none'} | Sitemaps: ${robots.sitemaps.length}`);
+
+    if (this.frontier.has(robotsUrl)) return;
+    this.addNode({
+      id: robotsUrl, url: robotsUrl, title: 'robots.txt', depth: 1, parentId: this.config.url,
+      status: entry.status ? `${entry.status}` : '500', type: 'resource', contentType: 'other',
+      discoverySource: 'robots_txt', detectedTech: [], scanned: true,
+      errorReason: entry.status ? undefined : 'robots.txt unreachable, treating host as fully disallowed'
+    });
+
+    const rootHost = new URL(this.config.url).host;
+    for (const sitemapUrl of robots.sitemaps) {
+      if (this.frontier.has(sitemapUrl)) continue;
+      this.addNode({
+        id: sitemapUrl, url: sitemapUrl, title: 'Sitemap', depth: 2, parentId: robotsUrl,
+        status: 'pending', type: new URL(sitemapUrl).host === rootHost ? 'internal' : 'external', contentType: 'other',
+        discoverySource: 'robots_txt', detectedTech: [], scanned: false
+      });
+    }
+  }
+
+  // Fills free worker slots with the first queued pages whose host has spare capacity and has waited out its delay
+  private pump() {
+    // Paused: leave everything where it is, in-flight pages finish and resume() pumps again
+    if (this.paused) return;
+    this.clearPumpTimer();
+
+    const { frontier, slots, config } = this;
+    // maxPages budgets fetches (finished, failed or in flight), not everything discovered
+    const inFlight = slots.filter(Boolean).length;
+    const budget = config.maxPages - this.currentStats.scannedPages - inFlight;
+    const canDispatch = this.running && budget > 0;
+    if (canDispatch) {
+      const now = Date.now();
+      let free = Math.min(config.concurrency - inFlight, budget);
+      while (free > 0) {
+        const node = frontier.takeNext(now);
+        if (!node) break;
+        let slot = slots.findIndex(url => !url);
+        if (slot === -1) slot = slots.length;
+        slots[slot] = node.url;
+        free--;
+        this.scanPage(node, slot);
+      }
+
+      // Everything left is waiting on a host delay: wake up when the earliest one clears
+      const wait = free > 0 ? frontier.nextWakeIn(now) : null;
+      if (wait !== null) this.pumpTimer = setTimeout(() => this.pump(), Math.max(50, wait));
+    }
+
+    this.emitWorkers();
+    this.updateStats({ ...this.currentStats, queuedPages: frontier.queued().length });
+
+    // Pages queued, none in flight and no wake-up coming: a zero worker or per-host limit can never dispatch them
+    if (this.running && !slots.some(Boolean) && canDispatch && frontier.queued().length > 0 && !this.pumpTimer) {
+      this.running = false;
+      this.setStatus(CrawlStatus.FAILED);
+      this.log(`CRAWL STALLED: ${frontier.queued().length} URLs queued but none can be fetched.`, 'error',
+        `Workers: ${config.concurrency} | Per host: ${config.perHostConcurrency}; both need to be at least 1`);
+      this.finish();
+      return;
+    }
+
+    // Nothing in flight and nothing more to dispatch: the crawl is over
+    if (this.running && !slots.some(Boolean) && (!canDispatch || frontier.queued().length === 0)) {
+      this.running = false;
+      this.setStatus(CrawlStatus.COMPLETED);
+      this.log("RECURSIVE CRAWL COMPLETED.", 'success');
+      this.finish();
+    }
+  }
+
+  private async scanPage(currentNode: LinkNode, slot: number) {
+    const { extractor, frontier } = this;
+
+    this.setStage('DOM_PARSE');
+    currentNode.status = 'scanning';
+    frontier.update(currentNode);
+    this.log(`SCANNING: ${currentNode.url}`, 'info', `Worker #${slot + 1} | Provider: ${extractor.label}`);
+
+    try {
+      // Space requests to the same host by the configured delay, or the host's Crawl-delay
+      frontier.setHostDelay(currentNode.url, await this.getHostDelay(currentNode.url));
+
+      const { links: children, page, usedKeyIndex, rejected, edges } = await extractor.extract({
+        url: currentNode.url,
+        rootUrl: this.config.url,
+        depth: currentNode.depth
+      });
+
+      if (rejected && rejected.length > 0) {
+        const dropped = rejected.filter(r => r.action === 'dropped').length;
+        this.log(`FILTERED: ${dropped} dropped, ${rejected.length - dropped} reclassified on ${currentNode.url}`, 'warning',
+          rejected.map(r => `${r.action === 'dropped' ? '✖' : '↻'} ${r.url} — ${r.reason}`).join('\n'));
+      }
+
+      // The fetched document belongs to wherever the redirects ended; null when there's nothing left to record
+      const pageNode = page?.redirectChain ? frontier.resolveRedirectTarget(currentNode, page) : currentNode;
+      const { redirectChain, finalUrl, redirectIssue, ...facts } = page || {};
+      const pageFacts = pageNode === currentNode ? page : facts;
+
+      // A page whose canonical points at a URL we already hold is a duplicate: fold it in, don't follow it
+      const canonicalOwner = pageNode && page?.canonical ? frontier.claimCanonical(pageNode, page.canonical) : undefined;
+
+      const added = pageNode && !canonicalOwner ? await frontier.ingestLinks(pageNode, children, node => this.admitToQueue(node)) : [];
+      // Providers that don't read the markup report each URL once and no rel, so every link counts as followed
+      const pageEdges = pageNode && !canonicalOwner
+        ? frontier.recordEdges(pageNode, edges ?? children.map((c, position) => ({
+            source: pageNode.url, target: c.url, text: c.title, rel: [], discoverySource: c.discoverySource ?? 'anchor', position
+          })))
+        : [];
+      for (const child of added) {
+        this.emit('nodeDiscovered', { node: child });
+        if (child.status.startsWith('4')) this.log(`BROKEN LINK: ${child.url}`, 'error');
+      }
+
+      if (pageNode) {
+        Object.assign(pageNode, pageFacts);
+        if (page?.canonical) pageNode.canonical = frontier.key(page.canonical, pageNode.url) ?? page.canonical;
+        if (canonicalOwner) frontier.mergeIntoCanonical(pageNode, canonicalOwner);
+        if (!page?.status) pageNode.status = '200';
+        pageNode.scanned = true;
+        frontier.update(pageNode);
+        if (pageNode.status.startsWith('4') || pageNode.status.startsWith('5')) this.log(`BROKEN PAGE: ${pageNode.url} (${pageNode.status})`, 'error');
+      }
+
+      const all = frontier.nodes();
+      const prev = this.currentStats;
+      this.updateStats({
+        ...prev,
+        totalLinks: all.length,
+        scannedPages: prev.scannedPages + 1,
+        queuedPages: frontier.queued().length,
+        errors: all.filter(n => n.status.startsWith('4')).length,
+        assetsFound: all.filter(n => n.type === 'resource').length,
+        depthReached: Math.max(prev.depthReached, currentNode.depth),
+        totalSizeKB: prev.totalSizeKB + children.reduce((acc, c) => acc + (c.size || 0), 0)
+      });
+      this.emit('nodeScanned', { node: pageNode ?? currentNode, links: added.length, edges: pageEdges, usedKeyIndex });
+
+      if (added.length > 0) this.log(`EXTRACTED: ${added.length} links`, 'success');
+
+    } catch (err: any) {
+      const error = toExtractorError(err);
+      this.log(`FAILED to scan ${currentNode.url}`, 'error', `${extractor.label} | Status: ${error.status} | ${error.message}`);
+
+      currentNode.status = error.status;
+      currentNode.errorReason = error.message;
+      frontier.update(currentNode);
+      // A failed fetch still spends one page of the maxPages budget
+      this.updateStats({ ...this.currentStats, scannedPages: this.currentStats.scannedPages + 1 });
+      this.emit('nodeScanned', { node: currentNode, links: 0, edges: [] });
+    } finally {
+      frontier.release(currentNode.url);
+      this.slots[slot] = null;
+      this.emitWorkers();
+      if (this.stopping && !this.slots.some(Boolean)) {
+        this.stopping = false;
+        this.finish();
+      } else {
+        // Let the current scan's listeners run before the next dispatch round
+        setTimeout(() => this.pump(), 0);
+      }
+    }
+  }
+
+  private finish() {
+    this.setStage('FINALIZE');
+    this.frontier.scoreLinks();
+    if (this.frontier.sitemapUrls.size > 0) {
+      this.report = reconcileSitemap(this.frontier.sitemapUrls, this.frontier.linkedUrls, this.frontier.nodes());
+      this.log(`SITEMAP AUDIT: ${this.report.inSitemapNotLinked.length} unlinked, ${this.report.linkedNotInSitemap.length} missing from sitemap`, 'info');
+    }
+    this.emit('finished', { status: this.currentStatus, nodes: this.frontier.nodes(), sitemapReport: this.report });
+  }
+}
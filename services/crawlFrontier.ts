@@ -0,0 +1,322 @@
+import { CrawlConfig, LinkEdge, LinkNode, LogEntry } from "../types";
+import { evaluateScope } from "./crawlScope";
+import { computePageRank } from "./siteStructure";
+import { normalizeUrl } from "./urlNormalize";
+
+export interface FrontierOptions {
+  // Read on every call, so edits made while a crawl is paused take effect on resume
+  getConfig: () => CrawlConfig;
+  log?: (message: string, type: LogEntry['type'], details?: string) => void;
+}
+
+// Everything needed to rebuild a frontier, in the shape sessions persist it
+export interface FrontierSnapshot {
+  nodes: LinkNode[];
+  queue: string[];
+  visited: string[];
+  sitemapUrls: string[];
+  linkedUrls: string[];
+  canonicalOwners: Record<string, string>;
+  edges: LinkEdge[];
+}
+
+interface HostState {
+  active: number;  // requests in flight
+  nextAt: number;  // earliest time the next request may start
+}
+
+export interface CrawlFrontier {
+  key(url: string, base?: string): string | null;
+  nodes(): LinkNode[];
+  get(url: string): LinkNode | undefined;
+  has(url: string): boolean;
+  visitedCount(): number;
+  add(node: LinkNode): void;
+  update(node: LinkNode): void;
+  enqueue(node: LinkNode): void;
+  queued(): LinkNode[];
+  isQueueable(node: LinkNode): boolean;
+  takeNext(now: number): LinkNode | null;
+  nextWakeIn(now: number): number | null;
+  setHostDelay(url: string, delayMs: number): void;
+  release(url: string): void;
+  ingestLinks(page: LinkNode, children: LinkNode[], admit: (node: LinkNode) => Promise<boolean>): Promise<LinkNode[]>;
+  recordEdges(page: LinkNode, edges: LinkEdge[]): LinkEdge[];
+  edges(): LinkEdge[];
+  linksTo(url: string): LinkEdge[];
+  linksFrom(url: string): LinkEdge[];
+  scoreLinks(): void;
+  resolveRedirectTarget(node: LinkNode, page: Partial<LinkNode>): LinkNode | null;
+  claimCanonical(node: LinkNode, canonical: string): string | undefined;
+  mergeIntoCanonical(duplicate: LinkNode, ownerUrl: string): void;
+  sitemapUrls: Set<string>;
+  linkedUrls: Set<string>;
+  snapshot(): FrontierSnapshot;
+}
+
+/**
+ * Crawl bookkeeping without any UI: the node list, the queue, the visited set, canonical owners and
+ * per-host politeness. The browser crawler and the CLI both drive their loops through this.
+ */
+export const createCrawlFrontier = (options: FrontierOptions, restore?: Partial<FrontierSnapshot>): CrawlFrontier => {
+  const { getConfig } = options;
+  const log = options.log ?? (() => {});
+
+  let nodes: LinkNode[] = restore?.nodes ? [...restore.nodes] : [];
+  let positions = new Map<string, number>(); // node id -> index in `nodes`
+  const reindex = () => { positions = new Map(nodes.map((n, i) => [n.id, i])); };
+  reindex();
+
+  const byUrl = new Map(nodes.map(n => [n.url, n]));
+  let queue: LinkNode[] = (restore?.queue ?? []).map(url => byUrl.get(url)).filter((n): n is LinkNode => !!n);
+  const visited = new Set<string>(restore?.visited ?? []);
+  const sitemapUrls = new Set<string>(restore?.sitemapUrls ?? []);
+  const linkedUrls = new Set<string>(restore?.linkedUrls ?? []);
+  const canonicalOwners = new Map<string, string>(Object.entries(restore?.canonicalOwners ?? {}));
+  let edges: LinkEdge[] = restore?.edges ? [...restore.edges] : [];
+  let inbound = new Map<string, LinkEdge[]>();  // target -> edges pointing at it
+  let outbound = new Map<string, LinkEdge[]>(); // source -> edges on that page
+  const indexEdge = (edge: LinkEdge) => {
+    if (inbound.has(edge.target)) inbound.get(edge.target)!.push(edge);
+    else inbound.set(edge.target, [edge]);
+    if (outbound.has(edge.source)) outbound.get(edge.source)!.push(edge);
+    else outbound.set(edge.source, [edge]);
+  };
+  const reindexEdges = () => {
+    inbound = new Map();
+    outbound = new Map();
+    edges.forEach(indexEdge);
+  };
+  reindexEdges();
+  const ranks = new Map(nodes.filter(n => n.pageRank !== undefined).map(n => [n.url, n.pageRank!]));
+  const hosts = new Map<string, HostState>();
+
+  // Every URL is keyed by its normalized form, so /Page?utm_source=x and /page land on the same node
+  const key = (url: string, base?: string) => normalizeUrl(url, base, { trackingParams: getConfig().trackingParams });
+
+  const get = (url: string) => {
+    const index = positions.get(url);
+    return index === undefined ? undefined : nodes[index];
+  };
+
+  const add = (node: LinkNode) => {
+    visited.add(node.url);
+    positions.set(node.id, nodes.length);
+    nodes.push(node);
+  };
+
+  // Stored as a copy so views holding the previous object see a new identity. Link metrics come from the
+  // edge index, never from the caller: a worker's copy of a node goes stale while other pages link to it.
+  const update = (node: LinkNode) => {
+    const index = positions.get(node.id);
+    if (index === undefined) return;
+    nodes[index] = {
+      ...node,
+      inlinks: inbound.get(node.url)?.length ?? 0,
+      outlinks: outbound.get(node.url)?.length ?? 0,
+      pageRank: ranks.get(node.url)
+    };
+  };
+
+  const hostOf = (url: string) => {
+    const host = new URL(url).host;
+    let state = hosts.get(host);
+    if (!state) {
+      state = { active: 0, nextAt: 0 };
+      hosts.set(host, state);
+    }
+    return state;
+  };
+
+  // Scope gate: pages outside the configured scope stay in the graph but are never fetched
+  const isQueueable = (node: LinkNode): boolean => {
+    if (node.type === 'resource' || node.contentType !== 'text/html') return false;
+    const config = getConfig();
+    const verdict = evaluateScope(node.url, config.url, config.scope, config.scopeRules);
+    if (!verdict.inScope) node.outOfScope = verdict.reason;
+    return verdict.inScope;
+  };
+
+  // First queued page whose host has spare capacity and has waited out its delay; too-deep pages are dropped
+  const takeNext = (now: number): LinkNode | null => {
+    const config = getConfig();
+    queue = queue.filter(n => n.depth < config.maxDepth);
+    const index = queue.findIndex(n => {
+      const host = hostOf(n.url);
+      return host.active < config.perHostConcurrency && host.nextAt <= now;
+    });
+    if (index === -1) return null;
+    const [node] = queue.splice(index, 1);
+    const host = hostOf(node.url);
+    host.active++;
+    host.nextAt = now + config.delay; // provisional, setHostDelay corrects it once robots.txt is known
+    return node;
+  };
+
+  // How long until some queued page's host clears its delay; null when nothing is merely waiting
+  const nextWakeIn = (now: number): number | null => {
+    const { perHostConcurrency } = getConfig();
+    const waits = queue.map(n => hostOf(n.url)).filter(h => h.active < perHostConcurrency).map(h => h.nextAt - now);
+    return waits.length > 0 ? Math.min(...waits) : null;
+  };
+
+  // Registers the page's canonical target and returns the node it duplicates, if another one already owns it
+  const claimCanonical = (node: LinkNode, canonical: string): string | undefined => {
+    const target = key(canonical, node.url);
+    if (!target || target === node.url) return undefined;
+    const owner = canonicalOwners.get(target) ?? (positions.has(target) ? target : undefined);
+    if (owner && owner !== node.url) return owner;
+    canonicalOwners.set(target, node.url);
+    return undefined;
+  };
+
+  const mergeIntoCanonical = (duplicate: LinkNode, ownerUrl: string) => {
+    const owner = get(ownerUrl);
+    if (!owner) return;
+    nodes = nodes.filter(n => n.id !== duplicate.id);
+    reindex();
+    owner.aliases = [...new Set([...(owner.aliases || []), duplicate.url, ...(duplicate.aliases || [])])];
+    canonicalOwners.set(duplicate.url, ownerUrl);
+    // Links that pointed at the duplicate now count for the page it was folded into
+    edges = edges.flatMap(edge => {
+      if (edge.target !== duplicate.url) return [edge];
+      return edge.source === ownerUrl ? [] : [{ ...edge, target: ownerUrl }];
+    });
+    reindexEdges();
+    update(owner);
+    log(`MERGED DUPLICATE: ${duplicate.url}`, 'info', `rel=canonical → ${ownerUrl}`);
+  };
+
+  return {
+    key,
+    nodes: () => nodes,
+    get,
+    has: url => visited.has(url),
+    visitedCount: () => visited.size,
+    add,
+    update,
+    enqueue: node => { queue.push(node); },
+    queued: () => queue,
+    isQueueable,
+    takeNext,
+    nextWakeIn,
+    setHostDelay: (url, delayMs) => { hostOf(url).nextAt = Date.now() + delayMs; },
+    release: url => { hostOf(url).active--; },
+
+    // Records the children of a scanned page, keyed and deduplicated; returns the nodes that were new
+    ingestLinks: async (page, children, admit) => {
+      const added: LinkNode[] = [];
+      for (const child of children) {
+        const childKey = key(child.url, page.url);
+        if (!childKey) continue;
+        const target = canonicalOwners.get(childKey) ?? childKey;
+        linkedUrls.add(target);
+        if (visited.has(target)) continue;
+        child.id = child.url = target;
+        child.parentId = page.url;
+        add(child);
+        if (isQueueable(child) && await admit(child)) queue.push(child);
+        added.push(child);
+      }
+      return added;
+    },
+
+    // Records every link occurrence on a page, keyed like the nodes, and returns them. Unlike ingestLinks
+    // this keeps links to pages that are already known, which is what inlink counts are made of.
+    recordEdges: (page, pageEdges) => {
+      const recorded: LinkEdge[] = [];
+      for (const edge of pageEdges) {
+        const targetKey = key(edge.target, page.url);
+        if (!targetKey) continue;
+        const target = canonicalOwners.get(targetKey) ?? targetKey;
+        if (target === page.url) continue;
+        recorded.push({ ...edge, source: page.url, target });
+      }
+      edges.push(...recorded);
+      recorded.forEach(indexEdge);
+      page.outlinks = outbound.get(page.url)?.length ?? 0;
+      for (const target of new Set(recorded.map(e => e.target))) {
+        const node = get(target);
+        if (node) update(node);
+      }
+      return recorded;
+    },
+
+    edges: () => edges,
+    linksTo: url => [...(inbound.get(url) || [])],
+    linksFrom: url => [...(outbound.get(url) || [])],
+
+    // Recomputes internal PageRank over the whole graph; too costly per page, so run when the crawl settles
+    scoreLinks: () => {
+      const scores = computePageRank(nodes, edges);
+      ranks.clear();
+      scores.forEach((score, url) => ranks.set(url, score));
+      for (const node of [...nodes]) {
+        if (node.pageRank !== ranks.get(node.url)) update(node);
+      }
+    },
+
+    // A redirecting URL keeps its 3xx and the chain; the document it lands on belongs to the final URL's node.
+    // Returns that node, or null when it was already crawled or is being fetched, lies outside the scope or
+    // the chain loops. A returned node is marked scanning so other redirects landing there leave it alone.
+    resolveRedirectTarget: (node, page) => {
+      const chain = page.redirectChain!;
+      const finalKey = page.finalUrl ? key(page.finalUrl) : null;
+      node.redirectChain = chain;
+      node.redirectIssue = page.redirectIssue;
+      node.finalUrl = finalKey ?? page.finalUrl;
+      if (page.redirectIssue) {
+        log(`${page.redirectIssue === 'loop' ? 'REDIRECT LOOP' : 'LONG REDIRECT CHAIN'}: ${node.url}`, 'warning',
+          chain.map(hop => `${hop.status || '↺'} ${hop.url}`).join('\n'));
+      }
+      // http -> https or a trailing slash often normalizes back to the same key: same node, keep the final status
+      if (!finalKey || finalKey === node.url) return node;
+
+      node.status = `${chain[0].status}`;
+      node.scanned = true;
+      update(node);
+      if (page.redirectIssue === 'loop') return null;
+
+      linkedUrls.add(finalKey);
+      let target = get(finalKey);
+      if (target?.scanned || target?.status === 'scanning') return null;
+      if (target) {
+        // Still queued under its own URL: it's being crawled right now, via the redirect
+        queue = queue.filter(n => n.url !== finalKey);
+      } else {
+        target = {
+          id: finalKey, url: finalKey, title: finalKey.split('/').filter(Boolean).pop() || finalKey,
+          depth: node.depth, parentId: node.url, status: 'pending',
+          type: new URL(finalKey).host === new URL(node.url).host ? 'internal' : 'external',
+          contentType: page.contentType ?? 'text/html', discoverySource: 'redirect', detectedTech: [], scanned: false
+        };
+        add(target);
+      }
+      const config = getConfig();
+      const verdict = evaluateScope(finalKey, config.url, config.scope, config.scopeRules);
+      if (!verdict.inScope) {
+        target.outOfScope = verdict.reason;
+        update(target);
+        return null;
+      }
+      target.status = 'scanning';
+      update(target);
+      return target;
+    },
+
+    claimCanonical,
+    mergeIntoCanonical,
+    sitemapUrls,
+    linkedUrls,
+
+    snapshot: () => ({
+      nodes,
+      queue: queue.map(n => n.url),
+      visited: [...visited],
+      sitemapUrls: [...sitemapUrls],
+      linkedUrls: [...linkedUrls],
+      canonicalOwners: Object.fromEntries(canonicalOwners),
+      edges
+    })
+  };
+};
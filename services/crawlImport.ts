@@ -0,0 +1,145 @@
+import { CrawlConfig, CrawlStats, LinkNode } from "../types";
+import { normalizeUrl } from "./urlNormalize";
+
+/**
+ * A crawl read back from a file: the app's own JSON/JSONL export, a CSV from the export dialog,
+ * or the old six-column CSV (URL, Type, Status, Size, Depth, Parent).
+ */
+export interface ImportedCrawl {
+  name: string;
+  nodes: LinkNode[];
+  config?: Partial<CrawlConfig>;
+  stats?: Partial<CrawlStats>;
+}
+
+// Legacy CSV headers and their LinkNode fields; the current export already uses the field names
+const CSV_HEADER_ALIASES: Record<string, keyof LinkNode> = {
+  url: 'url', type: 'type', status: 'status', size: 'size', depth: 'depth', parent: 'parentId'
+};
+const NUMERIC_FIELDS = new Set<keyof LinkNode>(['depth', 'size', 'responseTime', 'inlinks', 'outlinks', 'pageRank']);
+const JSON_FIELDS = new Set<keyof LinkNode>(['aliases', 'redirectChain', 'detectedTech', 'headers', 'seo', 'accessibility']);
+const NODE_FIELDS = new Set<string>([
+  'id', 'url', 'title', 'depth', 'parentId', 'status', 'type', 'contentType', 'size', 'responseTime', 'errorReason',
+  'headers', 'detectedTech', 'discoverySource', 'scanned', 'canonical', 'aliases', 'outOfScope', 'redirectChain',
+  'finalUrl', 'redirectIssue', 'seo', 'accessibility', 'inlinks', 'outlinks', 'pageRank'
+]);
+
+// RFC 4180 reader: quoted fields may contain commas, doubled quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ',') { row.push(field); field = ''; }
+    else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row);
+      row = []; field = '';
+    } else field += c;
+  }
+  if (field || row.length > 0) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(cell => cell !== ''));
+};
+
+// Fills the fields every LinkNode must have, so partial rows still diff and render
+const completeNode = (raw: Record<string, unknown>): LinkNode | null => {
+  const url = typeof raw.url === 'string' ? raw.url.trim() : '';
+  if (!url) return null;
+  const node: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) if (NODE_FIELDS.has(key) && value !== undefined && value !== '') node[key] = value;
+  return {
+    ...(node as Partial<LinkNode>),
+    id: (node.id as string) || url,
+    url,
+    depth: Number(node.depth) || 0,
+    status: (String(node.status ?? 'pending') as LinkNode['status']),
+    type: (['internal', 'external', 'resource'].includes(node.type as string) ? node.type : 'internal') as LinkNode['type'],
+    contentType: (node.contentType as LinkNode['contentType']) || 'other'
+  };
+};
+
+const fromCsv = (text: string): LinkNode[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const fields = header.map(h => (NODE_FIELDS.has(h.trim()) ? h.trim() : CSV_HEADER_ALIASES[h.trim().toLowerCase()]) as keyof LinkNode | undefined);
+  if (!fields.includes('url')) throw new Error('CSV has no "url" column.');
+
+  return rows.map(cells => {
+    const raw: Record<string, unknown> = {};
+    fields.forEach((field, i) => {
+      const cell = cells[i];
+      if (!field || cell === undefined || cell === '') return;
+      if (NUMERIC_FIELDS.has(field)) raw[field] = Number(cell);
+      else if (field === 'scanned') raw[field] = cell === 'true';
+      else if (JSON_FIELDS.has(field)) {
+        try { raw[field] = JSON.parse(cell); } catch { /* leave malformed cells out */ }
+      } else raw[field] = cell;
+    });
+    return completeNode(raw);
+  }).filter((n): n is LinkNode => n !== null);
+};
+
+const fromJsonl = (text: string): Omit<ImportedCrawl, 'name'> => {
+  const result: Omit<ImportedCrawl, 'name'> = { nodes: [] };
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    const { kind, ...record } = JSON.parse(line);
+    if (kind === 'node') {
+      const node = completeNode(record);
+      if (node) result.nodes.push(node);
+    } else if (kind === 'meta') result.config = record.config;
+    else if (kind === 'stats') result.stats = record;
+  }
+  return result;
+};
+
+/**
+ * Live crawls key every node by its normalized URL; older exports (and hand-made files) hold whatever was
+ * linked. Rewrites the URL fields the same way, folding rows that turn out to be the same page into one.
+ */
+const normalizeNodes = (nodes: LinkNode[], trackingParams?: string[]): LinkNode[] => {
+  const key = (url: string) => normalizeUrl(url, undefined, { trackingParams }) ?? url;
+  const byUrl = new Map<string, LinkNode>();
+  for (const raw of nodes) {
+    const url = key(raw.url);
+    const node: LinkNode = { ...raw, id: url, url };
+    if (raw.parentId) node.parentId = key(raw.parentId);
+    if (raw.finalUrl) node.finalUrl = key(raw.finalUrl);
+    if (raw.aliases) node.aliases = [...new Set(raw.aliases.map(key))].filter(alias => alias !== url);
+    const existing = byUrl.get(url);
+    if (existing) existing.aliases = [...new Set([...(existing.aliases ?? []), ...(node.aliases ?? [])])];
+    else byUrl.set(url, node);
+  }
+  return [...byUrl.values()];
+};
+
+export const parseCrawlImport = (text: string, fileName: string): ImportedCrawl => {
+  const name = fileName.replace(/\.[^.]+$/, '');
+  const trimmed = text.trimStart();
+  let parsed: Omit<ImportedCrawl, 'name'>;
+
+  if (trimmed.startsWith('{') && /"kind"\s*:/.test(trimmed.slice(0, trimmed.indexOf('\n') + 1 || undefined))) {
+    parsed = fromJsonl(trimmed);
+  } else if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const json = JSON.parse(trimmed);
+    // A bare node array is accepted too, it's what most people hand-roll
+    const rawNodes: unknown[] = Array.isArray(json) ? json : Array.isArray(json.nodes) ? json.nodes : [];
+    parsed = {
+      nodes: rawNodes.map(n => completeNode((n ?? {}) as Record<string, unknown>)).filter((n): n is LinkNode => n !== null),
+      config: Array.isArray(json) ? undefined : json.config,
+      stats: Array.isArray(json) ? undefined : json.stats
+    };
+  } else {
+    parsed = { nodes: fromCsv(text) };
+  }
+
+  if (parsed.nodes.length === 0) throw new Error(`No crawl nodes found in ${fileName}.`);
+  return { name, ...parsed, nodes: normalizeNodes(parsed.nodes, parsed.config?.trackingParams) };
+};
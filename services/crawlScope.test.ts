@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ScopeRule } from '../types';
+import { evaluateScope, globToRegex, registrableDomain, validateRule } from './crawlScope';
+
+const ROOT = 'https://www.site.test/docs/index.html';
+
+let nextId = 0;
+const rule = (action: ScopeRule['action'], pattern: string, kind: ScopeRule['kind'] = 'glob'): ScopeRule =>
+  ({ id: `r${nextId++}`, action, kind, pattern });
+
+describe('globToRegex', () => {
+  it('keeps * within a path segment and lets ** cross them', () => {
+    assert.ok(globToRegex('/blog/*').test('/blog/post'));
+    assert.ok(!globToRegex('/blog/*').test('/blog/2024/post'));
+    assert.ok(globToRegex('/blog/**').test('/blog/2024/post'));
+    assert.ok(globToRegex('/**.pdf').test('/a/b/c.pdf'));
+  });
+
+  it('matches ? as one character other than a slash', () => {
+    assert.ok(globToRegex('/p?ge').test('/page'));
+    assert.ok(!globToRegex('/p?ge').test('/p/ge'));
+    assert.ok(!globToRegex('/p?ge').test('/pge'));
+  });
+
+  it('anchors both ends, ignores case and escapes regex characters', () => {
+    assert.ok(!globToRegex('/a').test('/ab'));
+    assert.ok(!globToRegex('/a').test('x/a'));
+    assert.ok(globToRegex('/About').test('/about'));
+    assert.ok(globToRegex('/search?q=(x)+').test('/search?q=(x)+'));
+    assert.ok(!globToRegex('/a.b').test('/axb'));
+    assert.ok(!globToRegex('/a+').test('/aa'));
+  });
+});
+
+describe('evaluateScope', () => {
+  it('applies the strategy when no rule matches', () => {
+    assert.equal(evaluateScope('https://www.site.test/x', ROOT, 'same-host', []).inScope, true);
+    assert.equal(evaluateScope('https://cdn.site.test/x', ROOT, 'same-host', []).inScope, false);
+    assert.equal(evaluateScope('https://cdn.site.test/x', ROOT, 'same-domain', []).inScope, true);
+    assert.equal(evaluateScope('https://www.site.test/docs/a/b', ROOT, 'path-prefix', []).inScope, true);
+    assert.equal(evaluateScope('https://www.site.test/docs', ROOT, 'path-prefix', []).inScope, true);
+    assert.equal(evaluateScope('https://www.site.test/blog', ROOT, 'path-prefix', []).inScope, false);
+  });
+
+  it('lets the first matching rule win', () => {
+    const url = 'https://www.site.test/docs/drafts/a';
+    const exclude = rule('exclude', '/docs/drafts/**');
+    const include = rule('include', '/docs/**');
+
+    const excluded = evaluateScope(url, ROOT, 'same-host', [exclude, include]);
+    assert.equal(excluded.inScope, false);
+    assert.equal(excluded.rule, exclude);
+
+    const included = evaluateScope(url, ROOT, 'same-host', [include, exclude]);
+    assert.equal(included.inScope, true);
+    assert.equal(included.rule, include);
+    assert.equal(included.reason, 'Included by glob /docs/**');
+  });
+
+  it('can include a host the strategy would skip', () => {
+    const verdict = evaluateScope('https://cdn.other.test/lib.js', ROOT, 'same-host', [rule('include', 'https://cdn.other.test/**')]);
+    assert.equal(verdict.inScope, true);
+  });
+
+  it('matches path globs against the path and query, other patterns against the full URL', () => {
+    assert.equal(evaluateScope('https://www.site.test/list?page=2', ROOT, 'same-host', [rule('exclude', '/list?page=*')]).inScope, false);
+    assert.equal(evaluateScope('https://www.site.test/a?sort=asc', ROOT, 'same-host', [rule('exclude', 'sort=', 'regex')]).inScope, false);
+    assert.equal(evaluateScope('https://www.site.test/a', ROOT, 'same-host', [rule('exclude', '^https://www\\.site\\.test/b', 'regex')]).inScope, true);
+  });
+
+  it('skips empty and invalid rules', () => {
+    const verdict = evaluateScope('https://www.site.test/x', ROOT, 'same-host', [rule('exclude', '  '), rule('exclude', '(', 'regex')]);
+    assert.equal(verdict.inScope, true);
+    assert.equal(verdict.rule, undefined);
+    assert.equal(validateRule(rule('exclude', '(', 'regex')) !== null, true);
+    assert.equal(validateRule(rule('exclude', '')), 'Empty pattern');
+  });
+
+  it('refuses non-http URLs and garbage', () => {
+    assert.deepEqual(evaluateScope('not a url', ROOT, 'same-host', []), { inScope: false, reason: 'Invalid URL' });
+    assert.equal(evaluateScope('ftp://www.site.test/x', ROOT, 'same-host', []).inScope, false);
+  });
+});
+
+describe('registrableDomain', () => {
+  it('keeps second-level public suffixes together', () => {
+    assert.equal(registrableDomain('www.site.test'), 'site.test');
+    assert.equal(registrableDomain('portal.ministry.gov.bd'), 'ministry.gov.bd');
+    assert.equal(registrableDomain('shop.example.co.uk:8080'), 'example.co.uk');
+    assert.equal(registrableDomain('127.0.0.1'), '127.0.0.1');
+  });
+});
@@ -0,0 +1,113 @@
+import { ScopeRule, ScopeStrategy } from "../types";
+
+export const SCOPE_OPTIONS: { id: ScopeStrategy; label: string; description: string }[] = [
+  { id: 'same-host', label: 'Same host', description: 'Only the exact host of the target URL.' },
+  { id: 'same-domain', label: 'Same domain + subdomains', description: 'Any host under the registrable domain, e.g. www., cdn., portal.' },
+  { id: 'path-prefix', label: 'Path prefix', description: 'Same host, and only below the target URL\'s directory.' }
+];
+
+// Second-level labels that sit under a ccTLD as part of the public suffix (gov.bd, co.uk, com.au...).
+// A heuristic stand-in for the Public Suffix List, which is too large to ship to the browser.
+const SECOND_LEVEL_SUFFIXES = new Set(['ac', 'co', 'com', 'edu', 'gov', 'go', 'govt', 'mil', 'net', 'nic', 'or', 'org', 'ne', 'info', 'gob', 'gouv']);
+
+export const registrableDomain = (host: string): string => {
+  const hostname = host.replace(/:\d+$/, '').toLowerCase();
+  if (/^[\d.]+$/.test(hostname) || hostname.startsWith('[') || !hostname.includes('.')) return hostname;
+  const labels = hostname.split('.');
+  const tld = labels[labels.length - 1];
+  const sld = labels[labels.length - 2];
+  const take = tld.length === 2 && SECOND_LEVEL_SUFFIXES.has(sld) && labels.length > 2 ? 3 : 2;
+  return labels.slice(-take).join('.');
+};
+
+const escapeRegex = (value: string) => value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+// `**` crosses path segments, `*` stays within one, `?` is a single character
+export const globToRegex = (glob: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += escapeRegex(char);
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+};
+
+const compileRule = (rule: ScopeRule): RegExp => (rule.kind === 'regex' ? new RegExp(rule.pattern, 'i') : globToRegex(rule.pattern));
+
+// Returns an error message for rules that can't be compiled, so the editor can flag them
+export const validateRule = (rule: ScopeRule): string | null => {
+  if (!rule.pattern.trim()) return 'Empty pattern';
+  try {
+    compileRule(rule);
+    return null;
+  } catch (err: any) {
+    return err.message || 'Invalid pattern';
+  }
+};
+
+// Globs that start with "/" describe a path (+ query); anything else is matched against the full URL
+const ruleMatches = (rule: ScopeRule, url: URL): boolean => {
+  if (!rule.pattern.trim()) return false;
+  const subject = rule.kind === 'glob' && rule.pattern.startsWith('/') ? `${url.pathname}${url.search}` : url.toString();
+  try {
+    return compileRule(rule).test(subject);
+  } catch {
+    return false; // invalid rules are flagged in the editor and otherwise ignored
+  }
+};
+
+const directoryOf = (pathname: string) => pathname.endsWith('/') ? pathname : pathname.slice(0, pathname.lastIndexOf('/') + 1);
+
+const strategyVerdict = (url: URL, root: URL, scope: ScopeStrategy): ScopeVerdict => {
+  switch (scope) {
+    case 'same-domain': {
+      const domain = registrableDomain(root.hostname);
+      const inScope = url.hostname === domain || url.hostname.endsWith(`.${domain}`);
+      return { inScope, reason: inScope ? `Under ${domain}` : `Outside ${domain}` };
+    }
+    case 'path-prefix': {
+      const prefix = directoryOf(root.pathname);
+      const inScope = url.host === root.host && (url.pathname.startsWith(prefix) || url.pathname === prefix.replace(/\/$/, ''));
+      return { inScope, reason: inScope ? `Below ${root.host}${prefix}` : `Not below ${root.host}${prefix}` };
+    }
+    default: {
+      const inScope = url.host === root.host;
+      return { inScope, reason: inScope ? `Same host (${root.host})` : `Different host (${url.host})` };
+    }
+  }
+};
+
+export interface ScopeVerdict {
+  inScope: boolean;
+  reason: string;
+  rule?: ScopeRule; // the rule that decided, if any
+}
+
+/**
+ * Decides whether a URL belongs to the crawl. Rules are checked top to bottom and the first match wins,
+ * which lets an include rule pull in a host the strategy would skip (or an exclude carve out a section).
+ */
+export const evaluateScope = (rawUrl: string, rootUrl: string, scope: ScopeStrategy, rules: ScopeRule[]): ScopeVerdict => {
+  let url: URL;
+  let root: URL;
+  try {
+    url = new URL(rawUrl);
+    root = new URL(rootUrl);
+  } catch {
+    return { inScope: false, reason: 'Invalid URL' };
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return { inScope: false, reason: `Unsupported scheme ${url.protocol}` };
+
+  const rule = rules.find(r => ruleMatches(r, url));
+  if (rule) return { inScope: rule.action === 'include', reason: `${rule.action === 'include' ? 'Included' : 'Excluded'} by ${rule.kind} ${rule.pattern}`, rule };
+  return strategyVerdict(url, root, scope);
+};
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LinkNode } from '../types';
+import { parseCrawlImport, parseCsv } from './crawlImport';
+import { toCsv } from './exporters';
+
+const node = (overrides: Partial<LinkNode>): LinkNode => ({
+  id: 'https://site.test/', url: 'https://site.test/', title: 'Home', depth: 0, status: '200',
+  type: 'internal', contentType: 'text/html', discoverySource: 'anchor', scanned: true, ...overrides
+});
+
+describe('CSV export and import', () => {
+  it('round-trips titles with commas, quotes and line breaks', () => {
+    const nodes = [
+      node({}),
+      node({ id: 'https://site.test/a', url: 'https://site.test/a', title: 'Prices, fees and "extras"', parentId: 'https://site.test/' }),
+      node({ id: 'https://site.test/b', url: 'https://site.test/b', title: 'Line one\nline two\r\nline three', errorReason: 'a,b' })
+    ];
+    const imported = parseCrawlImport(toCsv(nodes), 'crawl.csv');
+
+    assert.equal(imported.name, 'crawl');
+    assert.deepEqual(imported.nodes.map(n => n.title), nodes.map(n => n.title));
+    assert.equal(imported.nodes[1].parentId, 'https://site.test/');
+    assert.equal(imported.nodes[2].errorReason, 'a,b');
+  });
+
+  it('keeps numbers, booleans and structured fields', () => {
+    const original = node({
+      size: 12.5, responseTime: 80, inlinks: 3, pageRank: 42.1, scanned: false,
+      detectedTech: ['React', 'nginx, "1.25"'],
+      redirectChain: [{ url: 'https://site.test/old', status: 301 }, { url: 'https://site.test/', status: 200 }],
+      headers: { 'set-cookie': 'a=1, b=2' }
+    });
+    const [imported] = parseCrawlImport(toCsv([original]), 'crawl.csv').nodes;
+
+    assert.equal(imported.size, 12.5);
+    assert.equal(imported.responseTime, 80);
+    assert.equal(imported.inlinks, 3);
+    assert.equal(imported.pageRank, 42.1);
+    assert.equal(imported.scanned, false);
+    assert.deepEqual(imported.detectedTech, original.detectedTech);
+    assert.deepEqual(imported.redirectChain, original.redirectChain);
+    assert.deepEqual(imported.headers, original.headers);
+  });
+
+  it('leaves empty cells out instead of importing empty strings', () => {
+    const [imported] = parseCrawlImport(toCsv([node({})]), 'crawl.csv').nodes;
+    assert.equal('errorReason' in imported, false);
+    assert.equal('parentId' in imported, false);
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, doubled quotes and CRLF inside', () => {
+    assert.deepEqual(parseCsv('a,b\r\n"1,2","say ""hi""\r\nbye"\r\n'), [['a', 'b'], ['1,2', 'say "hi"\r\nbye']]);
+  });
+
+  it('keeps empty fields and skips blank lines', () => {
+    assert.deepEqual(parseCsv('a,,c\n\n,,\nx,y,'), [['a', '', 'c'], ['x', 'y', '']]);
+  });
+});
@@ -0,0 +1,206 @@
+import { CrawlConfig, CrawlStats, LinkEdge, LinkNode, LogEntry, SitemapReport } from "../types";
+
+export type ExportFormat = 'csv' | 'json' | 'jsonl' | 'graphml' | 'gexf' | 'sitemap';
+
+export interface ExportOptions {
+  id: ExportFormat;
+  label: string;
+  description: string;
+  extension: string;
+  mime: string;
+}
+
+export const EXPORT_FORMATS: ExportOptions[] = [
+  { id: 'csv', label: 'CSV', description: 'Every node field, one row per URL. Opens in any spreadsheet.', extension: 'csv', mime: 'text/csv' },
+  { id: 'json', label: 'JSON', description: 'Full crawl: config, stats, nodes, logs, sitemap audit and AI report.', extension: 'json', mime: 'application/json' },
+  { id: 'jsonl', label: 'JSON Lines', description: 'One record per line (meta, stats, nodes, logs). Stream-friendly.', extension: 'jsonl', mime: 'application/x-ndjson' },
+  { id: 'graphml', label: 'GraphML', description: 'Link graph for Gephi, yEd or networkx.', extension: 'graphml', mime: 'application/xml' },
+  { id: 'gexf', label: 'GEXF', description: 'Link graph in Gephi\'s native format.', extension: 'gexf', mime: 'application/xml' },
+  { id: 'sitemap', label: 'sitemap.xml', description: 'Crawlable internal HTML pages that answered 200.', extension: 'xml', mime: 'application/xml' }
+];
+
+export interface CrawlExport {
+  config: CrawlConfig;
+  stats: CrawlStats;
+  nodes: LinkNode[];
+  edges: LinkEdge[];   // every link occurrence, as recorded by the crawl
+  logs: LogEntry[];
+  sitemapReport: SitemapReport | null;
+  aiAnalysis: string;
+}
+
+// Fixed column order; anything structured is JSON-encoded into its cell
+const CSV_COLUMNS: (keyof LinkNode)[] = [
+  'url', 'title', 'type', 'status', 'contentType', 'depth', 'parentId', 'size', 'responseTime', 'discoverySource',
+  'inlinks', 'outlinks', 'pageRank', 'scanned', 'errorReason', 'outOfScope', 'canonical', 'aliases', 'finalUrl', 'redirectIssue', 'redirectChain',
+  'detectedTech', 'headers', 'seo', 'accessibility', 'id'
+];
+
+// RFC 4180: quote fields containing separators, quotes or line breaks, double embedded quotes
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (nodes: LinkNode[]): string =>
+  [CSV_COLUMNS.join(','), ...nodes.map(node => CSV_COLUMNS.map(column => csvCell(node[column])).join(','))].join('\r\n');
+
+export const toJson = (data: CrawlExport): string =>
+  JSON.stringify({ exportedAt: new Date().toISOString(), ...data }, null, 2);
+
+export const toJsonl = (data: CrawlExport): string => {
+  const lines: unknown[] = [
+    { kind: 'meta', exportedAt: new Date().toISOString(), config: data.config },
+    { kind: 'stats', ...data.stats },
+    ...data.nodes.map(node => ({ kind: 'node', ...node })),
+    // Logs are kept newest-first in the UI; a line-oriented file reads better in order
+    ...[...data.logs].reverse().map(log => ({ kind: 'log', ...log }))
+  ];
+  if (data.sitemapReport) lines.push({ kind: 'sitemapReport', ...data.sitemapReport });
+  if (data.aiAnalysis) lines.push({ kind: 'aiAnalysis', text: data.aiAnalysis });
+  return lines.map(line => JSON.stringify(line)).join('\n') + '\n';
+};
+
+const xmlEscape = (value: unknown): string =>
+  String(value ?? '').replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+interface GraphEdge {
+  source: string;
+  target: string;
+  rel: string;    // every rel seen on the links, space-separated
+  anchor: string; // first non-empty anchor text
+  count: number;  // how many times the source page links to the target
+}
+
+// One edge per linked pair whose ends are both part of the export; repeated links raise the count
+const graphEdges = (nodes: LinkNode[], edges: LinkEdge[]): GraphEdge[] => {
+  const ids = new Set(nodes.map(n => n.id));
+  const pairs = new Map<string, GraphEdge & { rels: Set<string> }>();
+  for (const edge of edges) {
+    if (edge.source === edge.target || !ids.has(edge.source) || !ids.has(edge.target)) continue;
+    const key = `${edge.source} ${edge.target}`;
+    let pair = pairs.get(key);
+    if (!pair) {
+      pair = { source: edge.source, target: edge.target, rel: '', anchor: '', count: 0, rels: new Set() };
+      pairs.set(key, pair);
+    }
+    pair.count++;
+    edge.rel.forEach(rel => pair!.rels.add(rel));
+    if (!pair.anchor && edge.text) pair.anchor = edge.text;
+  }
+  return [...pairs.values()].map(({ rels, ...pair }) => ({ ...pair, rel: [...rels].join(' ') }));
+};
+
+const EDGE_ATTRIBUTES: { key: 'rel' | 'anchor' | 'count'; type: 'string' | 'int' }[] = [
+  { key: 'rel', type: 'string' },
+  { key: 'anchor', type: 'string' },
+  { key: 'count', type: 'int' }
+];
+
+const GRAPH_ATTRIBUTES: { key: keyof LinkNode; type: 'string' | 'int' | 'double' | 'boolean' }[] = [
+  { key: 'url', type: 'string' },
+  { key: 'title', type: 'string' },
+  { key: 'status', type: 'string' },
+  { key: 'type', type: 'string' },
+  { key: 'contentType', type: 'string' },
+  { key: 'depth', type: 'int' },
+  { key: 'size', type: 'double' },
+  { key: 'responseTime', type: 'double' },
+  { key: 'discoverySource', type: 'string' }
+];
+
+export const toGraphML = (nodes: LinkNode[], links: LinkEdge[]): string => {
+  const ids = new Map(nodes.map((n, i) => [n.id, `n${i}`]));
+  const keys = [
+    ...GRAPH_ATTRIBUTES.map(a => `  <key id="${a.key}" for="node" attr.name="${a.key}" attr.type="${a.type}"/>`),
+    ...EDGE_ATTRIBUTES.map(a => `  <key id="${a.key}" for="edge" attr.name="${a.key}" attr.type="${a.type}"/>`)
+  ];
+  const body = nodes.map(n => {
+    const data = GRAPH_ATTRIBUTES.filter(a => n[a.key] !== undefined).map(a => `      <data key="${a.key}">${xmlEscape(n[a.key])}</data>`);
+    return [`    <node id="${ids.get(n.id)}">`, ...data, '    </node>'].join('\n');
+  });
+  const edges = graphEdges(nodes, links).map((e, i) => {
+    const data = EDGE_ATTRIBUTES.filter(a => e[a.key] !== '').map(a => `      <data key="${a.key}">${xmlEscape(e[a.key])}</data>`);
+    return [`    <edge id="e${i}" source="${ids.get(e.source)}" target="${ids.get(e.target)}">`, ...data, '    </edge>'].join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...keys,
+    '  <graph id="crawl" edgedefault="directed">',
+    ...body,
+    ...edges,
+    '  </graph>',
+    '</graphml>'
+  ].join('\n');
+};
+
+export const toGexf = (nodes: LinkNode[], links: LinkEdge[]): string => {
+  const ids = new Map(nodes.map((n, i) => [n.id, `n${i}`]));
+  const gexfType = (type: string) => (type === 'int' ? 'integer' : type);
+  const attributes = GRAPH_ATTRIBUTES.filter(a => a.key !== 'title')
+    .map((a, i) => `      <attribute id="${i}" title="${a.key}" type="${gexfType(a.type)}"/>`);
+  const body = nodes.map(n => {
+    const values = GRAPH_ATTRIBUTES.filter(a => a.key !== 'title')
+      .map((a, i) => (n[a.key] !== undefined ? `          <attvalue for="${i}" value="${xmlEscape(n[a.key])}"/>` : null))
+      .filter(Boolean);
+    return [`      <node id="${ids.get(n.id)}" label="${xmlEscape(n.title || n.url)}">`, '        <attvalues>', ...values, '        </attvalues>', '      </node>'].join('\n');
+  });
+  const edgeAttributes = EDGE_ATTRIBUTES.map((a, i) => `      <attribute id="${i}" title="${a.key}" type="${gexfType(a.type)}"/>`);
+  // The link count doubles as the weight Gephi sizes edges by
+  const edges = graphEdges(nodes, links).map((e, i) => {
+    const values = EDGE_ATTRIBUTES.filter(a => e[a.key] !== '').map(a => `          <attvalue for="${EDGE_ATTRIBUTES.indexOf(a)}" value="${xmlEscape(e[a.key])}"/>`);
+    return [`      <edge id="e${i}" source="${ids.get(e.source)}" target="${ids.get(e.target)}" weight="${e.count}">`, '        <attvalues>', ...values, '        </attvalues>', '      </edge>'].join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+    '  <meta><creator>DeepLink AI</creator></meta>',
+    '  <graph defaultedgetype="directed" mode="static">',
+    '    <attributes class="node">',
+    ...attributes,
+    '    </attributes>',
+    '    <attributes class="edge">',
+    ...edgeAttributes,
+    '    </attributes>',
+    '    <nodes>',
+    ...body,
+    '    </nodes>',
+    '    <edges>',
+    ...edges,
+    '    </edges>',
+    '  </graph>',
+    '</gexf>'
+  ].join('\n');
+};
+
+// Pages a search engine should be told about: fetched fine, HTML, on-site, and not a duplicate of another URL
+export const isSitemapCandidate = (node: LinkNode): boolean =>
+  node.type === 'internal' &&
+  node.contentType === 'text/html' &&
+  node.status === '200' &&
+  !node.outOfScope &&
+  !node.redirectChain &&
+  (!node.canonical || node.canonical === node.url);
+
+export const toSitemapXml = (nodes: LinkNode[]): string => {
+  const urls = [...new Set(nodes.filter(isSitemapCandidate).map(n => n.url))];
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls.map(url => `  <url><loc>${xmlEscape(url)}</loc></url>`),
+    '</urlset>'
+  ].join('\n') + '\n';
+};
+
+export const buildExport = (format: ExportFormat, data: CrawlExport): string => {
+  switch (format) {
+    case 'csv': return toCsv(data.nodes);
+    case 'json': return toJson(data);
+    case 'jsonl': return toJsonl(data);
+    case 'graphml': return toGraphML(data.nodes, data.edges);
+    case 'gexf': return toGexf(data.nodes, data.edges);
+    case 'sitemap': return toSitemapXml(data.nodes);
+  }
+};
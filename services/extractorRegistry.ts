@@ -0,0 +1,20 @@
+import { ExtractorId } from "../types";
+import { createFixtureExtractor } from "./fixtureExtractor";
+import { createGeminiExtractor, KeyPool } from "./gemini";
+import { createHttpExtractor } from "./httpExtractor";
+import { LinkExtractor } from "./linkExtractor";
+
+export interface ExtractorDeps {
+  keyPool: KeyPool;
+  includeAssets: boolean;
+}
+
+export const createExtractor = (id: ExtractorId, deps: ExtractorDeps): LinkExtractor => {
+  switch (id) {
+    case 'fixture': return createFixtureExtractor();
+    case 'http': return createHttpExtractor({ includeAssets: deps.includeAssets });
+    case 'gemini':
+    default:
+      return createGeminiExtractor(deps.keyPool);
+  }
+};
@@ -0,0 +1,116 @@
+import { DiscoverySource, LinkNode } from "../types";
+import { guessContentType } from "./contentType";
+import { LinkExtractor } from "./linkExtractor";
+
+// FNV-1a: cheap, stable string hash used to seed the generator per URL
+const hashString = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32 PRNG: same seed, same sequence
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const SECTIONS = ['about', 'services', 'news', 'notices', 'contact'];
+const SLUGS = ['overview', 'policy', 'report', 'guide', 'archive', 'faq', 'forms', 'team', 'events', 'budget'];
+
+// Keeps /notices out of the crawl so blocked nodes show up in fixture runs
+const fixtureRobots = (origin: string) => [
+  'User-agent: *',
+  'Disallow: /notices',
+  'Allow: /notices/public$',
+  'Crawl-delay: 1',
+  '',
+  `Sitemap: ${origin}/sitemap.xml`
+].join('\n');
+
+const urlset = (locs: string[]) =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${locs.map(loc => `  <url><loc>${loc}</loc></url>`).join('\n')}\n</urlset>`;
+
+// An index plus two child sitemaps; /services/e-portal-legacy is deliberately never linked from any page
+const fixtureSitemaps = (origin: string): Record<string, string> => ({
+  '/sitemap.xml': `<?xml version="1.0" encoding="UTF-8"?>\n<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n  <sitemap><loc>${origin}/sitemap-pages.xml</loc></sitemap>\n  <sitemap><loc>${origin}/sitemap-news.xml</loc></sitemap>\n</sitemapindex>`,
+  '/sitemap-pages.xml': urlset([`${origin}/`, ...SECTIONS.filter(s => s !== 'news').map(s => `${origin}/${s}`), `${origin}/services/e-portal-legacy`]),
+  '/sitemap-news.xml': urlset([`${origin}/news`, `${origin}/news/archive-1`])
+});
+
+/**
+ * Synthetic site generator. Every URL maps to a fixed set of children derived from a hash of the URL,
+ * so two runs against the same seed produce identical graphs without touching the network.
+ */
+export const createFixtureExtractor = (): LinkExtractor => ({
+  id: 'fixture',
+  label: 'Fixture',
+  capabilities: { requiresApiKey: false, realNetwork: false, deterministic: true, realStatus: false },
+  extract: async ({ url, rootUrl, depth }) => {
+    if (guessContentType(url) !== 'text/html') return { links: [] };
+
+    const random = createRandom(hashString(url));
+    const origin = new URL(rootUrl).origin;
+    const basePath = new URL(url).pathname.replace(/\/$/, '');
+
+    const make = (target: string, title: string, type: LinkNode['type'], discoverySource: DiscoverySource, status: LinkNode['status'] = '200'): LinkNode => ({
+      id: target,
+      url: target,
+      title,
+      depth: depth + 1,
+      parentId: url,
+      status,
+      type,
+      contentType: guessContentType(target),
+      size: Math.floor(random() * 100) + 5,
+      discoverySource,
+      detectedTech: [],
+      scanned: false,
+      responseTime: Math.floor(random() * 200) + 20
+    });
+
+    const links: LinkNode[] = [];
+
+    // Global navigation appears on every page
+    SECTIONS.forEach(section => links.push(make(`${origin}/${section}`, section, 'internal', 'anchor')));
+
+    // Page-specific children
+    const childCount = 2 + Math.floor(random() * 4);
+    for (let i = 0; i < childCount; i++) {
+      const slug = SLUGS[Math.floor(random() * SLUGS.length)];
+      const broken = random() < 0.08;
+      links.push(make(`${origin}${basePath}/${slug}-${i + 1}`, slug, 'internal', 'anchor', broken ? '404' : '200'));
+    }
+
+    links.push(make(`${origin}/assets/css/main.css`, 'main.css', 'resource', 'link_tag'));
+    links.push(make(`${origin}/assets/js/app.js`, 'app.js', 'resource', 'script_src'));
+    if (random() < 0.6) {
+      const image = `banner-${hashString(basePath) % 50}.png`;
+      links.push(make(`${origin}/images/${image}`, image, 'resource', 'img_src'));
+    }
+    if (random() < 0.3) {
+      links.push(make(`${origin}/api/content${basePath || '/home'}.json`, 'content.json', 'resource', 'api_call'));
+    }
+    if (random() < 0.4) {
+      links.push(make('https://www.facebook.com/', 'Facebook', 'external', 'anchor'));
+    }
+
+    // Drop self-references and duplicates produced by the global nav
+    const seen = new Set<string>([url]);
+    return { links: links.filter(l => !seen.has(l.url) && !!seen.add(l.url)) };
+  },
+  fetchRaw: async (url) => {
+    const { origin, pathname } = new URL(url);
+    if (pathname === '/robots.txt') {
+      return { url, status: 200, headers: { 'content-type': 'text/plain' }, body: fixtureRobots(origin) };
+    }
+    const sitemap = fixtureSitemaps(origin)[pathname];
+    if (sitemap) return { url, status: 200, headers: { 'content-type': 'application/xml' }, body: sitemap };
+    return { url, status: 404, headers: {}, body: '' };
+  }
+});
@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateExtractedLinks } from './gemini';
+
+const PAGE = 'https://site.test/blog/';
+const ROOT = 'https://site.test/';
+
+const entry = (url: unknown, overrides: Record<string, unknown> = {}) =>
+  ({ url, title: 'Link', type: 'internal', status: '200', discoverySource: 'anchor', ...overrides });
+
+const validate = (raw: unknown) => validateExtractedLinks(raw, PAGE, ROOT, 1);
+
+describe('validateExtractedLinks', () => {
+  it('resolves relative URLs against the page and keeps valid entries', () => {
+    const { links, rejected } = validate([entry('post-1#comments'), entry('/about', { title: '' })]);
+    assert.deepEqual(rejected, []);
+    assert.deepEqual(links.map(l => [l.url, l.type, l.title, l.depth, l.parentId]), [
+      ['https://site.test/blog/post-1', 'internal', 'Link', 2, PAGE],
+      ['https://site.test/about', 'internal', 'Untitled', 2, PAGE]
+    ]);
+  });
+
+  it('drops unparseable, non-http and missing URLs', () => {
+    const { links, rejected } = validate([
+      entry('http://'),
+      entry('mailto:office@site.test'),
+      entry('javascript:void(0)'),
+      entry(undefined),
+      entry('   '),
+      'https://site.test/not-an-object',
+      null
+    ]);
+    assert.deepEqual(links, []);
+    assert.deepEqual(rejected.map(r => [r.url, r.reason, r.action]), [
+      ['http://', 'Unparseable url', 'dropped'],
+      ['mailto:office@site.test', 'Unsupported scheme mailto:', 'dropped'],
+      ['javascript:void(0)', 'Unsupported scheme javascript:', 'dropped'],
+      ['(entry 4)', 'Missing url', 'dropped'],
+      ['(entry 5)', 'Missing url', 'dropped'],
+      ['(entry 6)', 'Not an object', 'dropped'],
+      ['(entry 7)', 'Not an object', 'dropped']
+    ]);
+  });
+
+  it('drops values outside the schema, self-references and duplicates', () => {
+    const { links, rejected } = validate([
+      entry('/a', { type: 'page' }),
+      entry('/b', { status: '418' }),
+      entry('/c', { discoverySource: 'guess' }),
+      entry('/d', { title: 42 }),
+      entry(PAGE),
+      entry('/e'),
+      entry('/e#top')
+    ]);
+    assert.deepEqual(links.map(l => l.url), ['https://site.test/e']);
+    assert.deepEqual(rejected.map(r => r.reason), [
+      'Invalid type "page"', 'Invalid status "418"', 'Invalid discoverySource "guess"', 'Non-string title', 'Self-reference', 'Duplicate'
+    ]);
+  });
+
+  it('corrects types that contradict the host or discovery source', () => {
+    const { links, rejected } = validate([
+      entry('https://elsewhere.test/', { type: 'internal' }),
+      entry('/contact', { type: 'external' }),
+      entry('/logo.png', { type: 'internal', discoverySource: 'img_src' }),
+      entry('https://cdn.test/app.js', { type: 'external', discoverySource: 'script_src' }),
+      entry('/pricing', { type: 'resource' }),
+      entry('/main.css', { type: 'resource', discoverySource: 'link_tag' }),
+      entry('https://elsewhere.test/team', { type: 'external' })
+    ]);
+    assert.deepEqual(links.map(l => [new URL(l.url).pathname, l.type]), [
+      ['/', 'external'],
+      ['/contact', 'internal'],
+      ['/logo.png', 'resource'],
+      ['/app.js', 'resource'],
+      ['/pricing', 'internal'],
+      ['/main.css', 'resource'],
+      ['/team', 'external']
+    ]);
+    assert.ok(rejected.every(r => r.action === 'reclassified'));
+    assert.deepEqual(rejected.map(r => r.reason), [
+      'Marked internal but host is elsewhere.test',
+      'Marked external but host is site.test',
+      'Marked internal but loaded via img_src',
+      'Marked external but loaded via script_src',
+      'Marked resource but is a page linked by an anchor'
+    ]);
+  });
+
+  it('rejects a reply that is not an array', () => {
+    assert.deepEqual(validate({ links: [] }), {
+      links: [],
+      rejected: [{ url: '(response)', reason: 'Response is not a JSON array', action: 'dropped' }]
+    });
+  });
+});
@@ -1,33 +1,137 @@
-import { GoogleGenAI } from "@google/genai";
-import { LinkNode } from "../types";
-
-// Helper to determine content type based on extension
-const guessContentType = (url: string): LinkNode['contentType'] => {
-  if (url.match(/\.(jpg|jpeg|gif|webp)$/i)) return 'image/jpeg';
-  if (url.match(/\.png$/i)) return 'image/png';
-  if (url.match(/\.js$/i)) return 'application/javascript';
-  if (url.match(/\.css$/i)) return 'text/css';
-  if (url.match(/\.pdf$/i)) return 'application/pdf';
-  if (url.match(/\.json$/i)) return 'application/json';
-  return 'text/html';
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { DiscoverySource, LinkNode } from "../types";
+import { guessContentType } from "./contentType";
+import { KeyRateLimiter, parseRetryAfter } from "./keyRateLimiter";
+import { LinkExtractor, RejectedLink } from "./linkExtractor";
+import { SeoReport } from "./seoAudit";
+import { STRUCTURE_ISSUES, StructureReport } from "./siteStructure";
+
+const LINK_TYPES: LinkNode['type'][] = ['internal', 'external', 'resource'];
+const LINK_STATUSES: LinkNode['status'][] = ['200', '301', '302', '403', '404', '500'];
+const LINK_SOURCES: DiscoverySource[] = ['anchor', 'img_src', 'script_src', 'link_tag', 'form_action', 'meta_tag', 'api_call'];
+
+// Sources that load a URL into the page rather than link to it; whatever they point at is an asset
+const LOADED_SOURCES: DiscoverySource[] = ['img_src', 'script_src', 'api_call'];
+
+// Narrows a string to one of the schema's enum values
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+// Structured output: the model can only answer with an array of these objects
+const LINK_RESPONSE_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      url: { type: Type.STRING, description: 'Absolute or page-relative URL of the link' },
+      title: { type: Type.STRING, description: 'Link text or file name' },
+      type: { type: Type.STRING, enum: LINK_TYPES },
+      status: { type: Type.STRING, enum: LINK_STATUSES },
+      discoverySource: { type: Type.STRING, enum: LINK_SOURCES }
+    },
+    required: ['url', 'type', 'status', 'discoverySource'],
+    propertyOrdering: ['url', 'title', 'type', 'status', 'discoverySource']
+  }
+};
+
+// The type the link's own facts imply, when the model's answer contradicts them
+const correctType = (declared: LinkNode['type'], url: URL, source: DiscoverySource, rootHost: string): { type: LinkNode['type']; reason: string } | undefined => {
+  const byHost = url.host === rootHost ? 'internal' : 'external';
+  if (declared !== 'resource' && LOADED_SOURCES.includes(source)) return { type: 'resource', reason: `Marked ${declared} but loaded via ${source}` };
+  if (declared === 'resource' && source === 'anchor' && guessContentType(url.toString()) === 'text/html') {
+    return { type: byHost, reason: 'Marked resource but is a page linked by an anchor' };
+  }
+  if (declared !== 'resource' && declared !== byHost) return { type: byHost, reason: `Marked ${declared} but host is ${url.host}` };
+  return undefined;
+};
+
+/**
+ * Runtime check of whatever came back, because the schema constrains the model but not a malformed reply.
+ * Relative URLs are resolved against the page; entries that can't be trusted are dropped, and a type that
+ * contradicts the host or discovery source is corrected. Everything that was touched is reported back.
+ */
+export const validateExtractedLinks = (
+  raw: unknown,
+  currentUrl: string,
+  rootUrl: string,
+  currentDepth: number
+): { links: LinkNode[]; rejected: RejectedLink[] } => {
+  const rejected: RejectedLink[] = [];
+  if (!Array.isArray(raw)) {
+    return { links: [], rejected: [{ url: '(response)', reason: 'Response is not a JSON array', action: 'dropped' }] };
+  }
+
+  const rootHost = new URL(rootUrl).host;
+  const seen = new Set<string>([currentUrl]);
+  const links: LinkNode[] = [];
+
+  raw.forEach((entry: unknown, i) => {
+    const drop = (reason: string, label = `(entry ${i + 1})`) => rejected.push({ url: label, reason, action: 'dropped' });
+
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return drop('Not an object');
+    const item = entry as Record<string, unknown>;
+    if (typeof item.url !== 'string' || !item.url.trim()) return drop('Missing url');
+    const rawUrl = item.url.trim();
+
+    let url: URL;
+    try {
+      url = new URL(rawUrl, currentUrl);
+    } catch {
+      return drop('Unparseable url', rawUrl);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return drop(`Unsupported scheme ${url.protocol}`, rawUrl);
+    url.hash = '';
+    const absolute = url.toString();
+
+    const { type: declaredType, status, discoverySource, title } = item;
+    if (!isOneOf(LINK_TYPES, declaredType)) return drop(`Invalid type "${declaredType}"`, rawUrl);
+    if (!isOneOf(LINK_STATUSES, status)) return drop(`Invalid status "${status}"`, rawUrl);
+    if (!isOneOf(LINK_SOURCES, discoverySource)) return drop(`Invalid discoverySource "${discoverySource}"`, rawUrl);
+    if (title !== undefined && typeof title !== 'string') return drop('Non-string title', rawUrl);
+    if (seen.has(absolute)) return drop(absolute === currentUrl ? 'Self-reference' : 'Duplicate', rawUrl);
+    seen.add(absolute);
+
+    const corrected = correctType(declaredType, url, discoverySource, rootHost);
+    if (corrected) rejected.push({ url: absolute, reason: corrected.reason, action: 'reclassified' });
+    const type = corrected?.type ?? declaredType;
+
+    links.push({
+      id: absolute,
+      url: absolute,
+      title: typeof title === 'string' && title ? title : "Untitled",
+      depth: currentDepth + 1,
+      parentId: currentUrl,
+      status,
+      type,
+      contentType: guessContentType(absolute),
+      size: Math.floor(Math.random() * 100) + 5,
+      discoverySource,
+      detectedTech: [],
+      scanned: false,
+      responseTime: Math.floor(Math.random() * 200) + 20
+    });
+  });
+
+  return { links, rejected };
 };
 
 /**
  * Simulates visiting a SINGLE page and extracting its immediate children.
- * Supports Multi-Key Rotation: If a key hits quota limits, it automatically switches to the next one.
+ * Every request goes through the shared key rate limiter: it picks the key, and a 429 puts that key
+ * into cooldown (honoring Retry-After) while the request is retried on whichever key is free next.
  */
 export const fetchPageLinks = async (
   apiKeys: string[],
-  activeKeyIndex: number,
+  limiter: KeyRateLimiter,
   currentUrl: string,
   rootUrl: string,
   currentDepth: number
-): Promise<{ links: LinkNode[], usedKeyIndex: number }> => {
+): Promise<{ links: LinkNode[], usedKeyIndex?: number, rejected?: RejectedLink[] }> => {
   if (!apiKeys || apiKeys.length === 0) throw new Error("No API Keys provided.");
 
   // If it's a resource (image/css/js), it likely has no children to crawl.
   if (guessContentType(currentUrl) !== 'text/html') {
-    return { links: [], usedKeyIndex: activeKeyIndex };
+    return { links: [] };
   }
 
   const prompt = `
@@ -51,118 +155,124 @@ export const fetchPageLinks = async (
       {
         "url": "absolute_url",
         "title": "link_text_or_filename",
-        "type": "internal" | "external" | "resource",
-        "status": "200" | "404" | "500",
-        "discoverySource": "anchor" | "img_src" | "script_src" | "api_call"
+        "type": ${LINK_TYPES.map(t => `"${t}"`).join(' | ')},
+        "status": ${LINK_STATUSES.map(t => `"${t}"`).join(' | ')},
+        "discoverySource": ${LINK_SOURCES.map(t => `"${t}"`).join(' | ')}
       }
     ]
   `;
 
   let lastError: any = null;
+  let failures = 0;
 
-  // Key Rotation Loop
-  for (let keyIdx = activeKeyIndex; keyIdx < apiKeys.length; keyIdx++) {
-      const apiKey = apiKeys[keyIdx];
-      const ai = new GoogleGenAI({ apiKey });
-      
-      // Retry logic for transient errors (500, Network) on the CURRENT key
-      for (let attempt = 0; attempt < 3; attempt++) {
-        try {
-          const response = await ai.models.generateContent({
-            model: 'gemini-3-flash-preview', 
-            contents: { parts: [{ text: prompt }] },
-            config: {
-              responseMimeType: 'application/json',
-            }
-          });
-
-          const text = response.text;
-          if (!text) return { links: [], usedKeyIndex: keyIdx };
-
-          const cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
-
-          let rawLinks: any[] = [];
-          try {
-              rawLinks = JSON.parse(cleanText);
-          } catch (e) {
-              console.warn("Failed to parse Gemini response", text);
-              return { links: [], usedKeyIndex: keyIdx };
+  // Quota errors only cost the key a cooldown; give every key a few chances before giving up
+  for (let attempt = 0; attempt < apiKeys.length * 3 + 2; attempt++) {
+      const keyIdx = await limiter.acquire(apiKeys.length);
+      const ai = new GoogleGenAI({ apiKey: apiKeys[keyIdx] });
+
+      try {
+        const response = await ai.models.generateContent({
+          model: 'gemini-3-flash-preview', 
+          contents: { parts: [{ text: prompt }] },
+          config: {
+            responseMimeType: 'application/json',
+            responseSchema: LINK_RESPONSE_SCHEMA,
           }
+        });
+
+        const text = response.text;
+        if (!text) return { links: [], usedKeyIndex: keyIdx };
 
-          // Map to LinkNode structure
-          const links = rawLinks.map((link: any) => ({
-            id: link.url,
-            url: link.url,
-            title: link.title || "Untitled",
-            depth: currentDepth + 1,
-            parentId: currentUrl,
-            status: (link.status as any) || '200',
-            type: (link.type as any) || 'internal',
-            contentType: guessContentType(link.url),
-            size: Math.floor(Math.random() * 100) + 5,
-            discoverySource: (link.discoverySource as any) || 'anchor',
-            detectedTech: [],
-            scanned: false,
-            responseTime: Math.floor(Math.random() * 200) + 20
-          }));
-
-          return { links, usedKeyIndex: keyIdx };
-
-        } catch (error: any) {
-           lastError = error;
-           
-           // Check for Rate Limit (429) or Quota Exceeded errors
-           const isQuotaError = 
-             error.status === 429 || 
-             error.code === 429 || 
-             error.status === 'RESOURCE_EXHAUSTED' || 
-             (error.message && (error.message.includes('429') || error.message.includes('quota')));
-
-           if (isQuotaError) {
-               console.warn(`Key #${keyIdx + 1} hit 429/Quota limits. Handling retry logic...`);
-               
-               // Requirement: If 429, wait 10 seconds and retry the SAME key before giving up or switching.
-               if (attempt < 2) {
-                   console.warn(`Waiting 10s to cool down Key #${keyIdx + 1} (Attempt ${attempt + 1}/3)...`);
-                   await new Promise(resolve => setTimeout(resolve, 10000)); // 10 seconds delay
-                   continue; // Retry the loop with the same key
-               } else {
-                   // If it still fails after cooling down, switch to next key
-                   console.warn(`Key #${keyIdx + 1} exhausted after retries. Switching key.`);
-                   break; // Break inner loop, continue outer key loop
-               }
-           }
-
-           console.warn(`Attempt ${attempt + 1} failed for ${currentUrl} on Key #${keyIdx + 1}:`, error.message);
-           
-           if (attempt === 2) {
-               console.error("Recursive Crawl Step Failed after 3 attempts on current key:", error);
-               // Throw error so the main app can log it properly
-               throw error;
-           }
-           
-           // Standard Backoff for non-429 errors (e.g. 500 or Network)
-           await new Promise(resolve => setTimeout(resolve, 2000 * (attempt + 1)));
+        let raw: unknown;
+        try {
+            raw = JSON.parse(text);
+        } catch (e) {
+            return { links: [], usedKeyIndex: keyIdx, rejected: [{ url: '(response)', reason: 'Response is not valid JSON', action: 'dropped' }] };
         }
+
+        const { links, rejected } = validateExtractedLinks(raw, currentUrl, rootUrl, currentDepth);
+        return { links, usedKeyIndex: keyIdx, rejected };
+
+      } catch (error: any) {
+         lastError = error;
+         
+         // Check for Rate Limit (429) or Quota Exceeded errors
+         const isQuotaError = 
+           error.status === 429 || 
+           error.code === 429 || 
+           error.status === 'RESOURCE_EXHAUSTED' || 
+           (error.message && (error.message.includes('429') || error.message.includes('quota')));
+
+         if (isQuotaError) {
+             const retryAfter = parseRetryAfter(error);
+             console.warn(`Key #${keyIdx + 1} hit 429/Quota limits. Cooling down ${retryAfter !== undefined ? `${Math.round(retryAfter / 1000)}s (Retry-After)` : 'with default backoff'}.`);
+             limiter.reportRateLimited(keyIdx, retryAfter);
+             continue;
+         }
+
+         failures++;
+         console.warn(`Attempt ${failures} failed for ${currentUrl} on Key #${keyIdx + 1}:`, error.message);
+         
+         if (failures === 3) {
+             console.error("Recursive Crawl Step Failed after 3 attempts:", error);
+             // Throw error so the main app can log it properly
+             throw error;
+         }
+         
+         // Standard Backoff for non-429 errors (e.g. 500 or Network)
+         await new Promise(resolve => setTimeout(resolve, 2000 * failures));
       }
-      // If we are here, 'break' was called due to Quota Error. Loop continues to next key.
   }
 
-  // If we exit the key loop, all keys are exhausted or failed.
-  if (lastError) {
-      throw lastError;
+  // Every key kept answering 429
+  throw lastError ?? new Error("All API keys are rate limited.");
+};
+
+export interface KeyPool {
+  getKeys: () => string[];
+  limiter: KeyRateLimiter;
+}
+
+/**
+ * Wraps fetchPageLinks as a LinkExtractor. The pool is read lazily so keys pasted mid-crawl are picked up.
+ */
+export const createGeminiExtractor = (pool: KeyPool): LinkExtractor => ({
+  id: 'gemini',
+  label: 'Gemini',
+  capabilities: { requiresApiKey: true, realNetwork: false, deterministic: false, realStatus: false },
+  extract: async ({ url, rootUrl, depth }) => {
+    return fetchPageLinks(pool.getKeys(), pool.limiter, url, rootUrl, depth);
   }
+});
 
-  return { links: [], usedKeyIndex: apiKeys.length - 1 };
-};
+// Results of the crawl's own audits; each one present adds a section to the report prompt
+export interface CrawlFindings {
+    seo?: SeoReport;
+    structure?: StructureReport;
+}
+
+const describeSeo = (seo: SeoReport) => seo.checks.length === 0
+    ? `SEO Audit: ${seo.pagesAudited} pages checked, no issues.`
+    : `SEO Audit (${seo.pagesAudited} pages checked):\n` + seo.checks
+        .map(c => `      - [${c.severity}] ${c.label}: ${c.urls.length} URLs (e.g. ${c.urls.slice(0, 2).join(', ')})`)
+        .join('\n');
 
-export const analyzeOrphans = async (apiKey: string, nodes: LinkNode[]): Promise<string> => {
+const describeStructure = (structure: StructureReport) => `Link Structure (${structure.pagesAnalyzed} pages, ${structure.edges} internal links):\n` + STRUCTURE_ISSUES
+    .map(({ id, description }) => {
+        const urls = structure.findings.filter(f => f.issue === id).map(f => f.url);
+        return `      - ${description}: ${urls.length} URLs${urls.length > 0 ? ` (e.g. ${urls.slice(0, 3).join(', ')})` : ''}`;
+    })
+    .join('\n');
+
+export const analyzeOrphans = async (apiKey: string, nodes: LinkNode[], findings: CrawlFindings = {}): Promise<string> => {
     if (!apiKey) return "API Key missing.";
     
     const ai = new GoogleGenAI({ apiKey });
 
     const scannedCount = nodes.filter(n => n.scanned).length;
     const resourceCount = nodes.filter(n => n.type === 'resource').length;
+    const seoSection = findings.seo && findings.seo.pagesAudited > 0 ? describeSeo(findings.seo) : null;
+    const structureSection = findings.structure && findings.structure.pagesAnalyzed > 0 ? describeStructure(findings.structure) : null;
     
     const prompt = `
       Generate a forensic crawl report.
@@ -172,8 +282,10 @@ export const analyzeOrphans = async (apiKey: string, nodes: LinkNode[]): Promise
       - Pages Fully Scanned: ${scannedCount}
       - Assets extracted: ${resourceCount}
       - Deepest level reached: ${Math.max(...nodes.map(n => n.depth))}
-      
-      Provide a concise 3-bullet technical assessment of the site's depth and asset structure.
+      ${structureSection ? `\n      ${structureSection}\n` : ''}${seoSection ? `\n      ${seoSection}\n` : ''}
+      Provide a concise 3-bullet technical assessment of the site's depth and asset structure.${structureSection ? `
+      Name the orphan, unreachable and dead-end pages above by URL and say how they hurt discovery; don't invent any the data doesn't list.` : ''}${seoSection ? `
+      Then add up to 3 bullets on the on-page SEO issues above, most severe and widespread first, citing the affected URL counts.` : ''}
     `;
 
     try {
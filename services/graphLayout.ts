@@ -0,0 +1,330 @@
+import * as d3 from 'd3';
+import { LinkNode } from "../types";
+
+export type GraphLayout = 'force' | 'tree' | 'radial' | 'directory';
+
+export const GRAPH_LAYOUTS: { id: GraphLayout; label: string; description: string }[] = [
+  { id: 'force', label: 'Force', description: 'Pages pull on the page that discovered them and push everything else away' },
+  { id: 'tree', label: 'Depth tree', description: 'Discovery tree with one row per crawl depth' },
+  { id: 'radial', label: 'Radial', description: 'Discovery tree in rings around the start page, one ring per crawl depth' },
+  { id: 'directory', label: 'Directories', description: 'Pages packed into one circle per URL path segment; click a circle to fold it' }
+];
+
+export type GraphColorBy = 'status' | 'contentType' | 'depth' | 'responseTime' | 'host';
+
+export const GRAPH_COLOR_BY: { id: GraphColorBy; label: string }[] = [
+  { id: 'status', label: 'Status' },
+  { id: 'contentType', label: 'Content type' },
+  { id: 'depth', label: 'Depth' },
+  { id: 'responseTime', label: 'Response time' },
+  { id: 'host', label: 'Host' }
+];
+
+export interface LegendEntry {
+  label: string;
+  color: string;
+}
+
+export interface GraphPalette {
+  color: (node: LinkNode) => string;
+  legend: LegendEntry[];
+}
+
+const UNKNOWN_COLOR = '#64748b';
+
+const STATUS_COLORS: LegendEntry[] = [
+  { label: '2xx', color: '#10b981' },
+  { label: '3xx', color: '#f59e0b' },
+  { label: '4xx / 5xx', color: '#ef4444' },
+  { label: 'Blocked', color: '#8b5cf6' },
+  { label: 'Not fetched', color: UNKNOWN_COLOR }
+];
+
+const CONTENT_TYPE_COLORS: Record<LinkNode['contentType'], string> = {
+  'text/html': '#10b981',
+  'application/json': '#22d3ee',
+  'image/jpeg': '#ec4899',
+  'image/png': '#f472b6',
+  'text/css': '#6366f1',
+  'application/javascript': '#eab308',
+  'application/pdf': '#f97316',
+  'other': UNKNOWN_COLOR
+};
+
+// Upper bounds in ms; the last bucket catches everything slower
+const RESPONSE_TIME_BUCKETS: { max: number; label: string; color: string }[] = [
+  { max: 200, label: '< 200 ms', color: '#10b981' },
+  { max: 500, label: '< 500 ms', color: '#84cc16' },
+  { max: 1000, label: '< 1 s', color: '#f59e0b' },
+  { max: 2000, label: '< 2 s', color: '#f97316' },
+  { max: Infinity, label: '≥ 2 s', color: '#ef4444' }
+];
+
+// Hosts beyond this many share the "other" colour
+const MAX_HOST_COLORS = 9;
+
+const statusColor = (status: string) => {
+  if (status.startsWith('2')) return STATUS_COLORS[0].color;
+  if (status.startsWith('3')) return STATUS_COLORS[1].color;
+  if (status.startsWith('4') || status.startsWith('5')) return STATUS_COLORS[2].color;
+  if (status === 'blocked') return STATUS_COLORS[3].color;
+  return UNKNOWN_COLOR;
+};
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Node colours for one colour-by mode. Depth and host scales are fitted to the nodes given,
+ * so the legend only lists values that are actually on the map.
+ */
+export const graphPalette = (nodes: LinkNode[], colorBy: GraphColorBy): GraphPalette => {
+  switch (colorBy) {
+    case 'status':
+      return { color: n => statusColor(n.status), legend: STATUS_COLORS };
+    case 'contentType': {
+      const present = new Set(nodes.map(n => n.contentType));
+      return {
+        color: n => CONTENT_TYPE_COLORS[n.contentType] ?? UNKNOWN_COLOR,
+        legend: (Object.keys(CONTENT_TYPE_COLORS) as LinkNode['contentType'][])
+          .filter(type => present.has(type))
+          .map(type => ({ label: type, color: CONTENT_TYPE_COLORS[type] }))
+      };
+    }
+    case 'depth': {
+      const maxDepth = nodes.reduce((max, n) => Math.max(max, n.depth), 0);
+      const scale = d3.scaleSequential(d3.interpolatePlasma).domain([maxDepth + 1, 0]); // deepest stays clear of the near-black end
+      return {
+        color: n => scale(n.depth),
+        legend: d3.range(maxDepth + 1).map((depth: number) => ({ label: `Depth ${depth}`, color: scale(depth) }))
+      };
+    }
+    case 'responseTime':
+      return {
+        color: n => n.responseTime === undefined ? UNKNOWN_COLOR : RESPONSE_TIME_BUCKETS.find(b => n.responseTime! < b.max)!.color,
+        legend: [...RESPONSE_TIME_BUCKETS, { label: 'Not measured', color: UNKNOWN_COLOR }]
+      };
+    case 'host': {
+      const counts = new Map<string, number>();
+      nodes.forEach(n => {
+        const host = hostOf(n.url);
+        counts.set(host, (counts.get(host) ?? 0) + 1);
+      });
+      // Busiest hosts get their own colour
+      const ranked = [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([host]) => host);
+      const colors = new Map<string, string>(ranked.slice(0, MAX_HOST_COLORS).map((host, i) => [host, d3.schemeTableau10[i]]));
+      return {
+        color: n => colors.get(hostOf(n.url)) ?? UNKNOWN_COLOR,
+        legend: [
+          ...[...colors.entries()].map(([host, color]) => ({ label: host || '(invalid URL)', color })),
+          ...(ranked.length > MAX_HOST_COLORS ? [{ label: `${ranked.length - MAX_HOST_COLORS} other hosts`, color: UNKNOWN_COLOR }] : [])
+        ]
+      };
+    }
+  }
+};
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// A URL path prefix in the directory layout, drawn as a circle around everything below it
+export interface DirectoryGroup extends Point {
+  key: string; // DIRECTORY_PREFIX + origin + path, ending in '/'
+  label: string;
+  pages: number; // every page below this directory, including nested ones
+  r: number;
+  collapsed: boolean;
+}
+
+export interface StaticLayout {
+  positions: Map<string, Point>; // every visible page, by URL
+  links: [string, string][];     // parent URL -> child URL
+  groups: DirectoryGroup[];      // outer directories before the ones nested in them
+}
+
+// Group keys share the collapsed set with page URLs, so they must never look like one
+export const DIRECTORY_PREFIX = 'dir:';
+
+/**
+ * Pages hidden because an ancestor in the discovery tree (parentId chain) is collapsed,
+ * and how many each collapsed page hides.
+ */
+export const collapseTree = (nodes: LinkNode[], collapsed: Set<string>) => {
+  const hidden = new Set<string>();
+  const hiddenBelow = new Map<string, number>();
+  if (collapsed.size === 0) return { hidden, hiddenBelow };
+
+  const children = childrenByParent(nodes);
+  for (const url of collapsed) {
+    if (hidden.has(url) || !children.has(url)) continue;
+    let count = 0;
+    const stack = [...children.get(url)!];
+    while (stack.length > 0) {
+      const n = stack.pop()!;
+      if (hidden.has(n.url) || n.url === url) continue; // already counted, or a cycle back to the start
+      hidden.add(n.url);
+      count++;
+      stack.push(...(children.get(n.url) ?? []));
+    }
+    hiddenBelow.set(url, count);
+  }
+  // A collapsed page inside another collapsed subtree is not on screen to show its count
+  hidden.forEach(url => hiddenBelow.delete(url));
+  return { hidden, hiddenBelow };
+};
+
+const childrenByParent = (nodes: LinkNode[]) => {
+  const urls = new Set(nodes.map(n => n.url));
+  const children = new Map<string, LinkNode[]>();
+  for (const n of nodes) {
+    if (!n.parentId || n.parentId === n.url || !urls.has(n.parentId)) continue;
+    if (!children.has(n.parentId)) children.set(n.parentId, []);
+    children.get(n.parentId)!.push(n);
+  }
+  return children;
+};
+
+interface TreeDatum {
+  node?: LinkNode; // undefined for the invisible root joining several parentless pages
+  children: TreeDatum[];
+}
+
+const TREE_NODE_WIDTH = 16;
+const TREE_ROW_HEIGHT = 90;
+const RADIAL_RING_MIN = 90;
+
+/**
+ * The discovery tree (each page under the page that found it) laid out either top-down with one row
+ * per crawl depth, or in concentric rings around the start page. Hidden pages are left out entirely.
+ */
+export const layoutTree = (nodes: LinkNode[], hidden: Set<string>, radial: boolean): StaticLayout => {
+  const visible = nodes.filter(n => !hidden.has(n.url));
+  const children = childrenByParent(visible);
+  const build = (node: LinkNode, seen: Set<string>): TreeDatum => {
+    seen.add(node.url);
+    return { node, children: (children.get(node.url) ?? []).filter(c => !seen.has(c.url)).map(c => build(c, seen)) };
+  };
+
+  // Parentless pages (the seed, sitemap finds, pages whose parent is filtered out) hang off one root;
+  // anything still unplaced sits in a parentId cycle and joins it too
+  const seen = new Set<string>();
+  const known = new Set(visible.map(n => n.url));
+  const tops = visible
+    .filter(n => !n.parentId || n.parentId === n.url || !known.has(n.parentId))
+    .sort((a, b) => a.depth - b.depth)
+    .map(n => build(n, seen));
+  visible.forEach(n => { if (!seen.has(n.url)) tops.push(build(n, seen)); });
+
+  const layout: StaticLayout = { positions: new Map(), links: [], groups: [] };
+  if (tops.length === 0) return layout;
+  const single = tops.length === 1;
+  const root = d3.hierarchy(single ? tops[0] : { children: tops }, (d: TreeDatum) => d.children);
+  // A hidden root takes the centre (radial) or the row above the seed (tree)
+  const offset = single ? 0 : 1;
+
+  if (radial) {
+    const rings = (root.height || 1);
+    // The outer ring must be long enough to give every leaf its own slot
+    const ring = Math.max(RADIAL_RING_MIN, (root.leaves().length * TREE_NODE_WIDTH) / (2 * Math.PI * rings));
+    d3.tree().size([2 * Math.PI, 1]).separation((a: any, b: any) => (a.parent === b.parent ? 1 : 2) / Math.max(a.depth, 1))(root);
+    root.each((d: any) => {
+      if (!d.data.node) return;
+      const r = (d.data.node.depth + offset) * ring;
+      // The start page sits in the centre even when a few sitemap pages share depth 0 with it
+      const radius = d.depth === 0 ? 0 : Math.max(r, ring);
+      layout.positions.set(d.data.node.url, { x: radius * Math.sin(d.x), y: -radius * Math.cos(d.x) });
+    });
+  } else {
+    d3.tree().nodeSize([TREE_NODE_WIDTH, TREE_ROW_HEIGHT])(root);
+    root.each((d: any) => {
+      if (d.data.node) layout.positions.set(d.data.node.url, { x: d.x, y: (d.data.node.depth + offset) * TREE_ROW_HEIGHT });
+    });
+  }
+
+  root.each((d: any) => {
+    if (d.parent?.data.node && d.data.node) layout.links.push([d.parent.data.node.url, d.data.node.url]);
+  });
+  return layout;
+};
+
+// Directory keys from the host down to the one holding the page, e.g. dir:https://a.com/, dir:https://a.com/news/
+export const directoryAncestors = (url: string): string[] => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return [`${DIRECTORY_PREFIX}other/`];
+  }
+  const segments = parsed.pathname.split('/').slice(1, -1); // drop the leading '' and the file name
+  const keys = [`${DIRECTORY_PREFIX}${parsed.origin}/`];
+  segments.forEach((_, i) => keys.push(`${DIRECTORY_PREFIX}${parsed.origin}/${segments.slice(0, i + 1).join('/')}/`));
+  return keys;
+};
+
+interface DirectoryDatum {
+  key: string;
+  label: string;
+  pages: number;
+  node?: LinkNode;
+  groups: Map<string, DirectoryDatum>;
+  members: LinkNode[];
+  collapsed?: boolean;
+}
+
+const DIRECTORY_PADDING = 4;
+
+/**
+ * Pages packed into nested circles by URL path: one circle per host, one per path segment inside it.
+ * A collapsed directory becomes a single solid circle sized by the number of pages it hides.
+ */
+export const layoutDirectories = (nodes: LinkNode[], collapsed: Set<string>, radius: (node: LinkNode) => number): StaticLayout => {
+  const top: DirectoryDatum = { key: '', label: '', pages: 0, groups: new Map(), members: [] };
+  for (const n of nodes) {
+    let group = top;
+    group.pages++;
+    for (const key of directoryAncestors(n.url)) {
+      if (!group.groups.has(key)) {
+        const path = key.slice(DIRECTORY_PREFIX.length);
+        const label = group === top ? path : `${path.slice(0, -1).split('/').pop()}/`;
+        group.groups.set(key, { key, label, pages: 0, groups: new Map(), members: [] });
+      }
+      group = group.groups.get(key)!;
+      group.pages++;
+    }
+    group.members.push(n);
+  }
+
+  const layout: StaticLayout = { positions: new Map(), links: [], groups: [] };
+  if (nodes.length === 0) return layout;
+
+  // With a single host its directory is the outermost circle
+  const start = top.groups.size === 1 && top.members.length === 0 ? [...top.groups.values()][0] : top;
+  const childrenOf = (d: DirectoryDatum): DirectoryDatum[] | null => {
+    if (d.node || (d.key && collapsed.has(d.key))) return null;
+    return [
+      ...d.groups.values(),
+      ...d.members.map(node => ({ key: node.url, label: '', pages: 1, node, groups: new Map(), members: [] }))
+    ];
+  };
+  const root = d3.hierarchy(start, childrenOf);
+  d3.pack()
+    .radius((d: any) => d.data.node ? radius(d.data.node) + 1 : 8 + Math.sqrt(d.data.pages) * 3)
+    .padding(DIRECTORY_PADDING)(root);
+
+  root.each((d: any) => {
+    const datum: DirectoryDatum = d.data;
+    if (datum.node) {
+      layout.positions.set(datum.node.url, { x: d.x, y: d.y });
+    } else if (datum.key) {
+      layout.groups.push({ key: datum.key, label: datum.label, pages: datum.pages, x: d.x, y: d.y, r: d.r, collapsed: collapsed.has(datum.key) });
+    }
+  });
+  return layout;
+};
@@ -0,0 +1,180 @@
+import { DiscoverySource } from "../types";
+
+/**
+ * Minimal, dependency-free HTML tokenizer. It runs in both the browser and Node (crawl proxy / CLI),
+ * so it deliberately avoids DOMParser. It is not a full HTML5 parser: it yields the start tags in
+ * document order with their attributes, plus the text content of a handful of tags we care about
+ * and which of those tags each one sits inside (an <img> in an <a>, an <input> in a <label>).
+ */
+export interface HtmlTag {
+  name: string;                  // lowercased tag name
+  attrs: Record<string, string>; // lowercased attribute names, entity-decoded values
+  text: string;                  // inner text, only populated for TEXT_TAGS
+  position: number;              // index of the tag among all start tags
+  ancestors: number[];           // positions of the enclosing TEXT_TAGS, outermost first
+}
+
+// Tags whose inner text we collect (link text, headings, labels...)
+const TEXT_TAGS = new Set(['a', 'title', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'label', 'button']);
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea']);
+
+const TOKEN_RE = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/g;
+const ATTR_RE = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attrs: Record<string, string> = {};
+  ATTR_RE.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTR_RE.exec(source))) {
+    const name = match[1].toLowerCase();
+    if (name in attrs) continue; // first occurrence wins, as in browsers
+    attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+};
+
+export const parseHtml = (html: string): HtmlTag[] => {
+  const tags: HtmlTag[] = [];
+  const open: HtmlTag[] = []; // currently open TEXT_TAGS
+  const lowered = html.toLowerCase();
+  let cursor = 0;
+
+  const appendText = (raw: string) => {
+    if (open.length === 0 || !raw) return;
+    const text = decodeEntities(raw);
+    open.forEach(tag => { tag.text += text; });
+  };
+
+  TOKEN_RE.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_RE.exec(html))) {
+    appendText(html.slice(cursor, match.index));
+    cursor = TOKEN_RE.lastIndex;
+
+    const [, closing, rawName, rawAttrs] = match;
+    if (!rawName) continue; // comment, doctype or CDATA
+    const name = rawName.toLowerCase();
+
+    if (closing) {
+      const idx = open.map(t => t.name).lastIndexOf(name);
+      if (idx !== -1) open.splice(idx);
+      continue;
+    }
+
+    const tag: HtmlTag = { name, attrs: parseAttributes(rawAttrs || ''), text: '', position: tags.length, ancestors: open.map(t => t.position) };
+    tags.push(tag);
+
+    if (RAW_TEXT_TAGS.has(name)) {
+      // Skip straight to the closing tag so script bodies never produce fake tags
+      const end = lowered.indexOf(`</${name}`, cursor);
+      cursor = end === -1 ? html.length : end;
+      TOKEN_RE.lastIndex = cursor;
+      continue;
+    }
+    if (TEXT_TAGS.has(name) && !VOID_TAGS.has(name)) open.push(tag);
+  }
+
+  tags.forEach(tag => { if (tag.text) tag.text = tag.text.replace(/\s+/g, ' ').trim(); });
+  return tags;
+};
+
+export interface DiscoveredLink {
+  url: string;             // absolute, fragment-free
+  source: DiscoverySource;
+  tag: string;
+  text: string;            // anchor text, alt text or the attribute name it came from
+  rel: string[];
+  position: number;
+  isResource: boolean;     // true for things that are loaded, not navigated to
+}
+
+// <link rel=...> values that point at another document rather than a subresource
+const NAVIGATIONAL_RELS = new Set(['canonical', 'alternate', 'next', 'prev', 'author', 'help', 'license', 'search']);
+const META_URL_PROPERTIES = new Set(['og:url', 'og:image', 'og:video', 'og:audio', 'twitter:image', 'twitter:player']);
+
+const resolve = (raw: string, baseUrl: string): string | null => {
+  const trimmed = raw.trim();
+  if (!trimmed) return null;
+  try {
+    const target = new URL(trimmed, baseUrl);
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') return null;
+    target.hash = '';
+    return target.toString();
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Pulls every URL-bearing reference out of a parsed page, tagged with the discovery source that produced it.
+ */
+export const discoverLinks = (tags: HtmlTag[], pageUrl: string): DiscoveredLink[] => {
+  // <base href> changes how every relative URL on the page resolves
+  const baseTag = tags.find(t => t.name === 'base' && t.attrs.href);
+  const baseUrl = (baseTag && resolve(baseTag.attrs.href, pageUrl)) || pageUrl;
+  const links: DiscoveredLink[] = [];
+
+  const push = (raw: string | undefined, tag: HtmlTag, source: DiscoverySource, isResource: boolean, text: string) => {
+    if (!raw) return;
+    const url = resolve(raw, baseUrl);
+    if (!url) return;
+    const rel = (tag.attrs.rel || '').toLowerCase().split(/\s+/).filter(Boolean);
+    links.push({ url, source, tag: tag.name, text: text.slice(0, 200), rel, position: tag.position, isResource });
+  };
+
+  for (const tag of tags) {
+    switch (tag.name) {
+      case 'a':
+      case 'area':
+        push(tag.attrs.href, tag, 'anchor', false, tag.text || tag.attrs.title || tag.attrs['aria-label'] || '');
+        break;
+      case 'img':
+        push(tag.attrs.src, tag, 'img_src', true, tag.attrs.alt || '');
+        break;
+      case 'script':
+        push(tag.attrs.src, tag, 'script_src', true, '');
+        break;
+      case 'link': {
+        const rels = (tag.attrs.rel || '').toLowerCase().split(/\s+/);
+        push(tag.attrs.href, tag, 'link_tag', !rels.some(r => NAVIGATIONAL_RELS.has(r)), tag.attrs.rel || '');
+        break;
+      }
+      case 'form':
+        // A form without action submits to the page itself, which we already know about
+        push(tag.attrs.action, tag, 'form_action', false, tag.attrs.method || 'get');
+        break;
+      case 'meta': {
+        const property = (tag.attrs.property || tag.attrs.name || '').toLowerCase();
+        if (META_URL_PROPERTIES.has(property)) {
+          push(tag.attrs.content, tag, 'meta_tag', property.includes('image') || property.includes('video') || property.includes('audio') || property.includes('player'), property);
+        } else if ((tag.attrs['http-equiv'] || '').toLowerCase() === 'refresh') {
+          const target = /url\s*=\s*['"]?([^'"]+)/i.exec(tag.attrs.content || '');
+          push(target?.[1], tag, 'meta_tag', false, 'refresh');
+        }
+        break;
+      }
+    }
+  }
+  return links;
+};
+
+export const getTitle = (tags: HtmlTag[]): string | undefined =>
+  tags.find(t => t.name === 'title')?.text || undefined;
+
+// Resolved href of the first <link rel="canonical">, if any
+export const getCanonical = (tags: HtmlTag[], pageUrl: string): string | undefined => {
+  const tag = tags.find(t => t.name === 'link' && (t.attrs.rel || '').toLowerCase().split(/\s+/).includes('canonical') && t.attrs.href);
+  return tag ? resolve(tag.attrs.href, pageUrl) ?? undefined : undefined;
+};
@@ -0,0 +1,48 @@
+import { LinkEdge, LinkNode } from "../types";
+import { ExtractorError, LinkExtractor, RawResource } from "./linkExtractor";
+
+// Served by server/crawlProxy.ts, mounted on the Vite dev/preview server
+const PROXY_ENDPOINT = '/api/crawl';
+const RAW_ENDPOINT = '/api/fetch';
+
+export interface HttpExtractorOptions {
+  includeAssets: boolean;
+}
+
+/**
+ * Fetches the real page through the local crawl proxy, which downloads and parses it server-side
+ * (no CORS restrictions) and answers with measured LinkNodes.
+ */
+export const createHttpExtractor = (options: HttpExtractorOptions): LinkExtractor => ({
+  id: 'http',
+  label: 'HTTP',
+  capabilities: { requiresApiKey: false, realNetwork: true, deterministic: false, realStatus: true },
+  extract: async ({ url, rootUrl, depth }) => {
+    const query = new URLSearchParams({
+      url,
+      root: rootUrl,
+      depth: String(depth),
+      assets: options.includeAssets ? '1' : '0'
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(`${PROXY_ENDPOINT}?${query}`);
+    } catch (e: any) {
+      throw new ExtractorError(`Crawl proxy unreachable: ${e.message}`, '500', true);
+    }
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok || !body) {
+      throw new ExtractorError(body?.error || `Crawl proxy answered ${response.status}`, '500', response.status === 502);
+    }
+
+    return body as { links: LinkNode[]; page: Partial<LinkNode>; edges: LinkEdge[] };
+  },
+  fetchRaw: async (url) => {
+    const response = await fetch(`${RAW_ENDPOINT}?${new URLSearchParams({ url })}`);
+    const body = await response.json().catch(() => null);
+    if (!response.ok || !body) throw new ExtractorError(body?.error || `Crawl proxy answered ${response.status}`, '500', true);
+    return body as RawResource;
+  }
+});
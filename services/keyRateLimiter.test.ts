@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createKeyRateLimiter, keyState, parseRetryAfter } from './keyRateLimiter';
+
+// 1200 requests per minute refills one token every 50ms
+const FAST = { rpm: 1200, rpd: 1000 };
+
+const timed = async <T>(task: () => Promise<T>) => {
+  const started = Date.now();
+  const result = await task();
+  return { result, elapsed: Date.now() - started };
+};
+
+describe('createKeyRateLimiter', () => {
+  it('rejects limits below one request', () => {
+    assert.throws(() => createKeyRateLimiter({ rpm: 0, rpd: 100 }), RangeError);
+    assert.throws(() => createKeyRateLimiter({ rpm: 10, rpd: 0 }), RangeError);
+    assert.throws(() => createKeyRateLimiter({ rpm: NaN, rpd: 10 }), RangeError);
+    const limiter = createKeyRateLimiter(FAST);
+    assert.throws(() => limiter.setLimits({ rpm: 0, rpd: 10 }), RangeError);
+    assert.deepEqual(limiter.getLimits(), FAST, 'a rejected change keeps the old limits');
+  });
+
+  it('spaces requests on one key by its per-minute rate', async () => {
+    const limiter = createKeyRateLimiter(FAST);
+    const first = await timed(() => limiter.acquire(1));
+    assert.ok(first.elapsed < 30, 'a fresh key is ready at once');
+    const second = await timed(() => limiter.acquire(1));
+    assert.ok(second.elapsed >= 40, `waited ${second.elapsed}ms for the next token`);
+    assert.equal(limiter.snapshot()[0].requests, 2);
+  });
+
+  it('rotates to the key that has waited longest', async () => {
+    const limiter = createKeyRateLimiter(FAST);
+    const picks = [await limiter.acquire(3), await limiter.acquire(3), await limiter.acquire(3)];
+    assert.deepEqual(picks.sort(), [0, 1, 2]);
+  });
+
+  it('cools a key down after a 429 and uses the others meanwhile', async () => {
+    const limiter = createKeyRateLimiter(FAST);
+    limiter.reportRateLimited(0, 150);
+    const usage = limiter.snapshot()[0];
+    assert.equal(usage.rateLimited, 1);
+    assert.equal(keyState(usage, FAST), 'cooldown');
+
+    assert.equal(await limiter.acquire(2), 1);
+    const alone = createKeyRateLimiter(FAST);
+    alone.reportRateLimited(0, 150);
+    const { result, elapsed } = await timed(() => alone.acquire(1));
+    assert.equal(result, 0);
+    assert.ok(elapsed >= 140, `waited ${elapsed}ms for the cooldown`);
+  });
+
+  it('throws once every key has used up its daily quota', async () => {
+    const limiter = createKeyRateLimiter({ rpm: 1200, rpd: 1 });
+    await limiter.acquire(1);
+    assert.equal(keyState(limiter.snapshot()[0], limiter.getLimits()), 'exhausted');
+    await assert.rejects(limiter.acquire(1), /daily limit of 1 requests/);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads Retry-After in seconds', () => {
+    assert.equal(parseRetryAfter({ headers: new Headers({ 'retry-after': '17' }) }), 17_000);
+    assert.equal(parseRetryAfter({ headers: { 'retry-after': '2.5' } }), 2_500);
+  });
+
+  it('reads Retry-After as an HTTP date', () => {
+    const at = new Date(Date.now() + 30_000).toUTCString();
+    const wait = parseRetryAfter({ headers: { 'retry-after': at } })!;
+    assert.ok(wait > 28_000 && wait <= 30_000, `${wait}`);
+    assert.equal(parseRetryAfter({ headers: { 'retry-after': new Date(Date.now() - 60_000).toUTCString() } }), 0, 'a past date means now');
+  });
+
+  it('falls back to RetryInfo and the error message', () => {
+    assert.equal(parseRetryAfter({ message: '{"error":{"details":[{"retryDelay": "17s"}]}}' }), 17_000);
+    assert.equal(parseRetryAfter({ message: 'Quota exceeded, please retry in 4.2s.' }), 4_200);
+    assert.equal(parseRetryAfter({ message: 'Quota exceeded' }), undefined);
+    assert.equal(parseRetryAfter(undefined), undefined);
+  });
+});
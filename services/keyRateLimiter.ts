@@ -0,0 +1,165 @@
+// Gemini free-tier quotas per key; both can be changed from the pool panel
+export const DEFAULT_KEY_LIMITS: KeyLimits = { rpm: 15, rpd: 1500 };
+
+// Used when a 429 arrives without a Retry-After hint
+const DEFAULT_COOLDOWN_MS = 30_000;
+const MAX_COOLDOWN_MS = 10 * 60_000;
+
+export interface KeyLimits {
+  rpm: number; // requests per minute
+  rpd: number; // requests per day
+}
+
+export interface KeyUsage {
+  index: number;
+  requests: number;       // total requests issued with this key
+  requestsToday: number;
+  rateLimited: number;    // 429 / RESOURCE_EXHAUSTED responses received
+  cooldownUntil: number;  // epoch ms, 0 when not cooling down
+  lastUsedAt: number;
+  tokens: number;         // token bucket level at the time of the snapshot
+}
+
+export type KeyState = 'ready' | 'throttled' | 'cooldown' | 'exhausted';
+
+export interface KeyRateLimiter {
+  /** Waits until some key may send a request, consumes one token from it and returns its index. */
+  acquire: (keyCount: number) => Promise<number>;
+  reportRateLimited: (index: number, retryAfterMs?: number) => void;
+  setLimits: (limits: KeyLimits) => void;
+  getLimits: () => KeyLimits;
+  reset: (keyCount: number) => void;
+  snapshot: () => KeyUsage[];
+}
+
+export const keyState = (usage: KeyUsage, limits: KeyLimits, now = Date.now()): KeyState => {
+  if (usage.requestsToday >= limits.rpd) return 'exhausted';
+  if (usage.cooldownUntil > now) return 'cooldown';
+  return usage.tokens >= 1 ? 'ready' : 'throttled';
+};
+
+// A zero rate would make every wait infinite and pass for an exhausted daily quota
+const checkLimits = (limits: KeyLimits): KeyLimits => {
+  if (!(limits.rpm >= 1) || !(limits.rpd >= 1)) {
+    throw new RangeError(`Key limits must be at least 1 request per minute and per day, got rpm ${limits.rpm}, rpd ${limits.rpd}`);
+  }
+  return limits;
+};
+
+const dayOf = (time: number) => new Date(time).toDateString();
+
+/**
+ * Pulls a Retry-After hint out of whatever the SDK threw: a Retry-After header, Google's RetryInfo
+ * ("retryDelay": "17s") embedded in the error body, or a "retry in 17.2s" sentence in the message.
+ */
+export const parseRetryAfter = (error: any): number | undefined => {
+  const header = error?.headers?.get?.('retry-after') ?? error?.headers?.['retry-after'] ?? error?.retryAfter;
+  if (header !== undefined && header !== null) {
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(String(header));
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+  const message = String(error?.message ?? '');
+  const match = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(message) || /retry in (\d+(?:\.\d+)?)\s*s/i.exec(message);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * One token bucket per key. Buckets hold a single token and refill at rpm/60 per second, so a key's
+ * requests are spread evenly instead of bursting; acquire() hands out whichever ready key has waited
+ * longest, which spreads load across the pool. Daily counts roll over at local midnight.
+ */
+export const createKeyRateLimiter = (initialLimits: KeyLimits = DEFAULT_KEY_LIMITS, onChange?: (usage: KeyUsage[]) => void): KeyRateLimiter => {
+  let limits = checkLimits(initialLimits);
+  let usage: KeyUsage[] = [];
+  let refilledAt: number[] = [];
+  let day = dayOf(Date.now());
+
+  const blank = (index: number): KeyUsage => ({ index, requests: 0, requestsToday: 0, rateLimited: 0, cooldownUntil: 0, lastUsedAt: 0, tokens: 1 });
+
+  const ensure = (keyCount: number) => {
+    while (usage.length < keyCount) {
+      usage.push(blank(usage.length));
+      refilledAt.push(Date.now());
+    }
+  };
+
+  const refill = (now: number) => {
+    if (dayOf(now) !== day) {
+      day = dayOf(now);
+      usage.forEach(u => (u.requestsToday = 0));
+    }
+    const perMs = limits.rpm / 60_000;
+    usage.forEach((u, i) => {
+      u.tokens = Math.min(1, u.tokens + (now - refilledAt[i]) * perMs);
+      refilledAt[i] = now;
+    });
+  };
+
+  const notify = () => onChange?.(usage.map(u => ({ ...u })));
+
+  // How long until key i could be used again, or Infinity for the day
+  const waitFor = (u: KeyUsage, now: number): number => {
+    if (u.requestsToday >= limits.rpd) return Infinity;
+    const tokenWait = u.tokens >= 1 ? 0 : (1 - u.tokens) / (limits.rpm / 60_000);
+    return Math.max(tokenWait, u.cooldownUntil - now, 0);
+  };
+
+  const acquire = async (keyCount: number): Promise<number> => {
+    if (keyCount === 0) throw new Error("No API Keys provided.");
+    ensure(keyCount);
+    for (;;) {
+      const now = Date.now();
+      refill(now);
+      const candidates = usage.slice(0, keyCount);
+      const ready = candidates
+        .filter(u => waitFor(u, now) === 0)
+        .sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+      if (ready.length > 0) {
+        const chosen = ready[0];
+        chosen.tokens -= 1;
+        chosen.requests++;
+        chosen.requestsToday++;
+        chosen.lastUsedAt = now;
+        notify();
+        return chosen.index;
+      }
+      const wait = Math.min(...candidates.map(u => waitFor(u, now)));
+      if (wait === Infinity) throw new Error(`All ${keyCount} API keys reached their daily limit of ${limits.rpd} requests.`);
+      await new Promise(resolve => setTimeout(resolve, Math.max(wait, 50)));
+    }
+  };
+
+  const reportRateLimited = (index: number, retryAfterMs?: number) => {
+    ensure(index + 1);
+    const u = usage[index];
+    u.rateLimited++;
+    u.tokens = 0;
+    refilledAt[index] = Date.now();
+    u.cooldownUntil = Date.now() + Math.min(retryAfterMs ?? DEFAULT_COOLDOWN_MS, MAX_COOLDOWN_MS);
+    notify();
+  };
+
+  return {
+    acquire,
+    reportRateLimited,
+    setLimits: (next) => {
+      checkLimits(next);
+      refill(Date.now()); // settle tokens at the old rate first
+      limits = next;
+      notify();
+    },
+    getLimits: () => limits,
+    reset: (keyCount) => {
+      usage = [];
+      refilledAt = [];
+      ensure(keyCount);
+      notify();
+    },
+    snapshot: () => {
+      refill(Date.now());
+      return usage.map(u => ({ ...u }));
+    }
+  };
+};
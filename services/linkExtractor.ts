@@ -0,0 +1,88 @@
+import { ExtractorId, LinkEdge, LinkNode, NodeStatus } from "../types";
+
+export interface ExtractorCapabilities {
+  requiresApiKey: boolean; // Needs the Gemini key pool to be connected
+  realNetwork: boolean;    // Actually talks to the target site
+  deterministic: boolean;  // Same URL always yields the same children
+  realStatus: boolean;     // Status codes, sizes and timings are measured, not guessed
+}
+
+export interface ExtractRequest {
+  url: string;
+  rootUrl: string;
+  depth: number;
+}
+
+export interface ExtractResult {
+  links: LinkNode[];
+  // Facts measured about the visited page itself (status, size, headers...)
+  page?: Partial<LinkNode>;
+  // Gemini only: which key of the pool ended up serving the request
+  usedKeyIndex?: number;
+  // Entries the provider returned but failed validation (dropped), or had to correct (reclassified)
+  rejected?: RejectedLink[];
+  // Page-to-page links with their rel, from providers that read the markup; otherwise `links` stands in
+  edges?: LinkEdge[];
+}
+
+export interface RejectedLink {
+  url: string;
+  reason: string;
+  action: 'dropped' | 'reclassified';
+}
+
+// A non-HTML file fetched verbatim (robots.txt, sitemaps...)
+export interface RawResource {
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Common contract for everything that can turn a URL into its child links.
+ * The crawler only ever talks to this interface, so providers can be swapped from the sidebar.
+ */
+export interface LinkExtractor {
+  id: ExtractorId;
+  label: string;
+  capabilities: ExtractorCapabilities;
+  extract(request: ExtractRequest): Promise<ExtractResult>;
+  // Only providers that can reach (or simulate) the site implement this; robots.txt support depends on it
+  fetchRaw?(url: string): Promise<RawResource>;
+}
+
+/**
+ * Error raised by a provider. `status` is the HTTP-ish code the failed node should be marked with.
+ */
+export class ExtractorError extends Error {
+  status: Exclude<NodeStatus, 'pending' | 'scanning' | 'blocked'>;
+  retryable: boolean;
+
+  constructor(message: string, status: ExtractorError['status'] = '500', retryable: boolean = false) {
+    super(message);
+    this.name = 'ExtractorError';
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+// Normalises whatever a provider (or the SDK underneath it) threw into an ExtractorError.
+// SDK errors carry the API's status, not the page's, so anything but 404/403 collapses to 500.
+export const toExtractorError = (err: any): ExtractorError => {
+  if (err instanceof ExtractorError) return err;
+  const message = err?.message || JSON.stringify(err);
+  const raw = (err?.status || err?.code || '').toString();
+
+  let status: ExtractorError['status'] = '500';
+  if (raw === '404' || message.includes('404')) status = '404';
+  else if (raw === '403' || message.includes('403')) status = '403';
+
+  return new ExtractorError(message, status);
+};
+
+export const EXTRACTOR_OPTIONS: { id: ExtractorId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Gemini (AI Simulation)', description: 'Gemini predicts plausible links. Uses the API key pool.' },
+  { id: 'fixture', label: 'Fixture (Deterministic)', description: 'Synthetic site generated from the URL. No network, no quota.' },
+  { id: 'http', label: 'HTTP (Live Fetch)', description: 'Downloads and parses the real page through the local crawl proxy.' },
+];
@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LinkNode } from '../types';
+import { matchesQuery, parseNodeQuery, sortNodes } from './nodeQuery';
+
+const node = (path: string, overrides: Partial<LinkNode> = {}): LinkNode => ({
+  id: `https://site.test${path}`, url: `https://site.test${path}`, title: path, depth: 1, status: '200',
+  type: 'internal', contentType: 'text/html', discoverySource: 'anchor', scanned: true, ...overrides
+});
+
+const NODES = [
+  node('/', { depth: 0, title: 'Home', inlinks: 4 }),
+  node('/about', { title: 'About us', size: 20 }),
+  node('/missing', { status: '404', depth: 2 }),
+  node('/tag/news', { depth: 3, discoverySource: 'sitemap' }),
+  node('/logo.png', { type: 'resource', contentType: 'image/png', size: 80 }),
+  node('/private', { status: 'blocked', scanned: false })
+];
+
+const run = (query: string) => {
+  const parsed = parseNodeQuery(query);
+  return { errors: parsed.errors, paths: NODES.filter(n => matchesQuery(n, parsed)).map(n => new URL(n.url).pathname) };
+};
+
+describe('parseNodeQuery', () => {
+  it('ANDs fielded terms and negations', () => {
+    assert.deepEqual(run('depth:>0 -path:/tag/ type:internal').paths, ['/about', '/missing', '/private']);
+    assert.deepEqual(run('status:4xx').paths, ['/missing']);
+    assert.deepEqual(run('status:blocked').paths, ['/private']);
+    assert.deepEqual(run('size:10..50').paths, ['/about']);
+    assert.deepEqual(run('title:"about us"').paths, ['/about']);
+    assert.deepEqual(run('url:*.png').paths, ['/logo.png']);
+    assert.deepEqual(run('is:broken').paths, ['/missing']);
+  });
+
+  it('matches source: regardless of case', () => {
+    assert.deepEqual(run('source:SiteMap').paths, ['/tag/news']);
+  });
+
+  it('treats words without a field, and URLs, as URL searches', () => {
+    assert.deepEqual(run('NEWS').paths, ['/tag/news']);
+    assert.deepEqual(run('https://site.test/about').paths, ['/about']);
+    assert.deepEqual(run('1:2').paths, [], 'a field must be letters');
+  });
+
+  it('reports malformed terms and leaves them out of the filter', () => {
+    const { errors, paths } = run('depth:>x status:4xx');
+    assert.deepEqual(paths, ['/missing']);
+    assert.equal(errors.length, 1);
+    assert.match(errors[0], /^depth:>x: expected a number/);
+
+    assert.match(run('colour:red').errors[0], /^colour:red: unknown field/);
+    assert.match(run('is:nothing').errors[0], /^is:nothing: expected one of/);
+    assert.match(run('status:').errors[0], /missing value/);
+    assert.match(run('size:1..').errors[0], /expected a number/);
+    assert.match(run('depth:>=<2').errors[0], /expected a number/);
+  });
+
+  it('survives half-typed input without filtering everything out', () => {
+    for (const input of ['', '   ', '-', 'title:"unterminated', '"', '- -', 'depth:', ':', '-:x']) {
+      assert.doesNotThrow(() => run(input), input);
+    }
+    assert.equal(run('-').paths.length, NODES.length);
+    assert.equal(run('').paths.length, NODES.length);
+    assert.equal(run('depth:').paths.length, NODES.length, 'an erroneous term matches everything');
+  });
+});
+
+describe('sortNodes', () => {
+  it('sorts stably and puts missing values last in both directions', () => {
+    const bySize = (direction: 'asc' | 'desc') => sortNodes(NODES, 'size', direction).map(n => new URL(n.url).pathname);
+    assert.deepEqual(bySize('asc'), ['/about', '/logo.png', '/', '/missing', '/tag/news', '/private']);
+    assert.deepEqual(bySize('desc'), ['/logo.png', '/about', '/', '/missing', '/tag/news', '/private']);
+    assert.equal(sortNodes(NODES, 'status', 'desc').at(-1)!.status, 'blocked');
+  });
+});
@@ -0,0 +1,197 @@
+import { LinkNode } from "../types";
+import { globToRegex } from "./crawlScope";
+
+// Filter language for the results table, e.g. `status:4xx depth:>2 type:resource host:cdn.* -path:/tag/`.
+// Terms are ANDed; a leading `-` negates one; words without a field match anywhere in the URL.
+
+type Numeric = (node: LinkNode) => number | undefined;
+
+const NUMERIC_FIELDS: Record<string, Numeric> = {
+  depth: n => n.depth,
+  size: n => n.size,
+  time: n => n.responseTime,
+  inlinks: n => n.inlinks ?? 0,
+  outlinks: n => n.outlinks ?? 0,
+  pagerank: n => n.pageRank
+};
+
+const IS_FLAGS: Record<string, (node: LinkNode) => boolean> = {
+  broken: n => n.status.startsWith('4') || n.status.startsWith('5'),
+  redirect: n => !!n.redirectChain || n.status.startsWith('3'),
+  blocked: n => n.status === 'blocked',
+  scanned: n => !!n.scanned,
+  page: n => n.type !== 'resource',
+  external: n => n.type === 'external'
+};
+
+// Shown as the query box help text, one line per field
+export const QUERY_FIELDS: { syntax: string; description: string }[] = [
+  { syntax: 'status:4xx  status:404  status:blocked', description: 'Status class, exact code or crawler state' },
+  { syntax: 'depth:>2  size:<=50  time:200..800', description: `Numbers: ${Object.keys(NUMERIC_FIELDS).join(', ')}` },
+  { syntax: 'type:resource', description: 'internal, external or resource' },
+  { syntax: 'content:image', description: 'Content type contains' },
+  { syntax: 'host:cdn.*', description: 'Host name, * as wildcard' },
+  { syntax: 'path:/tag/  url:*.pdf', description: 'Contains, or a glob when it has a *' },
+  { syntax: 'title:pricing  source:sitemap', description: 'Title contains, discovery source' },
+  { syntax: `is:${Object.keys(IS_FLAGS).join('|')}`, description: 'Shortcuts' },
+  { syntax: '-path:/tag/', description: 'Leading - excludes matches' }
+];
+
+export interface QueryTerm {
+  raw: string;
+  negate: boolean;
+  test: (node: LinkNode) => boolean;
+}
+
+export interface NodeQuery {
+  terms: QueryTerm[];
+  errors: string[]; // terms that could not be understood; they are left out rather than matching nothing
+}
+
+const urlParts = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    return { host: parsed.hostname, path: parsed.pathname };
+  } catch {
+    return { host: '', path: url };
+  }
+};
+
+// `*` turns a value into an anchored glob, anything else is a case-insensitive substring
+const textMatcher = (value: string) => {
+  if (value.includes('*')) {
+    const pattern = globToRegex(value.replace(/\*/g, '**')); // a * may span slashes here
+    return (text: string) => pattern.test(text);
+  }
+  const needle = value.toLowerCase();
+  return (text: string) => text.toLowerCase().includes(needle);
+};
+
+// `>2`, `>=2`, `<2`, `<=2`, `2`, `2..5`; throws on anything else
+const numberMatcher = (value: string): ((n: number) => boolean) => {
+  const range = value.match(/^(-?\d+(?:\.\d+)?)\.\.(-?\d+(?:\.\d+)?)$/);
+  if (range) {
+    const [min, max] = [Number(range[1]), Number(range[2])];
+    return n => n >= min && n <= max;
+  }
+  const compare = value.match(/^(>=|<=|>|<|=)?(-?\d+(?:\.\d+)?)$/);
+  if (!compare) throw new Error(`expected a number, a comparison like >2 or a range like 1..3`);
+  const target = Number(compare[2]);
+  switch (compare[1]) {
+    case '>': return n => n > target;
+    case '>=': return n => n >= target;
+    case '<': return n => n < target;
+    case '<=': return n => n <= target;
+    default: return n => n === target;
+  }
+};
+
+const statusMatcher = (value: string): ((node: LinkNode) => boolean) => {
+  const lower = value.toLowerCase();
+  if (/^[1-5]xx$/.test(lower)) return n => n.status.startsWith(lower[0]);
+  if (/^[a-z]+$/.test(lower)) return n => n.status === lower;
+  const numeric = numberMatcher(value);
+  return n => /^\d+$/.test(n.status) && numeric(Number(n.status));
+};
+
+const compileTerm = (field: string, value: string): ((node: LinkNode) => boolean) => {
+  if (!value) throw new Error('missing value');
+  if (field in NUMERIC_FIELDS) {
+    const get = NUMERIC_FIELDS[field];
+    const matches = numberMatcher(value);
+    return n => {
+      const v = get(n);
+      return v !== undefined && matches(v);
+    };
+  }
+  switch (field) {
+    case 'status':
+      return statusMatcher(value);
+    case 'type':
+      return n => n.type === value.toLowerCase();
+    case 'content': {
+      const matches = textMatcher(value);
+      return n => matches(n.contentType);
+    }
+    case 'host': {
+      const pattern = globToRegex(value);
+      return n => pattern.test(urlParts(n.url).host);
+    }
+    case 'path': {
+      const matches = textMatcher(value);
+      return n => matches(urlParts(n.url).path);
+    }
+    case 'url': {
+      const matches = textMatcher(value);
+      return n => matches(n.url);
+    }
+    case 'title': {
+      const matches = textMatcher(value);
+      return n => matches(n.title ?? '');
+    }
+    case 'source': {
+      const source = value.toLowerCase();
+      return n => (n.discoverySource ?? '').toLowerCase() === source;
+    }
+    case 'is': {
+      const flag = IS_FLAGS[value.toLowerCase()];
+      if (!flag) throw new Error(`expected one of ${Object.keys(IS_FLAGS).join(', ')}`);
+      return flag;
+    }
+    default:
+      throw new Error('unknown field');
+  }
+};
+
+// Whitespace separates terms except inside double quotes: title:"about us"
+const tokenize = (input: string): string[] => input.match(/(?:[^\s"]+|"[^"]*")+/g) ?? [];
+
+export const parseNodeQuery = (input: string): NodeQuery => {
+  const query: NodeQuery = { terms: [], errors: [] };
+  for (const raw of tokenize(input)) {
+    if (raw === '-') continue; // half-typed negation
+    const negate = raw.startsWith('-');
+    const body = (negate ? raw.slice(1) : raw).replace(/"/g, '');
+    const colon = body.indexOf(':');
+    // No field, or something like http://..., is a plain URL search
+    if (colon <= 0 || !/^[a-z]+$/i.test(body.slice(0, colon)) || body.slice(colon + 1).startsWith('//')) {
+      const needle = body.toLowerCase();
+      query.terms.push({ raw, negate, test: n => n.url.toLowerCase().includes(needle) });
+      continue;
+    }
+    try {
+      query.terms.push({ raw, negate, test: compileTerm(body.slice(0, colon).toLowerCase(), body.slice(colon + 1)) });
+    } catch (err: any) {
+      query.errors.push(`${raw}: ${err.message}`);
+    }
+  }
+  return query;
+};
+
+export const matchesQuery = (node: LinkNode, query: NodeQuery): boolean =>
+  query.terms.every(term => term.test(node) !== term.negate);
+
+export type SortKey = 'status' | 'depth' | 'size' | 'responseTime' | 'inlinks';
+export type SortDirection = 'asc' | 'desc';
+
+const SORT_VALUES: Record<SortKey, (node: LinkNode) => number | undefined> = {
+  // Crawler states (pending, blocked...) have no code and sort with the missing values
+  status: n => (/^\d+$/.test(n.status) ? Number(n.status) : undefined),
+  depth: n => n.depth,
+  size: n => n.size,
+  responseTime: n => n.responseTime,
+  inlinks: n => n.inlinks ?? 0
+};
+
+// Stable, and nodes without a value go last in either direction
+export const sortNodes = (nodes: LinkNode[], key: SortKey, direction: SortDirection): LinkNode[] => {
+  const value = SORT_VALUES[key];
+  const sign = direction === 'asc' ? 1 : -1;
+  return nodes
+    .map((node, index) => ({ node, index, v: value(node) }))
+    .sort((a, b) => {
+      if (a.v === undefined || b.v === undefined) return a.v === b.v ? a.index - b.index : a.v === undefined ? 1 : -1;
+      return (a.v - b.v) * sign || a.index - b.index;
+    })
+    .map(entry => entry.node);
+};
@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getCrawlDelay, isAllowed, parseRobots } from './robots';
+
+const SITE = 'https://site.test';
+
+const check = (robotsTxt: string, path: string, agent?: string) => isAllowed(parseRobots(robotsTxt), `${SITE}${path}`, agent);
+
+describe('parseRobots', () => {
+  it('groups consecutive user-agents and keeps sitemaps global', () => {
+    const robots = parseRobots([
+      'User-agent: a',
+      'User-agent: B  # comment',
+      'Disallow: /x',
+      'Sitemap: /sitemap.xml',
+      '',
+      'User-agent: *',
+      'Allow: /',
+      'Disallow:',
+      'Crawl-delay: 1.5'
+    ].join('\r\n'), `${SITE}/robots.txt`);
+
+    assert.deepEqual(robots.groups.map(g => g.agents), [['a', 'b'], ['*']]);
+    assert.deepEqual(robots.groups[0].rules, [{ allow: false, pattern: '/x' }]);
+    assert.deepEqual(robots.groups[1].rules, [{ allow: true, pattern: '/' }], 'an empty Disallow adds no rule');
+    assert.equal(robots.groups[1].crawlDelay, 1.5);
+    assert.deepEqual(robots.sitemaps, [`${SITE}/sitemap.xml`]);
+  });
+});
+
+describe('isAllowed', () => {
+  it('lets the longest matching pattern win, whichever comes first', () => {
+    const robots = 'User-agent: *\nAllow: /shop/public/\nDisallow: /shop/';
+    assert.equal(check(robots, '/shop/cart').allowed, false);
+    assert.equal(check(robots, '/shop/public/item').allowed, true);
+
+    const reversed = 'User-agent: *\nDisallow: /shop/\nAllow: /shop/public/';
+    assert.equal(check(reversed, '/shop/public/item').allowed, true);
+  });
+
+  it('prefers Allow when equally long patterns conflict', () => {
+    assert.equal(check('User-agent: *\nDisallow: /page\nAllow: /page', '/page').allowed, true);
+  });
+
+  it('counts a wildcard pattern by its length', () => {
+    const robots = 'User-agent: *\nAllow: /docs/\nDisallow: /docs/*.pdf';
+    assert.equal(check(robots, '/docs/guide.pdf').allowed, false);
+    assert.equal(check(robots, '/docs/guide.html').allowed, true);
+  });
+
+  it('anchors patterns ending in $ to the end of the path', () => {
+    const robots = 'User-agent: *\nDisallow: /*.pdf$';
+    assert.equal(check(robots, '/files/a.pdf').allowed, false);
+    assert.equal(check(robots, '/files/a.pdf?download=1').allowed, true);
+    assert.equal(check(robots, '/files/a.pdf.html').allowed, true);
+
+    assert.equal(check('User-agent: *\nDisallow: /$', '/').allowed, false);
+    assert.equal(check('User-agent: *\nDisallow: /$', '/about').allowed, true);
+  });
+
+  it('treats other regex characters literally and matches the query string', () => {
+    assert.equal(check('User-agent: *\nDisallow: /a.b', '/axb').allowed, true);
+    assert.equal(check('User-agent: *\nDisallow: /search?q=', '/search?q=x').allowed, false);
+  });
+
+  it('compares percent-escapes case-insensitively', () => {
+    assert.equal(check('User-agent: *\nDisallow: /caf%c3%a9', '/caf%C3%A9/menu').allowed, false);
+  });
+
+  it('reports the rule that decided', () => {
+    assert.deepEqual(check('User-agent: *\nDisallow: /private/', '/private/x'), { allowed: false, rule: 'Disallow: /private/' });
+  });
+
+  it('uses the group naming our agent instead of *, and merges repeats', () => {
+    const robots = [
+      'User-agent: *', 'Disallow: /',
+      'User-agent: deeplinkai', 'Disallow: /drafts/', 'Crawl-delay: 2',
+      'User-agent: DeepLinkAI', 'Disallow: /tmp/', 'Crawl-delay: 5'
+    ].join('\n');
+    assert.equal(check(robots, '/about').allowed, true);
+    assert.equal(check(robots, '/drafts/x').allowed, false);
+    assert.equal(check(robots, '/tmp/x').allowed, false);
+    assert.equal(check(robots, '/about', 'OtherBot').allowed, false);
+    assert.equal(getCrawlDelay(parseRobots(robots)), 5, 'the strictest delay of merged groups');
+  });
+
+  it('always allows /robots.txt and anything without a matching group', () => {
+    assert.equal(check('User-agent: *\nDisallow: /', '/robots.txt').allowed, true);
+    assert.equal(check('User-agent: otherbot\nDisallow: /', '/x').allowed, true);
+  });
+});
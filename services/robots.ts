@@ -0,0 +1,187 @@
+import { RawResource } from "./linkExtractor";
+
+// Product token we identify as, both in the User-Agent header and when picking a robots.txt group
+export const ROBOTS_AGENT = 'DeepLinkAI';
+
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface RobotsGroup {
+  agents: string[]; // lowercased
+  rules: RobotsRule[];
+  crawlDelay?: number; // seconds
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+export interface RobotsVerdict {
+  allowed: boolean;
+  rule?: string; // the matching line, e.g. "Disallow: /private/"
+}
+
+/**
+ * Parses robots.txt following RFC 9309: consecutive User-agent lines open a group, rules apply to
+ * the group above them, Sitemap lines are global. Unknown directives are ignored.
+ */
+export const parseRobots = (text: string, baseUrl?: string): RobotsTxt => {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    const key = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    switch (key) {
+      case 'user-agent':
+        if (!current || !lastWasAgent) {
+          current = { agents: [], rules: [] };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        lastWasAgent = true;
+        continue;
+      case 'allow':
+      case 'disallow':
+        // An empty Disallow means "nothing is disallowed", which is the default anyway
+        if (current && value) current.rules.push({ allow: key === 'allow', pattern: value });
+        break;
+      case 'crawl-delay': {
+        const seconds = parseFloat(value);
+        if (current && Number.isFinite(seconds) && seconds >= 0) current.crawlDelay = seconds;
+        break;
+      }
+      case 'sitemap':
+        try {
+          sitemaps.push(new URL(value, baseUrl).toString());
+        } catch {
+          // relative sitemap without a base, skip it
+        }
+        break;
+    }
+    lastWasAgent = false;
+  }
+
+  return { groups, sitemaps };
+};
+
+// Picks the group(s) addressed to our agent, falling back to "*". Repeated groups for the same agent are merged.
+const selectGroup = (robots: RobotsTxt, agent: string): RobotsGroup | null => {
+  const token = agent.toLowerCase();
+  const specific = robots.groups.filter(g => g.agents.some(a => a !== '*' && a !== '' && token.startsWith(a)));
+  const matching = specific.length > 0 ? specific : robots.groups.filter(g => g.agents.includes('*'));
+  if (matching.length === 0) return null;
+
+  const delays = matching.map(g => g.crawlDelay).filter((d): d is number => d !== undefined);
+  return {
+    agents: matching.flatMap(g => g.agents),
+    rules: matching.flatMap(g => g.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : undefined
+  };
+};
+
+const patternCache = new Map<string, RegExp>();
+
+// "*" matches any sequence, a trailing "$" anchors the end; everything else is a literal prefix
+const compilePattern = (pattern: string): RegExp => {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    const anchored = pattern.endsWith('$');
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    regex = new RegExp(`^${body}${anchored ? '$' : ''}`);
+    patternCache.set(pattern, regex);
+  }
+  return regex;
+};
+
+// Percent-encoding is case-insensitive; compare paths in one canonical form
+const normalizePath = (path: string) => path.replace(/%[0-9a-f]{2}/gi, m => m.toUpperCase());
+
+/**
+ * Longest matching pattern wins; on a tie Allow beats Disallow. /robots.txt itself is always allowed.
+ */
+export const isAllowed = (robots: RobotsTxt, url: string, agent: string = ROBOTS_AGENT): RobotsVerdict => {
+  const target = new URL(url);
+  if (target.pathname === '/robots.txt') return { allowed: true };
+  const group = selectGroup(robots, agent);
+  if (!group) return { allowed: true };
+
+  const path = normalizePath(target.pathname + target.search);
+  let best: RobotsRule | null = null;
+  for (const rule of group.rules) {
+    if (!compilePattern(normalizePath(rule.pattern)).test(path)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow && !best.allow)) {
+      best = rule;
+    }
+  }
+
+  if (!best) return { allowed: true };
+  return { allowed: best.allow, rule: `${best.allow ? 'Allow' : 'Disallow'}: ${best.pattern}` };
+};
+
+export const getCrawlDelay = (robots: RobotsTxt, agent: string = ROBOTS_AGENT): number | undefined =>
+  selectGroup(robots, agent)?.crawlDelay;
+
+export interface RobotsEntry {
+  robotsUrl: string;
+  status: number; // 0 when the file could not be fetched at all
+  robots: RobotsTxt;
+}
+
+// RFC 9309 §2.3.1.4: an unreachable robots.txt means everything is disallowed
+const DISALLOW_ALL: RobotsTxt = { groups: [{ agents: ['*'], rules: [{ allow: false, pattern: '/' }] }], sitemaps: [] };
+const ALLOW_ALL: RobotsTxt = { groups: [], sitemaps: [] };
+
+export interface RobotsCache {
+  get: (url: string) => Promise<RobotsEntry>;
+}
+
+/**
+ * Fetches robots.txt once per origin and memoises the parsed result (concurrent callers share the request).
+ * `onFetched` fires exactly once per origin, after the first fetch settles.
+ */
+export const createRobotsCache = (
+  fetchRaw: (url: string) => Promise<RawResource>,
+  onFetched?: (entry: RobotsEntry) => void
+): RobotsCache => {
+  const entries = new Map<string, Promise<RobotsEntry>>();
+
+  const load = async (origin: string): Promise<RobotsEntry> => {
+    const robotsUrl = `${origin}/robots.txt`;
+    let entry: RobotsEntry;
+    try {
+      const res = await fetchRaw(robotsUrl);
+      if (res.status >= 200 && res.status < 300) entry = { robotsUrl, status: res.status, robots: parseRobots(res.body, robotsUrl) };
+      else if (res.status >= 400 && res.status < 500) entry = { robotsUrl, status: res.status, robots: ALLOW_ALL };
+      else entry = { robotsUrl, status: res.status, robots: DISALLOW_ALL };
+    } catch {
+      entry = { robotsUrl, status: 0, robots: DISALLOW_ALL };
+    }
+    onFetched?.(entry);
+    return entry;
+  };
+
+  return {
+    get: (url: string) => {
+      const origin = new URL(url).origin;
+      let entry = entries.get(origin);
+      if (!entry) {
+        entry = load(origin);
+        entries.set(origin, entry);
+      }
+      return entry;
+    }
+  };
+};
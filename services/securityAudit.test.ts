@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LinkNode } from '../types';
+import { SECURITY_SEVERITIES, auditSecurity, summarizeSecurity } from './securityAudit';
+
+const SECURE_HEADERS: Record<string, string> = {
+  'strict-transport-security': 'max-age=31536000; includeSubDomains',
+  'content-security-policy': "default-src 'self'; frame-ancestors 'none'",
+  'x-content-type-options': 'nosniff',
+  'referrer-policy': 'strict-origin-when-cross-origin',
+  'permissions-policy': 'camera=()',
+  'set-cookie': 'session=abc; Secure; HttpOnly; SameSite=Lax',
+  server: 'nginx'
+};
+
+const page = (headers: Record<string, string>, overrides: Partial<LinkNode> = {}): LinkNode => ({
+  id: 'https://site.test/', url: 'https://site.test/', title: 'Home', depth: 0, status: '200',
+  type: 'internal', contentType: 'text/html', discoverySource: 'anchor', scanned: true, headers, ...overrides
+});
+
+const without = (name: string) => Object.fromEntries(Object.entries(SECURE_HEADERS).filter(([key]) => key !== name));
+const finding = (node: LinkNode, check: string) => auditSecurity(node).find(f => f.check === check);
+
+describe('auditSecurity', () => {
+  it('passes a page with every protection in place', () => {
+    const findings = auditSecurity(page(SECURE_HEADERS));
+    assert.deepEqual(findings.filter(f => f.severity !== 'pass' && f.severity !== 'info'), []);
+    assert.equal(findings.find(f => f.check === 'hsts')!.message, 'HSTS enabled, including subdomains');
+    assert.equal(findings.find(f => f.check === 'x-frame-options')!.severity, 'pass', 'frame-ancestors counts as framing protection');
+  });
+
+  it('flags missing or weak HSTS', () => {
+    assert.deepEqual(
+      finding(page(without('strict-transport-security')), 'hsts'),
+      { check: 'hsts', severity: 'medium', header: 'strict-transport-security', message: 'Missing Strict-Transport-Security' }
+    );
+    const short = finding(page({ ...SECURE_HEADERS, 'strict-transport-security': 'max-age=300' }), 'hsts')!;
+    assert.equal(short.severity, 'low');
+    assert.equal(short.message, 'HSTS max-age too short (300s)');
+    assert.equal(finding(page(without('strict-transport-security'), { url: 'http://site.test/' }), 'hsts'), undefined, 'HSTS over HTTP is ignored');
+  });
+
+  it('flags a missing, report-only or permissive CSP', () => {
+    assert.equal(finding(page(without('content-security-policy')), 'csp')!.severity, 'medium');
+    assert.equal(finding(page(without('content-security-policy')), 'csp')!.message, 'Missing Content-Security-Policy');
+    assert.equal(
+      finding(page({ ...without('content-security-policy'), 'content-security-policy-report-only': "default-src 'self'" }), 'csp')!.message,
+      'CSP is report-only, nothing is enforced'
+    );
+    const inline = { ...SECURE_HEADERS, 'content-security-policy': "script-src 'self' 'unsafe-inline'" };
+    assert.equal(finding(page(inline), 'csp')!.message, "CSP allows 'unsafe-inline' scripts");
+    const nonce = { ...SECURE_HEADERS, 'content-security-policy': "script-src 'nonce-abc' 'unsafe-inline'" };
+    assert.equal(finding(page(nonce), 'csp')!.severity, 'pass', 'a nonce disables unsafe-inline');
+  });
+
+  it('lists findings most severe first', () => {
+    const findings = auditSecurity(page({ 'set-cookie': 'id=1' }, { url: 'http://site.test/' }));
+    assert.equal(findings[0].check, 'https');
+    assert.equal(findings[0].severity, 'high');
+    const ranks = findings.map(f => SECURITY_SEVERITIES.findIndex(s => s.id === f.severity));
+    assert.deepEqual(ranks, [...ranks].sort((x, y) => x - y));
+  });
+
+  it('checks only cookies and stack headers on non-documents, and nothing without headers', () => {
+    const image = page({ server: 'Apache/2.4.1' }, { contentType: 'image/png', type: 'resource' });
+    assert.deepEqual(auditSecurity(image).map(f => [f.check, f.severity]), [['version-disclosure', 'low']]);
+    assert.deepEqual(auditSecurity(page({})), []);
+    assert.deepEqual(auditSecurity(page(SECURE_HEADERS, { headers: undefined })), []);
+  });
+});
+
+describe('summarizeSecurity', () => {
+  it('groups failing pages per check, worst check first', () => {
+    const summary = summarizeSecurity([
+      page(SECURE_HEADERS),
+      page(without('content-security-policy'), { id: 'https://site.test/a', url: 'https://site.test/a' }),
+      page(without('strict-transport-security'), { id: 'https://site.test/b', url: 'https://site.test/b' }),
+      page({}, { id: 'https://site.test/c', url: 'https://site.test/c' })
+    ]);
+    assert.equal(summary.audited, 3);
+    const hsts = summary.checks.find(c => c.check === 'hsts')!;
+    assert.deepEqual(hsts.failing, ['https://site.test/b']);
+    assert.deepEqual(hsts.messages, ['Missing Strict-Transport-Security']);
+    assert.equal(summary.checks.find(c => c.check === 'https')!.worst, 'pass');
+    assert.equal(summary.checks.at(-1)!.worst, 'pass');
+  });
+});
@@ -0,0 +1,225 @@
+import { LinkNode } from "../types";
+
+export type SecuritySeverity = 'high' | 'medium' | 'low' | 'info' | 'pass';
+
+export type SecurityCheckId =
+  | 'https' | 'hsts' | 'csp' | 'x-frame-options' | 'x-content-type-options'
+  | 'referrer-policy' | 'permissions-policy' | 'cookies' | 'version-disclosure';
+
+export interface SecurityFinding {
+  check: SecurityCheckId;
+  severity: SecuritySeverity;
+  message: string;
+  header?: string; // the response header the finding is about, highlighted in the inspector
+  detail?: string;
+}
+
+// Most severe first; colours follow the rest of the dashboard (rose = broken, amber = warning...)
+export const SECURITY_SEVERITIES: { id: SecuritySeverity; label: string; color: string }[] = [
+  { id: 'high', label: 'High', color: '#f43f5e' },
+  { id: 'medium', label: 'Medium', color: '#f59e0b' },
+  { id: 'low', label: 'Low', color: '#eab308' },
+  { id: 'info', label: 'Info', color: '#60a5fa' },
+  { id: 'pass', label: 'Pass', color: '#10b981' },
+];
+
+export const SECURITY_CHECKS: { id: SecurityCheckId; label: string }[] = [
+  { id: 'https', label: 'HTTPS' },
+  { id: 'hsts', label: 'Strict-Transport-Security' },
+  { id: 'csp', label: 'Content-Security-Policy' },
+  { id: 'x-frame-options', label: 'Clickjacking protection' },
+  { id: 'x-content-type-options', label: 'X-Content-Type-Options' },
+  { id: 'referrer-policy', label: 'Referrer-Policy' },
+  { id: 'permissions-policy', label: 'Permissions-Policy' },
+  { id: 'cookies', label: 'Cookie flags' },
+  { id: 'version-disclosure', label: 'Version disclosure' },
+];
+
+const severityRank = (severity: SecuritySeverity) => SECURITY_SEVERITIES.findIndex(s => s.id === severity);
+
+// Six months, the minimum the HSTS preload list accepts is a year but anything shorter than this barely helps
+const MIN_HSTS_MAX_AGE = 15552000;
+
+// Headers that only exist to name the software stack
+const STACK_HEADERS = ['server', 'x-powered-by', 'x-aspnet-version', 'x-aspnetmvc-version', 'x-generator'];
+
+const parseDirectives = (policy: string): Map<string, string> =>
+  new Map(policy.split(';').map(d => d.trim()).filter(Boolean).map(d => {
+    const [name, ...rest] = d.split(/\s+/);
+    return [name.toLowerCase(), rest.join(' ')] as [string, string];
+  }));
+
+const checkHsts = (value: string | undefined): SecurityFinding => {
+  if (!value) return { check: 'hsts', severity: 'medium', header: 'strict-transport-security', message: 'Missing Strict-Transport-Security' };
+  const maxAge = Number(/max-age\s*=\s*"?(\d+)/i.exec(value)?.[1] ?? 0);
+  if (maxAge < MIN_HSTS_MAX_AGE) {
+    return { check: 'hsts', severity: 'low', header: 'strict-transport-security', message: `HSTS max-age too short (${maxAge}s)`, detail: value };
+  }
+  return {
+    check: 'hsts', severity: 'pass', header: 'strict-transport-security',
+    message: /includesubdomains/i.test(value) ? 'HSTS enabled, including subdomains' : 'HSTS enabled', detail: value
+  };
+};
+
+const checkCsp = (headers: Record<string, string>): SecurityFinding => {
+  const policy = headers['content-security-policy'];
+  if (!policy) {
+    return headers['content-security-policy-report-only']
+      ? { check: 'csp', severity: 'low', header: 'content-security-policy-report-only', message: 'CSP is report-only, nothing is enforced' }
+      : { check: 'csp', severity: 'medium', header: 'content-security-policy', message: 'Missing Content-Security-Policy' };
+  }
+  const directives = parseDirectives(policy);
+  const scripts = directives.get('script-src') ?? directives.get('default-src');
+  if (scripts === undefined) return { check: 'csp', severity: 'low', header: 'content-security-policy', message: 'CSP does not restrict scripts', detail: policy };
+  const weak = ["'unsafe-inline'", "'unsafe-eval'", '*', 'data:'].filter(token => scripts.split(/\s+/).includes(token));
+  // 'unsafe-inline' is ignored by browsers once a nonce or hash is present
+  const hasNonce = /'(nonce|sha256|sha384|sha512)-/.test(scripts);
+  const effective = hasNonce ? weak.filter(t => t !== "'unsafe-inline'") : weak;
+  if (effective.length > 0) return { check: 'csp', severity: 'low', header: 'content-security-policy', message: `CSP allows ${effective.join(', ')} scripts`, detail: policy };
+  return { check: 'csp', severity: 'pass', header: 'content-security-policy', message: 'Content-Security-Policy enforced', detail: policy };
+};
+
+const checkFraming = (headers: Record<string, string>): SecurityFinding => {
+  const frameAncestors = parseDirectives(headers['content-security-policy'] || '').get('frame-ancestors');
+  if (frameAncestors !== undefined) {
+    return frameAncestors.split(/\s+/).includes('*')
+      ? { check: 'x-frame-options', severity: 'medium', header: 'content-security-policy', message: 'frame-ancestors allows any site to frame the page' }
+      : { check: 'x-frame-options', severity: 'pass', header: 'content-security-policy', message: `Framing restricted by frame-ancestors ${frameAncestors}` };
+  }
+  const xfo = headers['x-frame-options']?.trim().toUpperCase();
+  if (!xfo) return { check: 'x-frame-options', severity: 'medium', header: 'x-frame-options', message: 'No clickjacking protection (X-Frame-Options or frame-ancestors)' };
+  if (xfo !== 'DENY' && xfo !== 'SAMEORIGIN') {
+    return { check: 'x-frame-options', severity: 'low', header: 'x-frame-options', message: `Unsupported X-Frame-Options value "${headers['x-frame-options']}"` };
+  }
+  return { check: 'x-frame-options', severity: 'pass', header: 'x-frame-options', message: `X-Frame-Options: ${xfo}` };
+};
+
+const checkReferrerPolicy = (value: string | undefined): SecurityFinding => {
+  // Several comma-separated values mean "the last one the browser understands"
+  const policy = value?.split(',').map(v => v.trim().toLowerCase()).filter(Boolean).pop();
+  if (!policy) return { check: 'referrer-policy', severity: 'low', header: 'referrer-policy', message: 'Missing Referrer-Policy' };
+  if (policy === 'unsafe-url') return { check: 'referrer-policy', severity: 'medium', header: 'referrer-policy', message: 'Referrer-Policy unsafe-url leaks full URLs to other sites' };
+  if (policy === 'no-referrer-when-downgrade') return { check: 'referrer-policy', severity: 'info', header: 'referrer-policy', message: 'Referrer-Policy sends full URLs to other HTTPS sites' };
+  return { check: 'referrer-policy', severity: 'pass', header: 'referrer-policy', message: `Referrer-Policy: ${policy}` };
+};
+
+// One finding per cookie with missing flags; a cookie without Secure on HTTPS is the one that actually leaks
+const checkCookies = (setCookie: string | undefined, https: boolean): SecurityFinding[] => {
+  if (!setCookie) return [];
+  return setCookie.split('\n').filter(Boolean).map(cookie => {
+    const [pair, ...attributes] = cookie.split(';').map(part => part.trim());
+    const name = pair.split('=')[0];
+    const flags = new Map(attributes.map(a => {
+      const [key, ...value] = a.split('=');
+      return [key.toLowerCase(), value.join('=').toLowerCase()] as [string, string];
+    }));
+    const sameSite = flags.get('samesite');
+    const problems: string[] = [];
+    let severity: SecuritySeverity = 'pass';
+    const raise = (level: SecuritySeverity, problem: string) => {
+      problems.push(problem);
+      if (severityRank(level) < severityRank(severity)) severity = level;
+    };
+    if (!flags.has('secure')) raise(https ? 'medium' : 'low', 'no Secure');
+    if (!flags.has('httponly')) raise('low', 'no HttpOnly');
+    if (sameSite === undefined) raise('low', 'no SameSite');
+    else if (sameSite === 'none' && !flags.has('secure')) raise('medium', 'SameSite=None without Secure');
+    return {
+      check: 'cookies', severity, header: 'set-cookie', detail: cookie,
+      message: problems.length > 0 ? `Cookie "${name}": ${problems.join(', ')}` : `Cookie "${name}" is Secure, HttpOnly and SameSite`
+    };
+  });
+};
+
+// "nginx" is fine, "nginx/1.18.0" or "PHP/7.4.33" tells an attacker which CVEs to try
+const checkVersionDisclosure = (headers: Record<string, string>): SecurityFinding[] =>
+  STACK_HEADERS.filter(name => headers[name]).map(name => {
+    const value = headers[name];
+    return /\d+\.\d+/.test(value)
+      ? { check: 'version-disclosure', severity: 'low', header: name, message: `${name} discloses a version (${value})` }
+      : { check: 'version-disclosure', severity: 'info', header: name, message: `${name} names the software (${value})` };
+  });
+
+/**
+ * Audits one response's headers. Document-level policies (CSP, framing, referrer...) only matter for
+ * HTML pages that rendered; cookies and version-leaking headers are checked on every response.
+ * Returns an empty list when the provider recorded no headers (e.g. Gemini).
+ */
+export const auditSecurity = (node: LinkNode): SecurityFinding[] => {
+  const headers = node.headers;
+  if (!headers || Object.keys(headers).length === 0) return [];
+  const https = node.url.startsWith('https:');
+  const findings: SecurityFinding[] = [];
+
+  // Error pages and redirects aren't documents anyone reads; their policies don't matter
+  if (node.contentType === 'text/html' && node.status.startsWith('2')) {
+    findings.push(https
+      ? { check: 'https', severity: 'pass', message: 'Served over HTTPS' }
+      : { check: 'https', severity: 'high', message: 'Insecure protocol (HTTP)' });
+    // Browsers ignore HSTS received over plain HTTP
+    if (https) findings.push(checkHsts(headers['strict-transport-security']));
+    findings.push(checkCsp(headers), checkFraming(headers));
+    findings.push(headers['x-content-type-options']?.trim().toLowerCase() === 'nosniff'
+      ? { check: 'x-content-type-options', severity: 'pass', header: 'x-content-type-options', message: 'X-Content-Type-Options: nosniff' }
+      : { check: 'x-content-type-options', severity: 'low', header: 'x-content-type-options', message: 'Missing X-Content-Type-Options: nosniff' });
+    findings.push(checkReferrerPolicy(headers['referrer-policy']));
+    findings.push(headers['permissions-policy']
+      ? { check: 'permissions-policy', severity: 'pass', header: 'permissions-policy', message: 'Permissions-Policy set', detail: headers['permissions-policy'] }
+      : { check: 'permissions-policy', severity: 'info', header: 'permissions-policy', message: 'Missing Permissions-Policy' });
+  }
+
+  findings.push(...checkCookies(headers['set-cookie'], https), ...checkVersionDisclosure(headers));
+  return findings.sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+};
+
+export interface SecurityCheckSummary {
+  check: SecurityCheckId;
+  label: string;
+  worst: SecuritySeverity;
+  failing: string[]; // URLs with at least one non-passing finding for this check
+  messages: string[]; // distinct non-passing messages, most frequent first
+}
+
+export interface SecuritySummary {
+  audited: number; // responses that carried headers
+  counts: Record<SecuritySeverity, number>; // findings per severity across the site
+  checks: SecurityCheckSummary[];
+}
+
+// Site-wide view: which checks fail where, worst first
+export const summarizeSecurity = (nodes: LinkNode[]): SecuritySummary => {
+  const counts: Record<SecuritySeverity, number> = { high: 0, medium: 0, low: 0, info: 0, pass: 0 };
+  const byCheck = new Map<SecurityCheckId, { worst: SecuritySeverity; failing: Set<string>; messages: Map<string, number> }>();
+  let audited = 0;
+
+  for (const node of nodes) {
+    const findings = auditSecurity(node);
+    if (findings.length === 0) continue;
+    audited++;
+    for (const finding of findings) {
+      counts[finding.severity]++;
+      let entry = byCheck.get(finding.check);
+      if (!entry) {
+        entry = { worst: 'pass', failing: new Set(), messages: new Map() };
+        byCheck.set(finding.check, entry);
+      }
+      if (severityRank(finding.severity) < severityRank(entry.worst)) entry.worst = finding.severity;
+      if (finding.severity === 'pass') continue;
+      entry.failing.add(node.url);
+      // Cookie names and header values vary per page; group by the part before the colon
+      const message = finding.check === 'cookies' ? finding.message.replace(/^Cookie "[^"]*"/, 'Cookie') : finding.message;
+      entry.messages.set(message, (entry.messages.get(message) ?? 0) + 1);
+    }
+  }
+
+  const checks = SECURITY_CHECKS.flatMap(({ id, label }) => {
+    const entry = byCheck.get(id);
+    if (!entry) return [];
+    return [{
+      check: id, label, worst: entry.worst, failing: [...entry.failing],
+      messages: [...entry.messages.entries()].sort((a, b) => b[1] - a[1]).map(([message]) => message)
+    }];
+  }).sort((a, b) => severityRank(a.worst) - severityRank(b.worst) || b.failing.length - a.failing.length);
+
+  return { audited, counts, checks };
+};
@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LinkNode, PageSeo } from '../types';
+import { parseHtml } from './htmlParser';
+import { auditSeo, extractSeo } from './seoAudit';
+
+const url = (path: string) => `https://site.test${path}`;
+
+// A page that passes every check: titles and descriptions within SEO_LIMITS, one h1, full Open Graph
+const page = (path: string, seo: Partial<PageSeo> = {}, overrides: Partial<LinkNode> = {}): LinkNode => ({
+  id: url(path), url: url(path), title: path, depth: 1, status: '200',
+  type: 'internal', contentType: 'text/html', discoverySource: 'anchor', scanned: true, canonical: url(path),
+  seo: {
+    title: `Page ${path} of the example site, well sized`,
+    description: `A description of ${path} that is long enough to show in search results without being cut off.`,
+    h1Count: 1, robots: [], hreflang: [], openGraph: ['og:title', 'og:description', 'og:image'], ...seo
+  },
+  ...overrides
+});
+
+const issuesOf = (nodes: LinkNode[]) => auditSeo(nodes).issues.map(i => [i.check, new URL(i.url).pathname, i.detail]);
+
+describe('auditSeo', () => {
+  it('finds nothing on well-formed pages', () => {
+    const report = auditSeo([page('/'), page('/about')]);
+    assert.equal(report.pagesAudited, 2);
+    assert.deepEqual(report.issues, []);
+    assert.deepEqual(report.checks, []);
+  });
+
+  it('flags titles and descriptions shared between pages', () => {
+    const shared = 'Welcome to the example site, home of examples';
+    const nodes = [page('/a', { title: shared }), page('/b', { title: `  ${shared.toUpperCase()} ` }), page('/c', { title: shared }), page('/d')];
+    assert.deepEqual(issuesOf(nodes), [
+      ['title-duplicate', '/a', 'Shared with 2 other pages'],
+      ['title-duplicate', '/b', 'Shared with 2 other pages'],
+      ['title-duplicate', '/c', 'Shared with 2 other pages']
+    ]);
+
+    const description = 'The same description on two pages, long enough to pass the length check on its own.';
+    assert.deepEqual(issuesOf([page('/a', { description }), page('/b', { description })]).map(i => i[0]), ['description-duplicate', 'description-duplicate']);
+  });
+
+  it('flags canonicals that point somewhere unindexable', () => {
+    const nodes = [
+      page('/other-host', {}, { canonical: 'https://elsewhere.test/' }),
+      page('/to-redirect', {}, { canonical: url('/moved') }),
+      page('/moved', {}, { status: '301', redirectChain: [{ url: url('/moved'), status: 301 }, { url: url('/'), status: 200 }] }),
+      page('/to-missing', {}, { canonical: url('/gone') }),
+      page('/gone', {}, { status: '404' }),
+      page('/to-noindex', {}, { canonical: url('/hidden') }),
+      page('/hidden', { robots: ['noindex'] }),
+      page('/to-good', {}, { canonical: url('/hidden-not') }),
+      page('/hidden-not')
+    ];
+    assert.deepEqual(issuesOf(nodes).filter(i => i[0] === 'canonical-invalid'), [
+      ['canonical-invalid', '/other-host', 'Points to another host: https://elsewhere.test/'],
+      ['canonical-invalid', '/to-redirect', `Target redirects: ${url('/moved')}`],
+      ['canonical-invalid', '/to-missing', `Target answers 404: ${url('/gone')}`],
+      ['canonical-invalid', '/to-noindex', `Target is noindex: ${url('/hidden')}`]
+    ]);
+    assert.deepEqual(issuesOf([page('/no-canonical', {}, { canonical: undefined })]), [['canonical-missing', '/no-canonical', undefined]]);
+  });
+
+  it('flags hreflang alternates that do not link back', () => {
+    const en = page('/en', { hreflang: [{ lang: 'de', url: url('/de') }] });
+    const de = page('/de', { hreflang: [] });
+    assert.deepEqual(issuesOf([en, de]), [['hreflang-reciprocity', '/en', `de: ${url('/de')} does not link back`]]);
+    const deBack = page('/de', { hreflang: [{ lang: 'en', url: url('/en') }] });
+    assert.deepEqual(issuesOf([en, deBack]), []);
+  });
+
+  it('groups issues per check in SEO_CHECKS order and skips pages without SEO facts', () => {
+    const report = auditSeo([
+      page('/', { title: undefined, h1Count: 3 }),
+      page('/404', { title: undefined }, { status: '404' }),
+      page('/img.png', {}, { contentType: 'image/png' })
+    ]);
+    assert.equal(report.pagesAudited, 1);
+    assert.deepEqual(report.checks.map(c => [c.check, c.severity, c.urls]), [
+      ['title-missing', 'error', [url('/')]],
+      ['h1-multiple', 'notice', [url('/')]]
+    ]);
+  });
+});
+
+describe('extractSeo', () => {
+  it('reads robots from meta tags and X-Robots-Tag, and resolves hreflang URLs', () => {
+    const tags = parseHtml(`<html><head><title>Home</title>
+      <meta name="robots" content="NOINDEX, follow">
+      <link rel="alternate" hreflang="DE" href="/de/">
+      <meta property="og:title" content="Home"><meta property="og:image" content="">
+    </head><body><h1>A</h1><h1>B</h1></body></html>`);
+    const seo = extractSeo(tags, url('/'), { 'x-robots-tag': 'googlebot: nofollow' });
+    assert.deepEqual(seo.robots, ['noindex', 'follow', 'nofollow']);
+    assert.deepEqual(seo.hreflang, [{ lang: 'de', url: url('/de') }]);
+    assert.deepEqual(seo.openGraph, ['og:title']);
+    assert.equal(seo.h1Count, 2);
+    assert.equal(seo.title, 'Home');
+    assert.equal(seo.description, undefined);
+  });
+});
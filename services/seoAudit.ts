@@ -0,0 +1,166 @@
+import { LinkNode, PageSeo } from "../types";
+import { HtmlTag } from "./htmlParser";
+import { normalizeUrl } from "./urlNormalize";
+
+export type SeoSeverity = 'error' | 'warning' | 'notice';
+
+export type SeoCheckId =
+  | 'title-missing' | 'title-length' | 'title-duplicate'
+  | 'description-missing' | 'description-length' | 'description-duplicate'
+  | 'h1-missing' | 'h1-multiple' | 'canonical-missing' | 'canonical-invalid'
+  | 'noindex' | 'nofollow' | 'hreflang-reciprocity' | 'og-missing';
+
+export const SEO_CHECKS: { id: SeoCheckId; label: string; severity: SeoSeverity }[] = [
+  { id: 'title-missing', label: 'Missing <title>', severity: 'error' },
+  { id: 'canonical-invalid', label: 'Canonical points to a non-indexable URL', severity: 'error' },
+  { id: 'title-duplicate', label: 'Duplicate title', severity: 'warning' },
+  { id: 'description-missing', label: 'Missing meta description', severity: 'warning' },
+  { id: 'description-duplicate', label: 'Duplicate meta description', severity: 'warning' },
+  { id: 'h1-missing', label: 'No <h1>', severity: 'warning' },
+  { id: 'noindex', label: 'noindex directive', severity: 'warning' },
+  { id: 'hreflang-reciprocity', label: 'hreflang without return link', severity: 'warning' },
+  { id: 'title-length', label: 'Title too short or too long', severity: 'notice' },
+  { id: 'description-length', label: 'Description too short or too long', severity: 'notice' },
+  { id: 'h1-multiple', label: 'Multiple <h1>', severity: 'notice' },
+  { id: 'nofollow', label: 'nofollow directive', severity: 'notice' },
+  { id: 'canonical-missing', label: 'No canonical', severity: 'notice' },
+  { id: 'og-missing', label: 'Missing Open Graph tags', severity: 'notice' },
+];
+
+export const SEO_SEVERITY_COLORS: Record<SeoSeverity, string> = { error: '#f43f5e', warning: '#f59e0b', notice: '#60a5fa' };
+
+// Character ranges search engines display without truncating
+export const SEO_LIMITS = { title: [30, 60], description: [70, 160] } as const;
+
+const REQUIRED_OPEN_GRAPH = ['og:title', 'og:description', 'og:image'];
+
+/**
+ * Collects the on-page facts the audit works from. Runs wherever pages are parsed (crawl proxy, CLI);
+ * X-Robots-Tag counts the same as the robots meta tag.
+ */
+export const extractSeo = (tags: HtmlTag[], pageUrl: string, headers: Record<string, string> = {}): PageSeo => {
+  const meta = (name: string) => tags.filter(t => t.name === 'meta' && (t.attrs.name || '').toLowerCase() === name);
+  const robots = [...meta('robots'), ...meta('googlebot')]
+    .map(t => t.attrs.content || '')
+    .concat(headers['x-robots-tag'] || '')
+    .flatMap(value => value.toLowerCase().split(',').map(d => d.trim()))
+    // X-Robots-Tag may be scoped to a bot ("googlebot: noindex"), keep the directive
+    .map(d => d.replace(/^[\w-]+:\s*/, ''))
+    .filter(Boolean);
+
+  const hreflang = tags.flatMap(t => {
+    if (t.name !== 'link' || !t.attrs.hreflang || !t.attrs.href) return [];
+    if (!(t.attrs.rel || '').toLowerCase().split(/\s+/).includes('alternate')) return [];
+    const url = normalizeUrl(t.attrs.href, pageUrl);
+    return url ? [{ lang: t.attrs.hreflang.toLowerCase(), url }] : [];
+  });
+
+  const description = meta('description')[0]?.attrs.content?.trim();
+  return {
+    title: tags.find(t => t.name === 'title')?.text || undefined,
+    description: description || undefined,
+    h1Count: tags.filter(t => t.name === 'h1').length,
+    robots: [...new Set(robots)],
+    hreflang,
+    openGraph: [...new Set(tags.filter(t => t.name === 'meta' && (t.attrs.property || '').startsWith('og:') && t.attrs.content).map(t => t.attrs.property))]
+  };
+};
+
+export interface SeoIssue {
+  check: SeoCheckId;
+  url: string;
+  detail?: string;
+}
+
+export interface SeoCheckSummary {
+  check: SeoCheckId;
+  label: string;
+  severity: SeoSeverity;
+  urls: string[];
+}
+
+export interface SeoReport {
+  pagesAudited: number;
+  issues: SeoIssue[];
+  checks: SeoCheckSummary[]; // only checks with at least one affected URL, in SEO_CHECKS order
+}
+
+// Pages that were fetched as HTML and answered; everything else has no on-page SEO to judge
+const isAuditable = (node: LinkNode): node is LinkNode & { seo: PageSeo } =>
+  !!node.seo && node.contentType === 'text/html' && node.status.startsWith('2');
+
+const outOfRange = (length: number, [min, max]: readonly [number, number]) =>
+  length < min ? `${length} characters, under ${min}` : length > max ? `${length} characters, over ${max}` : null;
+
+// Same text on several pages, compared case- and whitespace-insensitively
+const findDuplicates = (pages: LinkNode[], pick: (seo: PageSeo) => string | undefined) => {
+  const groups = new Map<string, string[]>();
+  for (const page of pages) {
+    const value = pick(page.seo!)?.replace(/\s+/g, ' ').trim().toLowerCase();
+    if (value) groups.set(value, [...(groups.get(value) || []), page.url]);
+  }
+  return [...groups.values()].filter(urls => urls.length > 1);
+};
+
+/**
+ * Site-wide on-page audit. Per-page checks look at each page's own facts; duplicates, canonical targets
+ * and hreflang return links need the rest of the crawl.
+ */
+export const auditSeo = (nodes: LinkNode[]): SeoReport => {
+  const pages = nodes.filter(isAuditable);
+  const byUrl = new Map(nodes.map(n => [n.url, n]));
+  const issues: SeoIssue[] = [];
+  const add = (check: SeoCheckId, url: string, detail?: string) => issues.push({ check, url, detail });
+
+  for (const { url, seo, canonical } of pages) {
+    if (!seo.title) add('title-missing', url);
+    else {
+      const length = outOfRange(seo.title.length, SEO_LIMITS.title);
+      if (length) add('title-length', url, length);
+    }
+    if (!seo.description) add('description-missing', url);
+    else {
+      const length = outOfRange(seo.description.length, SEO_LIMITS.description);
+      if (length) add('description-length', url, length);
+    }
+    if (seo.h1Count === 0) add('h1-missing', url);
+    if (seo.h1Count > 1) add('h1-multiple', url, `${seo.h1Count} <h1> elements`);
+    if (seo.robots.includes('noindex') || seo.robots.includes('none')) add('noindex', url, seo.robots.join(', '));
+    if (seo.robots.includes('nofollow') || seo.robots.includes('none')) add('nofollow', url, seo.robots.join(', '));
+
+    if (!canonical) add('canonical-missing', url);
+    else if (canonical !== url) {
+      // A canonical must name a URL that is itself indexable, or search engines ignore it
+      const target = byUrl.get(canonical);
+      if (new URL(canonical).host !== new URL(url).host) add('canonical-invalid', url, `Points to another host: ${canonical}`);
+      else if (target?.redirectChain) add('canonical-invalid', url, `Target redirects: ${canonical}`);
+      else if (target && /^[45]/.test(target.status)) add('canonical-invalid', url, `Target answers ${target.status}: ${canonical}`);
+      else if (target?.seo?.robots.includes('noindex')) add('canonical-invalid', url, `Target is noindex: ${canonical}`);
+    }
+
+    if (REQUIRED_OPEN_GRAPH.some(p => !seo.openGraph.includes(p))) {
+      add('og-missing', url, REQUIRED_OPEN_GRAPH.filter(p => !seo.openGraph.includes(p)).join(', '));
+    }
+
+    // Every alternate must list this page back, otherwise search engines drop the pair
+    for (const alternate of seo.hreflang) {
+      if (alternate.url === url) continue;
+      const target = byUrl.get(alternate.url);
+      if (!target || !isAuditable(target)) continue; // not crawled, can't tell
+      if (!target.seo.hreflang.some(h => h.url === url)) add('hreflang-reciprocity', url, `${alternate.lang}: ${alternate.url} does not link back`);
+    }
+  }
+
+  for (const urls of findDuplicates(pages, seo => seo.title)) {
+    urls.forEach(url => add('title-duplicate', url, `Shared with ${urls.length - 1} other page${urls.length > 2 ? 's' : ''}`));
+  }
+  for (const urls of findDuplicates(pages, seo => seo.description)) {
+    urls.forEach(url => add('description-duplicate', url, `Shared with ${urls.length - 1} other page${urls.length > 2 ? 's' : ''}`));
+  }
+
+  const checks = SEO_CHECKS.flatMap(({ id, label, severity }) => {
+    const urls = [...new Set(issues.filter(i => i.check === id).map(i => i.url))];
+    return urls.length > 0 ? [{ check: id, label, severity, urls }] : [];
+  });
+  return { pagesAudited: pages.length, issues, checks };
+};
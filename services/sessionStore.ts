@@ -0,0 +1,122 @@
+import { CrawlSession, CrawlSessionSummary, QueryPreset } from "../types";
+
+const DB_NAME = 'deeplink-ai';
+const DB_VERSION = 2;
+// Summaries are tiny and listed often; the heavy crawl state lives in its own store, keyed by the same id
+const SUMMARY_STORE = 'sessions';
+const SNAPSHOT_STORE = 'snapshots';
+const PRESET_STORE = 'queryPresets'; // added in version 2
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(PRESET_STORE)) db.createObjectStore(PRESET_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const toSummary = (session: CrawlSession): CrawlSessionSummary => ({
+  id: session.id,
+  name: session.name,
+  url: session.config.url,
+  createdAt: session.createdAt,
+  updatedAt: session.updatedAt,
+  status: session.status,
+  totalLinks: session.nodes.length,
+  scannedPages: session.stats.scannedPages,
+  queuedPages: session.queue.length
+});
+
+export const listSessions = async (): Promise<CrawlSessionSummary[]> => {
+  const db = await openDb();
+  const tx = db.transaction(SUMMARY_STORE, 'readonly');
+  const summaries = await promisify(tx.objectStore(SUMMARY_STORE).getAll() as IDBRequest<CrawlSessionSummary[]>);
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (id: string): Promise<CrawlSession | null> => {
+  const db = await openDb();
+  const tx = db.transaction(SNAPSHOT_STORE, 'readonly');
+  const session = await promisify(tx.objectStore(SNAPSHOT_STORE).get(id) as IDBRequest<CrawlSession | undefined>);
+  return session ?? null;
+};
+
+// Writes the summary and the snapshot atomically, so the history list never points at a missing crawl
+export const saveSession = async (session: CrawlSession): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, SNAPSHOT_STORE], 'readwrite');
+  tx.objectStore(SUMMARY_STORE).put(toSummary(session));
+  tx.objectStore(SNAPSHOT_STORE).put(session);
+  await completion(tx);
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, SNAPSHOT_STORE], 'readwrite');
+  const summaries = tx.objectStore(SUMMARY_STORE);
+  const snapshots = tx.objectStore(SNAPSHOT_STORE);
+  const [summary, snapshot] = await Promise.all([
+    promisify(summaries.get(id) as IDBRequest<CrawlSessionSummary | undefined>),
+    promisify(snapshots.get(id) as IDBRequest<CrawlSession | undefined>)
+  ]);
+  if (summary) summaries.put({ ...summary, name });
+  if (snapshot) snapshots.put({ ...snapshot, name });
+  await completion(tx);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, SNAPSHOT_STORE], 'readwrite');
+  tx.objectStore(SUMMARY_STORE).delete(id);
+  tx.objectStore(SNAPSHOT_STORE).delete(id);
+  await completion(tx);
+};
+
+// Saved results-table queries are shared by every session
+export const listQueryPresets = async (): Promise<QueryPreset[]> => {
+  const db = await openDb();
+  const tx = db.transaction(PRESET_STORE, 'readonly');
+  const presets = await promisify(tx.objectStore(PRESET_STORE).getAll() as IDBRequest<QueryPreset[]>);
+  return presets.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveQueryPreset = async (preset: QueryPreset): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PRESET_STORE, 'readwrite');
+  tx.objectStore(PRESET_STORE).put(preset);
+  await completion(tx);
+};
+
+export const deleteQueryPreset = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PRESET_STORE, 'readwrite');
+  tx.objectStore(PRESET_STORE).delete(id);
+  await completion(tx);
+};
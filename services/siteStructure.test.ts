@@ -0,0 +1,151 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LinkEdge, LinkNode } from '../types';
+import { analyzeStructure, computePageRank } from './siteStructure';
+
+const ROOT = 'https://site.test/';
+const url = (path: string) => `https://site.test${path}`;
+
+const page = (path: string, overrides: Partial<LinkNode> = {}): LinkNode => ({
+  id: url(path), url: url(path), title: path, depth: 1, status: '200',
+  type: 'internal', contentType: 'text/html', discoverySource: 'anchor', scanned: true, ...overrides
+});
+
+let position = 0;
+const link = (from: string, to: string, rel: string[] = [], discoverySource: LinkEdge['discoverySource'] = 'anchor'): LinkEdge =>
+  ({ source: url(from), target: url(to), text: to, rel, discoverySource, position: position++ });
+
+const NODES = [
+  page('/', { depth: 0 }),
+  page('/a'),
+  page('/b', { depth: 2 }),
+  page('/old', { status: '301', redirectChain: [{ url: url('/old'), status: 301 }, { url: url('/new'), status: 200 }], finalUrl: url('/new') }),
+  page('/new', { discoverySource: 'sitemap' }),
+  page('/private'),
+  page('/forgotten', { status: 'pending', discoverySource: 'sitemap', scanned: false }),
+  page('/island'),
+  page('/island-2'),
+  page('/logo.png', { type: 'resource', contentType: 'image/png', discoverySource: 'img_src' })
+];
+
+const EDGES = [
+  link('/', '/a'),
+  link('/', '/old'),
+  link('/', '/private', ['nofollow']),
+  link('/', '/logo.png', [], 'img_src'),
+  link('/a', '/'),
+  link('/a', '/b'),
+  link('/new', '/'),
+  link('/private', '/'),
+  link('/island', '/island-2'),
+  link('/island-2', '/island')
+];
+
+const analyze = (nodes = NODES, edges = EDGES) => analyzeStructure(nodes, edges, { rootUrl: ROOT, sitemapUrls: [url('/new'), url('/forgotten')] });
+
+describe('analyzeStructure', () => {
+  it('flags each kind of structural problem once', () => {
+    const report = analyze();
+    assert.deepEqual(
+      report.findings.map(f => [f.issue, new URL(f.url).pathname]),
+      [
+        ['orphan', '/forgotten'],
+        ['unreachable', '/island'],
+        ['unreachable', '/island-2'],
+        ['nofollow-only', '/private'],
+        ['dead-end', '/b']
+      ]
+    );
+    assert.equal(report.counts.unreachable, 2);
+    assert.equal(report.counts.deep, 0);
+    assert.equal(report.pagesAnalyzed, 8, 'the redirect and the image are not pages');
+    assert.equal(report.edges, EDGES.length - 1, 'the image is not a page link');
+  });
+
+  it('reports where each finding sits in the graph', () => {
+    const byPath = new Map(analyze().findings.map(f => [new URL(f.url).pathname, f]));
+    assert.deepEqual(byPath.get('/forgotten'), { url: url('/forgotten'), issue: 'orphan', status: 'not crawled', inlinks: 0, outlinks: 0, clickDepth: null });
+    assert.equal(byPath.get('/island')!.clickDepth, null);
+    assert.equal(byPath.get('/island')!.inlinks, 1);
+    assert.equal(byPath.get('/private')!.clickDepth, 1, 'nofollow links still lead a visitor there');
+    assert.equal(byPath.get('/b')!.clickDepth, 2);
+  });
+
+  it('credits a link to a redirect to the page it lands on', () => {
+    const report = analyze();
+    assert.ok(!report.findings.some(f => f.url === url('/new')), 'reached through /old, so neither orphan nor unreachable');
+    assert.ok(!report.findings.some(f => f.url === url('/old')));
+
+    const withoutRedirect = analyze(NODES, EDGES.filter(e => e.target !== url('/old')));
+    assert.deepEqual(withoutRedirect.findings.filter(f => f.url === url('/new')).map(f => f.issue), ['orphan']);
+  });
+
+  it('resolves a redirecting start page', () => {
+    const nodes = [
+      page('/', { status: '301', redirectChain: [{ url: ROOT, status: 301 }, { url: url('/home'), status: 200 }], finalUrl: url('/home') }),
+      page('/home', { depth: 0 }),
+      page('/a')
+    ];
+    const report = analyzeStructure(nodes, [link('/home', '/a'), link('/a', '/home')], { rootUrl: ROOT, sitemapUrls: [] });
+    assert.deepEqual(report.findings, []);
+  });
+
+  it('flags pages more than three clicks deep', () => {
+    const nodes = ['/', '/1', '/2', '/3', '/4'].map(path => page(path));
+    const edges = [link('/', '/1'), link('/1', '/2'), link('/2', '/3'), link('/3', '/4'), link('/4', '/')];
+    const report = analyzeStructure(nodes, edges, { rootUrl: ROOT, sitemapUrls: [] });
+    assert.deepEqual(report.findings.map(f => [f.issue, f.url, f.clickDepth]), [['deep', url('/4'), 4]]);
+  });
+
+  it('judges nothing without recorded links', () => {
+    const report = analyze(NODES, []);
+    assert.deepEqual(report.findings, []);
+    assert.equal(report.pagesAnalyzed, 0);
+  });
+});
+
+describe('computePageRank', () => {
+  const rank = (nodes: LinkNode[], edges: LinkEdge[]) =>
+    Object.fromEntries([...computePageRank(nodes, edges)].map(([u, score]) => [new URL(u).pathname, score]));
+
+  it('ranks the page everything links to first', () => {
+    const nodes = ['/', '/a', '/b', '/c'].map(path => page(path));
+    const scores = rank(nodes, [link('/a', '/'), link('/b', '/'), link('/c', '/'), link('/', '/a')]);
+    assert.equal(scores['/'], 100);
+    assert.ok(scores['/'] > scores['/a'] && scores['/a'] > scores['/b'], JSON.stringify(scores));
+    assert.equal(scores['/b'], scores['/c']);
+  });
+
+  it('counts a repeated link once', () => {
+    const nodes = ['/', '/a', '/b'].map(path => page(path));
+    const edges = [link('/', '/a'), link('/', '/a'), link('/', '/a'), link('/', '/b'), link('/a', '/'), link('/b', '/')];
+    const scores = rank(nodes, edges);
+    assert.equal(scores['/a'], scores['/b']);
+  });
+
+  it('passes nothing through nofollow or non-anchor links', () => {
+    const nodes = ['/', '/a', '/b', '/c'].map(path => page(path));
+    const edges = [link('/', '/a', ['nofollow']), link('/', '/b'), link('/', '/c', [], 'link_tag'), link('/a', '/'), link('/b', '/'), link('/c', '/')];
+    const scores = rank(nodes, edges);
+    assert.ok(scores['/b'] > scores['/a'], JSON.stringify(scores));
+    assert.equal(scores['/a'], scores['/c']);
+  });
+
+  it('follows redirects and leaves out broken pages', () => {
+    const nodes = [
+      page('/'),
+      page('/old', { status: '301', redirectChain: [{ url: url('/old'), status: 301 }, { url: url('/new'), status: 200 }], finalUrl: url('/new') }),
+      page('/new'),
+      page('/other'),
+      page('/gone', { status: '404' })
+    ];
+    const edges = [link('/', '/old'), link('/', '/gone'), link('/new', '/'), link('/other', '/')];
+    const scores = rank(nodes, edges);
+    assert.deepEqual(Object.keys(scores).sort(), ['/', '/new', '/other']);
+    assert.ok(scores['/new'] > scores['/other'], JSON.stringify(scores));
+  });
+
+  it('returns nothing without pages', () => {
+    assert.equal(computePageRank([], []).size, 0);
+  });
+});
@@ -0,0 +1,172 @@
+import { LinkEdge, LinkNode } from "../types";
+
+export type StructureIssue = 'orphan' | 'dead-end' | 'deep' | 'unreachable' | 'nofollow-only';
+
+// Pages further than this many clicks from the start page are flagged; search engines crawl them less often
+export const DEEP_CLICK_DEPTH = 3;
+
+export const STRUCTURE_ISSUES: { id: StructureIssue; label: string; color: string; description: string }[] = [
+  { id: 'orphan', label: 'Orphan', color: '#f43f5e', description: 'Known from the sitemap but no crawled page links to it' },
+  { id: 'unreachable', label: 'Unreachable', color: '#f97316', description: 'Linked, but only from pages the start page never leads to' },
+  { id: 'nofollow-only', label: 'Nofollow only', color: '#f59e0b', description: 'Every link pointing here carries rel=nofollow' },
+  { id: 'deep', label: 'Deep', color: '#a78bfa', description: `More than ${DEEP_CLICK_DEPTH} clicks from the start page` },
+  { id: 'dead-end', label: 'Dead end', color: '#60a5fa', description: 'Links to no other page on the site' },
+];
+
+export interface StructureFinding {
+  url: string;
+  issue: StructureIssue;
+  status: string;            // 'not crawled' for sitemap URLs the crawl never reached
+  inlinks: number;           // distinct pages linking here
+  outlinks: number;          // distinct internal pages linked from here
+  clickDepth: number | null; // shortest link path from the start page, null when there is none
+}
+
+export interface StructureReport {
+  pagesAnalyzed: number;
+  edges: number;             // page-to-page link occurrences
+  findings: StructureFinding[]; // in STRUCTURE_ISSUES order, then by URL
+  counts: Record<StructureIssue, number>;
+}
+
+// In-scope internal documents: the pages whose place in the site's link graph means something
+const isSitePage = (node: LinkNode) =>
+  node.type === 'internal' && node.contentType === 'text/html' && !node.outOfScope && node.status !== 'blocked' && !node.redirectChain;
+
+// Navigation between pages; stylesheets, images and scripts are edges too but don't structure the site
+const isPageLink = (edge: LinkEdge) => edge.discoverySource === 'anchor';
+
+// A link to a redirecting URL counts for the page the redirect lands on
+const redirectResolver = (byUrl: Map<string, LinkNode>) => (url: string) => {
+  let current = url;
+  for (let hops = 0; hops < 10; hops++) {
+    const node = byUrl.get(current);
+    if (!node?.redirectChain || !node.finalUrl || node.finalUrl === current) break;
+    current = node.finalUrl;
+  }
+  return current;
+};
+
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 50;
+
+/**
+ * Internal PageRank over followed links between site pages, scaled so the strongest page scores 100.
+ * A page linking the same URL twice passes no more than linking it once; nofollow links pass nothing.
+ */
+export const computePageRank = (nodes: LinkNode[], edges: LinkEdge[]): Map<string, number> => {
+  const byUrl = new Map(nodes.map(n => [n.url, n]));
+  const resolve = redirectResolver(byUrl);
+  // Broken pages would only soak up rank that no visitor can use
+  const pages = nodes.filter(n => isSitePage(n) && !/^[45]/.test(n.status)).map(n => n.url);
+  const index = new Map(pages.map((url, i) => [url, i]));
+  if (pages.length === 0) return new Map();
+
+  const targets: Set<number>[] = pages.map(() => new Set());
+  for (const edge of edges) {
+    if (!isPageLink(edge) || edge.rel.includes('nofollow')) continue;
+    const from = index.get(edge.source);
+    const to = index.get(resolve(edge.target));
+    if (from !== undefined && to !== undefined && from !== to) targets[from].add(to);
+  }
+
+  const n = pages.length;
+  let rank = new Array<number>(n).fill(1 / n);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    // Pages without outgoing links hand their rank to everyone, as a visitor would jump anywhere
+    const dangling = rank.reduce((sum, r, i) => (targets[i].size === 0 ? sum + r : sum), 0);
+    const next = new Array<number>(n).fill((1 - DAMPING) / n + DAMPING * dangling / n);
+    rank.forEach((r, i) => targets[i].forEach(t => { next[t] += DAMPING * r / targets[i].size; }));
+    const delta = next.reduce((sum, r, i) => sum + Math.abs(r - rank[i]), 0);
+    rank = next;
+    if (delta < 1e-6) break;
+  }
+
+  const max = rank.reduce((a, b) => Math.max(a, b), 0);
+  return new Map(pages.map((url, i) => [url, Math.round(100 * rank[i] / max)]));
+};
+
+/**
+ * Works out the site's internal link graph: which pages nothing links to, which link nowhere, how many
+ * clicks each one is from the start page, and which are only reachable through nofollow links.
+ */
+export const analyzeStructure = (
+  nodes: LinkNode[],
+  edges: LinkEdge[],
+  options: { rootUrl: string; sitemapUrls: Iterable<string> }
+): StructureReport => {
+  const counts = Object.fromEntries(STRUCTURE_ISSUES.map(i => [i.id, 0])) as Record<StructureIssue, number>;
+  // Sessions saved before links were recorded have no graph to judge; everything would look orphaned
+  if (edges.length === 0) return { pagesAnalyzed: 0, edges: 0, findings: [], counts };
+
+  const byUrl = new Map(nodes.map(n => [n.url, n]));
+  const resolve = redirectResolver(byUrl);
+  const pageLinks = edges.filter(isPageLink);
+
+  const inbound = new Map<string, { sources: Set<string>; followed: boolean }>();
+  const outbound = new Map<string, Set<string>>();
+  for (const edge of pageLinks) {
+    const target = resolve(edge.target);
+    if (target === edge.source) continue;
+    const targetNode = byUrl.get(target);
+    if (!targetNode || targetNode.type !== 'internal') continue;
+
+    const entry = inbound.get(target) ?? { sources: new Set<string>(), followed: false };
+    entry.sources.add(edge.source);
+    entry.followed = entry.followed || !edge.rel.includes('nofollow');
+    inbound.set(target, entry);
+    outbound.set(edge.source, (outbound.get(edge.source) ?? new Set<string>()).add(target));
+  }
+
+  // Breadth-first from the start page: the fewest clicks a visitor needs to reach each page
+  const clickDepth = new Map<string, number>();
+  const root = resolve(options.rootUrl);
+  let frontier = [root];
+  clickDepth.set(root, 0);
+  for (let depth = 1; frontier.length > 0; depth++) {
+    const next: string[] = [];
+    for (const url of frontier) {
+      for (const target of outbound.get(url) ?? []) {
+        if (clickDepth.has(target)) continue;
+        clickDepth.set(target, depth);
+        next.push(target);
+      }
+    }
+    frontier = next;
+  }
+
+  const findings: StructureFinding[] = [];
+  const add = (issue: StructureIssue, url: string) => {
+    counts[issue]++;
+    findings.push({
+      url, issue,
+      status: byUrl.get(url)?.status === 'pending' ? 'not crawled' : byUrl.get(url)?.status ?? 'not crawled',
+      inlinks: inbound.get(url)?.sources.size ?? 0,
+      outlinks: outbound.get(url)?.size ?? 0,
+      clickDepth: clickDepth.get(url) ?? null
+    });
+  };
+
+  const pages = nodes.filter(isSitePage);
+  const known = new Set([...options.sitemapUrls, ...nodes.filter(n => n.discoverySource === 'sitemap').map(n => n.url)]);
+
+  for (const url of known) {
+    const node = byUrl.get(url);
+    if (url === root || (node && !isSitePage(node))) continue;
+    if (!inbound.has(url)) add('orphan', url);
+  }
+
+  for (const page of pages) {
+    const links = inbound.get(page.url);
+    const depth = clickDepth.get(page.url);
+    if (page.url !== root && links && depth === undefined) add('unreachable', page.url);
+    if (links && !links.followed) add('nofollow-only', page.url);
+    if (depth !== undefined && depth > DEEP_CLICK_DEPTH) add('deep', page.url);
+    // Only pages that were actually read can be said to link nowhere
+    if (page.scanned && page.status.startsWith('2') && !outbound.has(page.url)) add('dead-end', page.url);
+  }
+
+  const order = STRUCTURE_ISSUES.map(i => i.id);
+  findings.sort((a, b) => order.indexOf(a.issue) - order.indexOf(b.issue) || a.url.localeCompare(b.url));
+  return { pagesAnalyzed: pages.length, edges: pageLinks.length, findings, counts };
+};
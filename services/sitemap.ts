@@ -0,0 +1,128 @@
+import { LinkNode, SitemapReport } from "../types";
+import { decodeEntities } from "./htmlParser";
+import { RawResource } from "./linkExtractor";
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: string;
+  sitemap: string; // file it was listed in
+}
+
+export interface SitemapFile {
+  url: string;
+  status: number;
+  kind: 'urlset' | 'index' | 'invalid';
+  entries: number;
+  parent?: string; // index file that referenced it
+}
+
+export interface ParsedSitemap {
+  kind: SitemapFile['kind'];
+  locs: { loc: string; lastmod?: string }[];
+}
+
+const readTag = (block: string, tag: string): string | undefined => {
+  const match = new RegExp(`<(?:[\\w-]+:)?${tag}[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, 'i').exec(block);
+  if (!match) return undefined;
+  return decodeEntities(match[1].replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1')).trim() || undefined;
+};
+
+/**
+ * Parses both <urlset> and <sitemapindex> documents (sitemaps.org 0.9). Namespace prefixes are tolerated.
+ */
+export const parseSitemap = (xml: string): ParsedSitemap => {
+  const root = /<(?:[\w-]+:)?(urlset|sitemapindex)[\s>]/i.exec(xml);
+  if (!root) return { kind: 'invalid', locs: [] };
+
+  const kind = root[1].toLowerCase() === 'sitemapindex' ? 'index' : 'urlset';
+  const element = kind === 'index' ? 'sitemap' : 'url';
+  const blockRe = new RegExp(`<(?:[\\w-]+:)?${element}[\\s>][\\s\\S]*?</(?:[\\w-]+:)?${element}>`, 'gi');
+
+  const locs: ParsedSitemap['locs'] = [];
+  let match: RegExpExecArray | null;
+  while ((match = blockRe.exec(xml))) {
+    const loc = readTag(match[0], 'loc');
+    if (loc) locs.push({ loc, lastmod: readTag(match[0], 'lastmod') });
+  }
+  return { kind, locs };
+};
+
+export interface CollectSitemapOptions {
+  maxFiles?: number;
+  maxUrls?: number;
+  onFile?: (file: SitemapFile) => void;
+}
+
+/**
+ * Walks sitemap files breadth-first, following index files, until the file or URL budget runs out.
+ * Gzipped sitemaps are inflated by whoever implements fetchRaw (the crawl proxy does it server-side).
+ */
+export const collectSitemaps = async (
+  seeds: string[],
+  fetchRaw: (url: string) => Promise<RawResource>,
+  options: CollectSitemapOptions = {}
+): Promise<{ files: SitemapFile[]; entries: SitemapEntry[] }> => {
+  const maxFiles = options.maxFiles ?? 50;
+  const maxUrls = options.maxUrls ?? 50000;
+  const queue: { url: string; parent?: string }[] = seeds.map(url => ({ url }));
+  const seenFiles = new Set<string>();
+  const seenUrls = new Set<string>();
+  const files: SitemapFile[] = [];
+  const entries: SitemapEntry[] = [];
+
+  while (queue.length > 0 && files.length < maxFiles && entries.length < maxUrls) {
+    const { url, parent } = queue.shift()!;
+    if (seenFiles.has(url)) continue;
+    seenFiles.add(url);
+
+    let file: SitemapFile;
+    try {
+      const res = await fetchRaw(url);
+      const parsed = res.status >= 200 && res.status < 300 ? parseSitemap(res.body) : { kind: 'invalid' as const, locs: [] };
+      file = { url, status: res.status, kind: parsed.kind, entries: parsed.locs.length, parent };
+
+      for (const { loc, lastmod } of parsed.locs) {
+        let absolute: string;
+        try {
+          absolute = new URL(loc, url).toString();
+        } catch {
+          continue;
+        }
+        if (parsed.kind === 'index') {
+          queue.push({ url: absolute, parent: url });
+        } else if (!seenUrls.has(absolute) && entries.length < maxUrls) {
+          seenUrls.add(absolute);
+          entries.push({ loc: absolute, lastmod, sitemap: url });
+        }
+      }
+    } catch {
+      file = { url, status: 0, kind: 'invalid', entries: 0, parent };
+    }
+    files.push(file);
+    options.onFile?.(file);
+  }
+
+  return { files, entries };
+};
+
+/**
+ * Compares what the sitemaps declare with what the crawl actually found linked from pages.
+ * Only linked internal HTML pages that resolved (or were never fetched) count as "should be in the sitemap";
+ * redirects, errors and robots-blocked URLs don't belong there in the first place.
+ */
+export const reconcileSitemap = (
+  sitemapUrls: Iterable<string>,
+  linkedUrls: Set<string>,
+  nodes: LinkNode[]
+): SitemapReport => {
+  const inSitemap = new Set(sitemapUrls);
+  const inSitemapNotLinked = [...inSitemap].filter(url => !linkedUrls.has(url));
+
+  const linkedNotInSitemap = nodes
+    .filter(n => linkedUrls.has(n.url) && !inSitemap.has(n.url))
+    .filter(n => n.type === 'internal' && n.contentType === 'text/html')
+    .filter(n => n.status.startsWith('2') || n.status === 'pending')
+    .map(n => n.url);
+
+  return { sitemapUrlCount: inSitemap.size, inSitemapNotLinked, linkedNotInSitemap };
+};
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LinkNode } from '../types';
+import { parseHtml } from './htmlParser';
+import { buildTechInventory, detectTech, parseTechLabel } from './techFingerprint';
+
+const fromHtml = (html: string, headers: Record<string, string> = {}) => detectTech({ headers, tags: parseHtml(html), html });
+
+describe('detectTech', () => {
+  it('reads versions from headers, the generator tag and script URLs', () => {
+    const html = `<html><head>
+      <meta name="generator" content="WordPress 6.4.2">
+      <script src="/wp-includes/js/jquery/jquery-3.7.1.min.js"></script>
+      <link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Inter">
+    </head></html>`;
+    assert.deepEqual(
+      fromHtml(html, { Server: 'nginx/1.25.3', 'Set-Cookie': 'PHPSESSID=abc; path=/\n_ga=GA1.1' }),
+      ['Google Analytics', 'Google Fonts', 'Nginx 1.25.3', 'PHP', 'WordPress 6.4.2', 'jQuery 3.7.1']
+    );
+  });
+
+  it('adds implied technologies without a version', () => {
+    assert.deepEqual(fromHtml('<div id="__next"></div><script id="__NEXT_DATA__" type="application/json">{}</script>'), ['Next.js', 'React']);
+    assert.deepEqual(detectTech({ headers: { server: 'openresty/1.21.4.1' } }), ['Nginx', 'OpenResty 1.21.4.1']);
+  });
+
+  it('keeps a versioned match over a bare one for the same technology', () => {
+    const html = '<script src="/js/jquery.min.js"></script><script src="https://cdn.jsdelivr.net/npm/jquery@3.6.0/dist/jquery.min.js"></script>';
+    assert.ok(fromHtml(html).includes('jQuery 3.6.0'), fromHtml(html).join(', '));
+  });
+
+  it('finds nothing on a plain page', () => {
+    assert.deepEqual(fromHtml('<html><head><title>Plain</title><script src="/app.js"></script></head></html>', { 'content-type': 'text/html' }), []);
+    assert.deepEqual(detectTech({}), []);
+  });
+});
+
+describe('parseTechLabel', () => {
+  it('splits a label into rule name, version and category', () => {
+    assert.deepEqual(parseTechLabel('Microsoft IIS 10.0'), { name: 'Microsoft IIS', version: '10.0', category: 'Web server' });
+    assert.deepEqual(parseTechLabel('Cloudflare'), { name: 'Cloudflare', version: undefined, category: 'CDN' });
+    assert.deepEqual(parseTechLabel('Something Else 2'), { name: 'Something Else 2', category: 'Other' });
+  });
+});
+
+describe('buildTechInventory', () => {
+  it('collects versions and pages per technology, most widespread first', () => {
+    const node = (path: string, detectedTech: string[]): LinkNode => ({
+      id: `https://site.test${path}`, url: `https://site.test${path}`, title: path, depth: 1, status: '200',
+      type: 'internal', contentType: 'text/html', discoverySource: 'anchor', scanned: true, detectedTech
+    });
+    const inventory = buildTechInventory([node('/', ['jQuery 3.7.1', 'Nginx']), node('/old', ['jQuery 1.12.4', 'Nginx']), node('/a', ['Nginx'])]);
+    assert.deepEqual(inventory.map(e => [e.name, e.urls.length, e.versions]), [['Nginx', 3, []], ['jQuery', 2, ['1.12.4', '3.7.1']]]);
+  });
+});
@@ -0,0 +1,187 @@
+import { LinkNode } from "../types";
+import { HtmlTag } from "./htmlParser";
+
+export type TechCategory =
+  | 'CMS' | 'Static site generator' | 'Web framework' | 'JavaScript library' | 'UI framework'
+  | 'Analytics' | 'Tag manager' | 'CDN' | 'Web server' | 'Language' | 'Fonts' | 'Other';
+
+/**
+ * One technology and the evidence that gives it away, Wappalyzer style. Every pattern may capture the
+ * version in its first group. Header and cookie keys are lowercased names; cookie keys match by prefix.
+ */
+export interface TechRule {
+  name: string;
+  category: TechCategory;
+  headers?: Record<string, RegExp>;
+  cookies?: string[];
+  generator?: RegExp; // <meta name="generator">
+  scripts?: RegExp[]; // <script src>
+  styles?: RegExp[];  // <link rel="stylesheet" href>
+  html?: RegExp[];    // raw markup
+  implies?: string[]; // detected along with it, without a version
+}
+
+export const TECH_RULES: TechRule[] = [
+  // Web servers
+  { name: 'Nginx', category: 'Web server', headers: { server: /nginx(?:\/([\d.]+))?/i } },
+  { name: 'Apache', category: 'Web server', headers: { server: /apache(?:\/([\d.]+))?/i } },
+  { name: 'Microsoft IIS', category: 'Web server', headers: { server: /microsoft-iis(?:\/([\d.]+))?/i } },
+  { name: 'LiteSpeed', category: 'Web server', headers: { server: /litespeed/i } },
+  { name: 'OpenResty', category: 'Web server', headers: { server: /openresty(?:\/([\d.]+))?/i }, implies: ['Nginx'] },
+  { name: 'Caddy', category: 'Web server', headers: { server: /caddy/i } },
+  { name: 'Express', category: 'Web framework', headers: { 'x-powered-by': /^express$/i } },
+
+  // Languages
+  { name: 'PHP', category: 'Language', headers: { 'x-powered-by': /php(?:\/([\d.]+))?/i, server: /php\/([\d.]+)/i }, cookies: ['PHPSESSID'] },
+  { name: 'ASP.NET', category: 'Web framework', headers: { 'x-aspnet-version': /([\d.]+)/, 'x-powered-by': /asp\.net/i }, cookies: ['ASP.NET_SessionId', 'ASPSESSIONID'] },
+  { name: 'Java', category: 'Language', cookies: ['JSESSIONID'] },
+
+  // CDNs and caches
+  { name: 'Cloudflare', category: 'CDN', headers: { server: /^cloudflare$/i, 'cf-ray': /./ }, cookies: ['__cf_bm', '__cfduid'] },
+  { name: 'Amazon CloudFront', category: 'CDN', headers: { via: /cloudfront/i, 'x-amz-cf-id': /./ } },
+  { name: 'Fastly', category: 'CDN', headers: { 'x-fastly-request-id': /./, 'x-served-by': /^cache-/ } },
+  { name: 'Akamai', category: 'CDN', headers: { server: /akamaighost/i, 'x-akamai-transformed': /./ } },
+  { name: 'Varnish', category: 'CDN', headers: { via: /varnish(?:\s*\(varnish\/([\d.]+)\))?/i, 'x-varnish': /./ } },
+  { name: 'jsDelivr', category: 'CDN', scripts: [/cdn\.jsdelivr\.net/], styles: [/cdn\.jsdelivr\.net/] },
+  { name: 'cdnjs', category: 'CDN', scripts: [/cdnjs\.cloudflare\.com/], styles: [/cdnjs\.cloudflare\.com/] },
+  { name: 'unpkg', category: 'CDN', scripts: [/unpkg\.com/], styles: [/unpkg\.com/] },
+
+  // CMSs and site generators
+  { name: 'WordPress', category: 'CMS', generator: /wordpress\s*([\d.]+)?/i, scripts: [/\/wp-(?:content|includes)\//], styles: [/\/wp-(?:content|includes)\//], headers: { link: /api\.w\.org/ }, implies: ['PHP'] },
+  { name: 'Drupal', category: 'CMS', generator: /drupal\s*(\d+)?/i, headers: { 'x-drupal-cache': /./, 'x-generator': /drupal\s*(\d+)?/i }, scripts: [/\/sites\/(?:all|default)\/|drupal\.js/], implies: ['PHP'] },
+  { name: 'Joomla', category: 'CMS', generator: /joomla!?\s*(?:-\s*open source content management)?\s*([\d.]+)?/i, html: [/\/media\/jui\//], implies: ['PHP'] },
+  { name: 'TYPO3', category: 'CMS', generator: /typo3\s*(?:cms\s*)?([\d.]+)?/i, implies: ['PHP'] },
+  { name: 'Shopify', category: 'CMS', headers: { 'x-shopid': /./, 'x-shopify-stage': /./ }, scripts: [/cdn\.shopify\.com/] },
+  { name: 'Wix', category: 'CMS', generator: /wix\.com/i, headers: { 'x-wix-request-id': /./ } },
+  { name: 'Squarespace', category: 'CMS', generator: /squarespace/i, scripts: [/static\d*\.squarespace\.com/] },
+  { name: 'Ghost', category: 'CMS', generator: /ghost\s*([\d.]+)?/i },
+  { name: 'Hugo', category: 'Static site generator', generator: /hugo\s*([\d.]+)?/i },
+  { name: 'Jekyll', category: 'Static site generator', generator: /jekyll\s*v?([\d.]+)?/i },
+  { name: 'Gatsby', category: 'Static site generator', generator: /gatsby\s*([\d.]+)?/i, html: [/id="___gatsby"/], implies: ['React'] },
+
+  // Frameworks and libraries
+  { name: 'Next.js', category: 'Web framework', headers: { 'x-powered-by': /next\.js\s*([\d.]+)?/i }, scripts: [/\/_next\/static\//], html: [/id="__NEXT_DATA__"/], implies: ['React'] },
+  { name: 'Nuxt.js', category: 'Web framework', scripts: [/\/_nuxt\//], html: [/window\.__NUXT__/], implies: ['Vue.js'] },
+  { name: 'Laravel', category: 'Web framework', cookies: ['laravel_session'], implies: ['PHP'] },
+  { name: 'Django', category: 'Web framework', html: [/name="csrfmiddlewaretoken"/], cookies: ['django_language'] },
+  { name: 'Ruby on Rails', category: 'Web framework', html: [/<meta name="csrf-param" content="authenticity_token"/], cookies: ['_rails_session'] },
+  { name: 'React', category: 'JavaScript library', scripts: [/react(?:-dom)?@([\d.]+)/, /react(?:-dom)?(?:\.production)?(?:\.min)?\.js/], html: [/data-reactroot/] },
+  { name: 'Vue.js', category: 'JavaScript library', scripts: [/vue@([\d.]+)/, /vue(?:\.runtime)?(?:\.global)?(?:\.prod)?(?:\.min)?\.js/], html: [/data-v-[0-9a-f]{8}/] },
+  { name: 'Angular', category: 'JavaScript library', html: [/ng-version="([\d.]+)"/] },
+  { name: 'jQuery', category: 'JavaScript library', scripts: [/jquery[.-]([\d.]+?)(?:\.slim)?(?:\.min)?\.js/, /jquery@([\d.]+)/, /jquery(?:\.slim)?(?:\.min)?\.js/] },
+  { name: 'Bootstrap', category: 'UI framework', styles: [/bootstrap@([\d.]+)/, /bootstrap(?:\.min)?\.css/], scripts: [/bootstrap(?:\.bundle)?(?:\.min)?\.js/] },
+  { name: 'Tailwind CSS', category: 'UI framework', scripts: [/cdn\.tailwindcss\.com/], styles: [/tailwind(?:css)?@([\d.]+)/] },
+  { name: 'Font Awesome', category: 'Fonts', styles: [/font-?awesome(?:\/|@)([\d.]+)?/i], scripts: [/kit\.fontawesome\.com/] },
+  { name: 'Google Fonts', category: 'Fonts', styles: [/fonts\.googleapis\.com/] },
+
+  // Analytics and tag managers
+  { name: 'Google Analytics', category: 'Analytics', scripts: [/google-analytics\.com\/(?:ga|analytics)\.js/, /googletagmanager\.com\/gtag\/js/], cookies: ['_ga', '_gid'] },
+  { name: 'Google Tag Manager', category: 'Tag manager', scripts: [/googletagmanager\.com\/gtm\.js/], html: [/googletagmanager\.com\/ns\.html/] },
+  { name: 'Matomo', category: 'Analytics', scripts: [/(?:matomo|piwik)\.js/], cookies: ['_pk_id', '_pk_ses'] },
+  { name: 'Plausible', category: 'Analytics', scripts: [/plausible\.io\/js\//] },
+  { name: 'Hotjar', category: 'Analytics', scripts: [/static\.hotjar\.com/] },
+  { name: 'Microsoft Clarity', category: 'Analytics', scripts: [/clarity\.ms\/tag/] },
+  { name: 'Meta Pixel', category: 'Analytics', scripts: [/connect\.facebook\.net\/[^/]+\/fbevents\.js/] },
+];
+
+export interface TechEvidence {
+  headers?: Record<string, string>;
+  tags?: HtmlTag[];
+  html?: string;
+}
+
+// Pattern scans over the raw markup stop here; generators and framework markers sit near the top
+const MAX_HTML_SCAN = 256 * 1024;
+
+const cookieNames = (setCookie?: string) =>
+  (setCookie || '').split('\n').map(line => line.split('=')[0].trim()).filter(Boolean);
+
+// Undefined when nothing matches, '' when it matched without a version
+const firstMatch = (patterns: RegExp[], values: string[]): string | undefined => {
+  for (const pattern of patterns) {
+    for (const value of values) {
+      const match = pattern.exec(value);
+      if (match) return match[1] ?? '';
+    }
+  }
+  return undefined;
+};
+
+const matchRule = (rule: TechRule, evidence: { headers: Record<string, string>; cookies: string[]; generators: string[]; scripts: string[]; styles: string[]; html: string }) => {
+  const hits: (string | undefined)[] = [];
+  for (const [name, pattern] of Object.entries(rule.headers ?? {})) {
+    if (evidence.headers[name] !== undefined) hits.push(firstMatch([pattern], [evidence.headers[name]]));
+  }
+  if (rule.cookies?.some(prefix => evidence.cookies.some(c => c.startsWith(prefix)))) hits.push('');
+  if (rule.generator) hits.push(firstMatch([rule.generator], evidence.generators));
+  if (rule.scripts) hits.push(firstMatch(rule.scripts, evidence.scripts));
+  if (rule.styles) hits.push(firstMatch(rule.styles, evidence.styles));
+  if (rule.html && evidence.html) hits.push(firstMatch(rule.html, [evidence.html]));
+  const found = hits.filter((hit): hit is string => hit !== undefined);
+  if (found.length === 0) return undefined;
+  // The most specific evidence wins: any hit that carried a version
+  return found.find(Boolean) ?? '';
+};
+
+export const techLabel = (name: string, version?: string) => (version ? `${name} ${version}` : name);
+
+/**
+ * Fingerprints one response. Headers and cookies work for any response; generator, script, stylesheet
+ * and markup rules need the parsed page. Returns labels like "WordPress 6.4.2" or "Cloudflare".
+ */
+export const detectTech = ({ headers = {}, tags = [], html = '' }: TechEvidence): string[] => {
+  const lowered = Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
+  const evidence = {
+    headers: lowered,
+    cookies: cookieNames(lowered['set-cookie']),
+    generators: tags.filter(t => t.name === 'meta' && (t.attrs.name || '').toLowerCase() === 'generator' && t.attrs.content).map(t => t.attrs.content),
+    scripts: tags.filter(t => t.name === 'script' && t.attrs.src).map(t => t.attrs.src),
+    styles: tags.filter(t => t.name === 'link' && (t.attrs.rel || '').toLowerCase().includes('stylesheet') && t.attrs.href).map(t => t.attrs.href),
+    html: html.slice(0, MAX_HTML_SCAN)
+  };
+
+  const detected = new Map<string, string>();
+  for (const rule of TECH_RULES) {
+    const version = matchRule(rule, evidence);
+    if (version !== undefined) detected.set(rule.name, version);
+  }
+  for (const name of [...detected.keys()]) {
+    TECH_RULES.find(r => r.name === name)?.implies?.forEach(implied => { if (!detected.has(implied)) detected.set(implied, ''); });
+  }
+  return [...detected.entries()].map(([name, version]) => techLabel(name, version)).sort();
+};
+
+// Splits a stored label back into the rule it came from; labels from older crawls may not match any
+export const parseTechLabel = (label: string): { name: string; version?: string; category: TechCategory } => {
+  const rule = TECH_RULES.find(r => label === r.name || label.startsWith(`${r.name} `));
+  if (!rule) return { name: label, category: 'Other' };
+  const version = label.slice(rule.name.length).trim();
+  return { name: rule.name, version: version || undefined, category: rule.category };
+};
+
+export interface TechInventoryEntry {
+  name: string;
+  category: TechCategory;
+  versions: string[]; // distinct versions seen, more than one usually means a half-finished upgrade
+  urls: string[];
+}
+
+// Site-wide rollup of every node's detectedTech, most widespread first
+export const buildTechInventory = (nodes: LinkNode[]): TechInventoryEntry[] => {
+  const inventory = new Map<string, { category: TechCategory; versions: Set<string>; urls: Set<string> }>();
+  for (const node of nodes) {
+    for (const label of node.detectedTech ?? []) {
+      const { name, version, category } = parseTechLabel(label);
+      let entry = inventory.get(name);
+      if (!entry) {
+        entry = { category, versions: new Set(), urls: new Set() };
+        inventory.set(name, entry);
+      }
+      if (version) entry.versions.add(version);
+      entry.urls.add(node.url);
+    }
+  }
+  return [...inventory.entries()]
+    .map(([name, e]) => ({ name, category: e.category, versions: [...e.versions].sort(), urls: [...e.urls] }))
+    .sort((a, b) => b.urls.length - a.urls.length || a.name.localeCompare(b.name));
+};
@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeUrl } from './urlNormalize';
+
+describe('normalizeUrl', () => {
+  it('collapses trailing slashes except on the root', () => {
+    assert.equal(normalizeUrl('https://site.test/about/'), 'https://site.test/about');
+    assert.equal(normalizeUrl('https://site.test/about'), 'https://site.test/about');
+    assert.equal(normalizeUrl('https://site.test'), 'https://site.test/');
+    assert.equal(normalizeUrl('https://site.test/'), 'https://site.test/');
+    assert.equal(normalizeUrl('https://site.test/a//b///'), 'https://site.test/a/b');
+  });
+
+  it('keeps trailing slashes when asked to', () => {
+    assert.equal(normalizeUrl('https://site.test/about/', undefined, { stripTrailingSlash: false }), 'https://site.test/about/');
+  });
+
+  it('drops default ports and keeps the others', () => {
+    assert.equal(normalizeUrl('https://site.test:443/a'), 'https://site.test/a');
+    assert.equal(normalizeUrl('http://site.test:80/a'), 'http://site.test/a');
+    assert.equal(normalizeUrl('http://site.test:443/a'), 'http://site.test:443/a');
+    assert.equal(normalizeUrl('https://site.test:8443/a'), 'https://site.test:8443/a');
+  });
+
+  it('lowercases scheme and host, strips the trailing dot, credentials and fragment', () => {
+    assert.equal(normalizeUrl('HTTPS://User:pw@Site.TEST./Path#top'), 'https://site.test/Path');
+  });
+
+  it('normalises percent-encoding', () => {
+    assert.equal(normalizeUrl('https://site.test/%7euser/a%2fb'), 'https://site.test/~user/a%2Fb');
+  });
+
+  it('drops tracking parameters and sorts the rest', () => {
+    assert.equal(normalizeUrl('https://site.test/?utm_source=x&b=2&a=1&gclid=y&a=0'), 'https://site.test/?a=0&a=1&b=2');
+    assert.equal(normalizeUrl('https://site.test/?utm_source=x'), 'https://site.test/');
+    assert.equal(normalizeUrl('https://site.test/?ref=x&b=1', undefined, { trackingParams: ['ref'] }), 'https://site.test/?b=1');
+  });
+
+  it('resolves relative URLs and rejects anything that is not http(s)', () => {
+    assert.equal(normalizeUrl('../b/', 'https://site.test/a/c'), 'https://site.test/b');
+    assert.equal(normalizeUrl('mailto:info@site.test'), null);
+    assert.equal(normalizeUrl('not a url'), null);
+  });
+});
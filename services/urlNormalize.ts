@@ -0,0 +1,59 @@
+// Query parameters that only carry campaign/click attribution. "*" suffix means prefix match.
+export const DEFAULT_TRACKING_PARAMS = ['utm_*', 'gclid', 'dclid', 'fbclid', 'msclkid', 'mc_cid', 'mc_eid', '_ga', '_gl', 'yclid'];
+
+export interface NormalizeOptions {
+  trackingParams?: string[];
+  stripTrailingSlash?: boolean; // treat /page and /page/ as the same resource (default true)
+}
+
+const UNRESERVED = /[A-Za-z0-9\-._~]/;
+
+// %7E -> ~, %2f stays %2F: decode only what never needed encoding, uppercase the rest
+const normalizePercentEncoding = (value: string): string =>
+  value.replace(/%([0-9a-fA-F]{2})/g, (match, hex: string) => {
+    const char = String.fromCharCode(parseInt(hex, 16));
+    return UNRESERVED.test(char) ? char : `%${hex.toUpperCase()}`;
+  });
+
+const isTrackingParam = (name: string, patterns: string[]): boolean => {
+  const lower = name.toLowerCase();
+  return patterns.some(pattern => {
+    const p = pattern.trim().toLowerCase();
+    if (!p) return false;
+    return p.endsWith('*') ? lower.startsWith(p.slice(0, -1)) : lower === p;
+  });
+};
+
+/**
+ * Canonical form used as the identity of a URL in the crawl (visited set, node ids, sitemap comparison).
+ * Relative URLs are resolved against `base`. The WHATWG URL parser already lowercases the scheme and host,
+ * converts IDN hosts to punycode and drops default ports; on top of that we strip the fragment, drop tracking
+ * parameters, sort the query and collapse trailing slashes. Returns null for anything that isn't http(s).
+ */
+export const normalizeUrl = (raw: string, base?: string, options: NormalizeOptions = {}): string | null => {
+  let url: URL;
+  try {
+    url = new URL(raw.trim(), base);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  url.hash = '';
+  url.username = '';
+  url.password = '';
+  if (url.hostname.endsWith('.')) url.hostname = url.hostname.slice(0, -1);
+
+  let path = normalizePercentEncoding(url.pathname).replace(/\/{2,}/g, '/');
+  if (options.stripTrailingSlash !== false && path.length > 1 && path.endsWith('/')) path = path.slice(0, -1);
+  url.pathname = path;
+
+  const trackingParams = options.trackingParams ?? DEFAULT_TRACKING_PARAMS;
+  const params = [...url.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name, trackingParams))
+    .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : av > bv ? 1 : 0) : a < b ? -1 : 1));
+  url.search = params.length > 0 ? new URLSearchParams(params).toString() : '';
+
+  return url.toString();
+};
+
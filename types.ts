@@ -2,13 +2,36 @@ export interface CrawlConfig {
   url: string;
   maxDepth: number;
   maxPages: number;
-  delay: number;
+  delay: number; // minimum gap between requests to the same host
+  concurrency: number; // worker pool size
+  perHostConcurrency: number; // max simultaneous requests to one host
   respectRobots: boolean;
   renderJS: boolean;
   includeAssets: boolean;
+  extractor: ExtractorId;
+  discoverSitemaps: boolean;
+  trackingParams: string[]; // query params dropped during URL normalization ("utm_*" = prefix)
+  scope: ScopeStrategy;
+  scopeRules: ScopeRule[]; // evaluated in order, first match wins; no match falls back to the strategy
 }
 
-export type DiscoverySource = 'anchor' | 'img_src' | 'script_src' | 'link_tag' | 'form_action' | 'meta_tag' | 'api_call' | 'robots_txt' | 'sitemap';
+// Which hosts/paths count as "the site" relative to the seed URL
+export type ScopeStrategy = 'same-host' | 'same-domain' | 'path-prefix';
+
+export interface ScopeRule {
+  id: string;
+  action: 'include' | 'exclude';
+  kind: 'glob' | 'regex';
+  pattern: string;
+}
+
+// Which LinkExtractor implementation produces the children of a page
+export type ExtractorId = 'gemini' | 'fixture' | 'http';
+
+export type DiscoverySource = 'anchor' | 'img_src' | 'script_src' | 'link_tag' | 'form_action' | 'meta_tag' | 'api_call' | 'robots_txt' | 'sitemap' | 'redirect';
+
+// Any HTTP status code ('200', '404', '503'...) plus the crawler's own lifecycle markers
+export type NodeStatus = `${number}` | 'pending' | 'scanning' | 'blocked';
 
 export interface LinkNode {
   id: string; // URL
@@ -16,7 +39,7 @@ export interface LinkNode {
   title?: string;
   depth: number;
   parentId?: string;
-  status: '200' | '301' | '302' | '403' | '404' | '500' | 'pending' | 'scanning';
+  status: NodeStatus;
   type: 'internal' | 'external' | 'resource';
   contentType: 'text/html' | 'application/json' | 'image/jpeg' | 'image/png' | 'text/css' | 'application/javascript' | 'application/pdf' | 'other';
   size?: number; // in KB
@@ -26,6 +49,58 @@ export interface LinkNode {
   detectedTech?: string[];
   discoverySource?: DiscoverySource;
   scanned?: boolean; // New: Tracks if we have entered this link and extracted its children
+  canonical?: string; // normalized <link rel=canonical> target declared by the page
+  aliases?: string[]; // URLs merged into this node because they share its canonical target
+  inlinks?: number; // link occurrences pointing here from other crawled pages
+  outlinks?: number; // link occurrences on this page pointing elsewhere
+  pageRank?: number; // internal PageRank over followed page links, 0-100 relative to the strongest page
+  outOfScope?: string; // why the URL was recorded but never queued
+  redirectChain?: RedirectHop[]; // every hop from this URL to the final answer, only set when it redirects
+  finalUrl?: string; // where the redirect chain ends
+  redirectIssue?: 'loop' | 'long-chain';
+  seo?: PageSeo; // on-page facts for the SEO audit, only for fetched HTML pages
+  accessibility?: PageAccessibility; // WCAG-oriented checks, only for fetched HTML pages
+}
+
+// What the SEO audit needs from a page, captured while it is parsed
+export interface PageSeo {
+  title?: string;               // exact <title> text, unlike `title` which may be link text
+  description?: string;         // <meta name="description">
+  h1Count: number;
+  robots: string[];             // directives from <meta name="robots"> and X-Robots-Tag, lowercased
+  hreflang: { lang: string; url: string }[]; // <link rel="alternate" hreflang>, absolute URLs
+  openGraph: string[];          // og:* properties present
+}
+
+export type AccessibilityRule = 'img-alt' | 'html-lang' | 'link-name' | 'link-text' | 'form-label' | 'heading-order' | 'duplicate-id';
+export type AccessibilityImpact = 'critical' | 'serious' | 'moderate' | 'minor';
+
+export interface AccessibilityIssue {
+  rule: AccessibilityRule;
+  impact: AccessibilityImpact;
+  element: string; // short markup snippet identifying the offending element
+  detail?: string;
+}
+
+export interface PageAccessibility {
+  score: number;           // 0-100, share of applicable rules passed, weighted by impact
+  issues: AccessibilityIssue[];
+  truncated?: boolean;     // more issues existed than were kept
+}
+
+// One occurrence of a link on a scanned page; a URL linked twice from the same page gives two edges
+export interface LinkEdge {
+  source: string;            // keyed like nodes
+  target: string;
+  text: string;              // anchor text, alt text or the attribute the URL came from
+  rel: string[];
+  discoverySource: DiscoverySource;
+  position: number;          // order of the element on the source page
+}
+
+export interface RedirectHop {
+  url: string;
+  status: number; // 0 marks the hop that closed a loop (not requested again)
 }
 
 export interface CrawlStats {
@@ -36,10 +111,22 @@ export interface CrawlStats {
   assetsFound: number;
   totalSizeKB: number;
   startTime: number;
-  currentUrl: string;
   depthReached: number;
 }
 
+// One slot of the crawl worker pool
+export interface CrawlWorker {
+  id: number;
+  url: string | null; // page being fetched, null when idle
+}
+
+// Sitemap-vs-crawl reconciliation, built when a crawl finishes
+export interface SitemapReport {
+  sitemapUrlCount: number;
+  inSitemapNotLinked: string[];   // declared in a sitemap, never linked from a crawled page
+  linkedNotInSitemap: string[];   // linked internal pages the sitemap forgot
+}
+
 export enum CrawlStatus {
   IDLE = 'IDLE',
   RUNNING = 'RUNNING',
@@ -57,3 +144,45 @@ export interface LogEntry {
   type: 'info' | 'success' | 'error' | 'warning' | 'system';
   details?: string;
 }
+
+// Everything needed to reopen or resume a crawl after a reload (persisted in IndexedDB)
+export interface CrawlSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  status: CrawlStatus;
+  config: CrawlConfig;
+  nodes: LinkNode[];
+  queue: string[];     // URLs still waiting, in order
+  visited: string[];
+  logs: LogEntry[];
+  stats: CrawlStats;
+  aiAnalysis: string;
+  sitemapReport: SitemapReport | null;
+  sitemapUrls: string[];
+  linkedUrls: string[];
+  canonicalOwners: Record<string, string>; // canonical target -> node that claimed it
+  edges?: LinkEdge[]; // missing in sessions saved before links were recorded
+  activeKeyIndex: number;
+}
+
+// A named results-table filter, see services/nodeQuery
+export interface QueryPreset {
+  id: string;
+  name: string;
+  query: string;
+  createdAt: number;
+}
+
+export interface CrawlSessionSummary {
+  id: string;
+  name: string;
+  url: string;
+  createdAt: number;
+  updatedAt: number;
+  status: CrawlStatus;
+  totalLinks: number;
+  scannedPages: number;
+  queuedPages: number;
+}
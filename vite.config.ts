@@ -1,15 +1,20 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { crawlProxyPlugin } from './server/crawlProxy';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        host: 'localhost', // the crawl proxy fetches arbitrary URLs, keep it off the network
       },
-      plugins: [react()],
+      preview: {
+        host: 'localhost',
+      },
+      // DEEPLINK_ALLOW_PRIVATE=1 lets the proxy crawl intranet and localhost targets
+      plugins: [react(), crawlProxyPlugin({ allowPrivateHosts: env.DEEPLINK_ALLOW_PRIVATE === '1' })],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)